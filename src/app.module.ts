@@ -1,7 +1,19 @@
 import { Module } from '@nestjs/common';
+import { APP_FILTER } from '@nestjs/core';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ProductsModule } from './products/products.module';
+import { ImportModule } from './import/import.module';
+import { AuthModule } from './auth/auth.module';
+import { AuditModule } from './audit/audit.module';
+import { PricesModule } from './prices/prices.module';
+import { CurrenciesModule } from './currencies/currencies.module';
+import { CategoriesModule } from './categories/categories.module';
+import { AttributesModule } from './attributes/attributes.module';
+import { InventoryModule } from './inventory/inventory.module';
+import { ImagesModule } from './images/images.module';
+import { AllExceptionsFilter } from './errors/all-exceptions.filter';
+import { createDataSourceOptions } from './database/database.config';
 
 @Module({
   imports: [
@@ -10,23 +22,26 @@ import { ProductsModule } from './products/products.module';
       isGlobal: true,
       envFilePath: '.env',
     }),
-    // Настройка TypeORM через ConfigService
+    // Настройка TypeORM через ConfigService; те же настройки у CLI
+    // миграций (src/database/data-source.ts)
     TypeOrmModule.forRootAsync({
       imports: [ConfigModule],
       inject: [ConfigService],
-      useFactory: (configService: ConfigService) => ({
-        type: 'postgres',
-        host: configService.get<string>('DB_HOST'),
-        port: configService.get<number>('DB_PORT'),
-        username: configService.get<string>('DB_USER'),
-        password: configService.get<string>('DB_PASS'),
-        database: configService.get<string>('DB_NAME'),
-        entities: [__dirname + '/**/*.entity{.ts,.js}'],
-        synchronize: true, // В продакшене лучше использовать миграции
-        logging: false,
-      }),
+      useFactory: (configService: ConfigService) =>
+        createDataSourceOptions((key) => configService.get<string>(key)),
     }),
+    AuthModule,
+    AuditModule,
+    PricesModule,
+    CurrenciesModule,
+    CategoriesModule,
+    AttributesModule,
+    InventoryModule,
+    ImagesModule,
     ProductsModule,
+    ImportModule,
   ],
+  // Единый формат ответа с ошибкой для всех маршрутов
+  providers: [{ provide: APP_FILTER, useClass: AllExceptionsFilter }],
 })
 export class AppModule {}
@@ -0,0 +1,92 @@
+import { AttributeEntity } from './attribute.entity';
+import { AttributeValue, ProductAttributes } from '../dto/attribute.dto';
+import { parseNumber } from '../import/number-parser';
+
+type AttributeDefinition = Pick<
+  AttributeEntity,
+  'name' | 'type' | 'allowedValues'
+>;
+
+const TRUE_VALUES = ['да', 'yes', 'true', '1', '+'];
+const FALSE_VALUES = ['нет', 'no', 'false', '0', '-'];
+
+// Текст ошибки, если атрибут категории не относится к товару; scope — id
+// категории товара и её предков из AttributesService.categoryScopes
+export function attributeScopeError(
+  attribute: Pick<AttributeEntity, 'name' | 'categoryId'>,
+  scope?: Set<number>,
+): string | undefined {
+  return attribute.categoryId && !scope?.has(attribute.categoryId)
+    ? `${attribute.name}: атрибут не относится к категории товара`
+    : undefined;
+}
+
+// Текст ошибки, если значение не подходит атрибуту
+export function attributeValueError(
+  attribute: AttributeDefinition,
+  value: unknown,
+): string | undefined {
+  switch (attribute.type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+        ? undefined
+        : `${attribute.name}: ожидается число`;
+    case 'boolean':
+      return typeof value === 'boolean'
+        ? undefined
+        : `${attribute.name}: ожидается true или false`;
+    case 'enum':
+      return typeof value === 'string' &&
+        attribute.allowedValues?.includes(value)
+        ? undefined
+        : `${
+            attribute.name
+          }: допустимые значения — ${attribute.allowedValues?.join(', ')}`;
+    default:
+      return typeof value === 'string' && value.length <= 255
+        ? undefined
+        : `${attribute.name}: ожидается строка до 255 символов`;
+  }
+}
+
+// Значение из ячейки файла: «1 299,5» — число, «да» — true, значение
+// enum — без учёта регистра. Неразобранная ячейка возвращается как есть
+// и не проходит attributeValueError
+export function parseAttributeCell(
+  attribute: AttributeDefinition,
+  cell: string,
+): AttributeValue {
+  const value = cell.trim();
+  switch (attribute.type) {
+    case 'number':
+      return parseNumber(value);
+    case 'boolean': {
+      const normalized = value.toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) return true;
+      if (FALSE_VALUES.includes(normalized)) return false;
+      return value;
+    }
+    case 'enum':
+      return (
+        attribute.allowedValues?.find(
+          (allowed) => allowed.toLowerCase() === value.toLowerCase(),
+        ) ?? value
+      );
+    default:
+      return value;
+  }
+}
+
+// JSON Merge Patch для значений атрибутов: null удаляет значение
+export function mergeAttributes(
+  current: ProductAttributes | null | undefined,
+  patch: Record<string, AttributeValue | null>,
+): ProductAttributes {
+  const merged: Record<string, AttributeValue | null> = {
+    ...current,
+    ...patch,
+  };
+  return Object.fromEntries(
+    Object.entries(merged).filter(([, value]) => value !== null),
+  ) as ProductAttributes;
+}
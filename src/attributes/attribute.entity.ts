@@ -0,0 +1,41 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { AttributeType } from '../dto/attribute.dto';
+
+// Описание атрибута товара; сами значения хранятся в product.attributes
+@Entity('attributes')
+export class AttributeEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', length: 50, unique: true })
+  code: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 10 })
+  type: AttributeType;
+
+  @Column({ type: 'jsonb', nullable: true })
+  allowedValues?: string[] | null;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  unit?: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  @Index()
+  categoryId?: number | null;
+
+  @CreateDateColumn({ precision: 3 })
+  createdAt: Date;
+
+  @UpdateDateColumn({ precision: 3 })
+  updatedAt: Date;
+}
@@ -0,0 +1,62 @@
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { AttributesController } from './attributes.controller';
+import { AttributesService } from './attributes.service';
+import { authAs, createControllerApp } from '../testing/controller-app';
+
+describe('AttributesController', () => {
+  let app: INestApplication;
+  let attributesService: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    attributesService = {
+      findAll: jest.fn().mockResolvedValue([]),
+      create: jest.fn(async (data) => ({ id: 3, ...data })),
+      remove: jest.fn().mockResolvedValue(undefined),
+    };
+    app = await createControllerApp(AttributesController, [
+      { provide: AttributesService, useValue: attributesService },
+    ]);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('lists attributes available to a category', async () => {
+    await request(app.getHttpServer())
+      .get('/attributes?categoryId=4')
+      .set(authAs('viewer'))
+      .expect(200);
+    await request(app.getHttpServer())
+      .get('/attributes?categoryId=shoes')
+      .set(authAs('viewer'))
+      .expect(400);
+
+    expect(attributesService.findAll).toHaveBeenCalledTimes(1);
+    expect(attributesService.findAll).toHaveBeenCalledWith(4);
+  });
+
+  it('lets only editors define attributes and validates their codes', async () => {
+    const server = app.getHttpServer();
+    const size = { code: 'size', name: 'Размер', type: 'string' };
+    await request(server)
+      .post('/attributes')
+      .set(authAs('viewer'))
+      .send(size)
+      .expect(403);
+    await request(server)
+      .post('/attributes')
+      .set(authAs('editor'))
+      .send({ ...size, code: 'Size-EU' })
+      .expect(400);
+    await request(server)
+      .post('/attributes')
+      .set(authAs('editor'))
+      .send(size)
+      .expect(201);
+
+    expect(attributesService.create).toHaveBeenCalledTimes(1);
+    expect(attributesService.create).toHaveBeenCalledWith(size);
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { AttributesService } from './attributes.service';
+import { AttributeEntity } from './attribute.entity';
+import {
+  AttributeQueryDto,
+  CreateAttributeDto,
+  UpdateAttributeDto,
+} from '../dto/attribute.dto';
+import { Roles } from '../auth/roles.decorator';
+
+// Описания атрибутов товаров: размер, материал, …
+@Controller('attributes')
+export class AttributesController {
+  constructor(private readonly attributesService: AttributesService) {}
+
+  @Get()
+  async getAll(@Query() query: AttributeQueryDto): Promise<AttributeEntity[]> {
+    return this.attributesService.findAll(query.categoryId);
+  }
+
+  @Get(':id')
+  async getOne(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<AttributeEntity> {
+    return this.attributesService.findOne(id);
+  }
+
+  @Roles('editor')
+  @Post()
+  async create(@Body() data: CreateAttributeDto): Promise<AttributeEntity> {
+    return this.attributesService.create(data);
+  }
+
+  @Roles('editor')
+  @Patch(':id')
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() data: UpdateAttributeDto,
+  ): Promise<AttributeEntity> {
+    return this.attributesService.update(id, data);
+  }
+
+  @Roles('editor')
+  @Delete(':id')
+  async remove(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<{ message: string }> {
+    await this.attributesService.remove(id);
+    return { message: 'Атрибут удален' };
+  }
+}
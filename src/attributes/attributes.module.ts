@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AttributesService } from './attributes.service';
+import { AttributesController } from './attributes.controller';
+import { AttributeEntity } from './attribute.entity';
+import { CategoryEntity } from '../categories/category.entity';
+import { ProductEntity } from '../products/product.entity';
+import { CategoriesModule } from '../categories/categories.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([AttributeEntity, CategoryEntity, ProductEntity]),
+    CategoriesModule,
+  ],
+  providers: [AttributesService],
+  controllers: [AttributesController],
+  exports: [AttributesService],
+})
+export class AttributesModule {}
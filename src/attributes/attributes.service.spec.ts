@@ -0,0 +1,211 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { AttributesService } from './attributes.service';
+import { AttributeEntity } from './attribute.entity';
+import { CategoryEntity } from '../categories/category.entity';
+import { CategoriesService } from '../categories/categories.service';
+import { ProductEntity } from '../products/product.entity';
+import { DuplicateAttributeException } from '../errors/domain.exceptions';
+import { mergeAttributes, parseAttributeCell } from './attribute-values';
+
+describe('AttributesService', () => {
+  const size = {
+    id: 1,
+    code: 'size',
+    name: 'Размер',
+    type: 'enum',
+    allowedValues: ['41', '42', '43'],
+    unit: null,
+    categoryId: 2,
+  };
+  const weight = {
+    id: 2,
+    code: 'weight',
+    name: 'Вес',
+    type: 'number',
+    allowedValues: null,
+    unit: 'г',
+    categoryId: null,
+  };
+
+  let service: AttributesService;
+  let attributesRepo: Record<string, jest.Mock>;
+  let categoriesRepo: { find: jest.Mock };
+  let queryBuilder: Record<string, jest.Mock>;
+  let categoriesService: { findOne: jest.Mock; assertExists: jest.Mock };
+
+  beforeEach(async () => {
+    queryBuilder = {
+      withDeleted: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      getCount: jest.fn().mockResolvedValue(0),
+    };
+    attributesRepo = {
+      find: jest.fn().mockResolvedValue([size, weight]),
+      findBy: jest.fn().mockResolvedValue([size, weight]),
+      findOneBy: jest.fn(
+        async ({ id }) => [size, weight].find((item) => item.id === id) ?? null,
+      ),
+      countBy: jest.fn().mockResolvedValue(0),
+      create: jest.fn((data) => data),
+      save: jest.fn(async (data) => ({ id: 3, ...data })),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+    categoriesRepo = { find: jest.fn().mockResolvedValue([{ id: 1 }]) };
+    categoriesService = {
+      findOne: jest.fn(async (id) => ({ id, path: 'obuv/krossovki' })),
+      assertExists: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AttributesService,
+        {
+          provide: getRepositoryToken(AttributeEntity),
+          useValue: attributesRepo,
+        },
+        {
+          provide: getRepositoryToken(CategoryEntity),
+          useValue: categoriesRepo,
+        },
+        {
+          provide: getRepositoryToken(ProductEntity),
+          useValue: { createQueryBuilder: () => queryBuilder },
+        },
+        { provide: CategoriesService, useValue: categoriesService },
+      ],
+    }).compile();
+
+    service = module.get<AttributesService>(AttributesService);
+  });
+
+  it('lists global attributes and those of the category ancestors', async () => {
+    await service.findAll(2);
+
+    expect(categoriesRepo.find).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          path: expect.objectContaining({ _value: ['obuv', 'obuv/krossovki'] }),
+        },
+      }),
+    );
+    expect(attributesRepo.find).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: [
+          { categoryId: expect.objectContaining({ _type: 'isNull' }) },
+          { categoryId: expect.objectContaining({ _value: [1] }) },
+        ],
+      }),
+    );
+  });
+
+  it('rejects a duplicate code and an enum without values', async () => {
+    attributesRepo.countBy.mockResolvedValueOnce(1);
+    await expect(
+      service.create({ code: 'size', name: 'Размер', type: 'string' }),
+    ).rejects.toBeInstanceOf(DuplicateAttributeException);
+
+    await expect(
+      service.create({ code: 'fit', name: 'Посадка', type: 'enum' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(attributesRepo.save).not.toHaveBeenCalled();
+  });
+
+  it('keeps enum values that products still use', async () => {
+    queryBuilder.getCount.mockResolvedValue(4);
+
+    await expect(
+      service.update(1, { allowedValues: ['42', '43'] }),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(queryBuilder.where).toHaveBeenCalledWith(
+      'product.attributes ->> :code = ANY(:removed)',
+      { code: 'size', removed: ['41'] },
+    );
+    expect(attributesRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('does not delete an attribute that products use', async () => {
+    queryBuilder.getCount.mockResolvedValue(1);
+
+    await expect(service.remove(2)).rejects.toBeInstanceOf(ConflictException);
+    expect(attributesRepo.delete).not.toHaveBeenCalled();
+  });
+
+  it('collects every invalid value into one error', async () => {
+    categoriesRepo.find.mockResolvedValue([{ id: 2, path: 'obuv' }]);
+    await expect(
+      service.validateValues({ size: '50', weight: 'много', fit: 'slim' }, 2),
+    ).rejects.toMatchObject({
+      response: expect.objectContaining({
+        message: [
+          'Размер: допустимые значения — 41, 42, 43',
+          'Вес: ожидается число',
+          'Неизвестный атрибут fit',
+        ],
+      }),
+    });
+    await expect(
+      service.validateValues({ size: '42', weight: null }, 2),
+    ).resolves.toBeUndefined();
+  });
+
+  it('accepts category attributes only within the category subtree', async () => {
+    categoriesRepo.find
+      .mockResolvedValueOnce([{ id: 5, path: 'obuv/krossovki' }])
+      .mockResolvedValueOnce([
+        { id: 2, path: 'obuv' },
+        { id: 5, path: 'obuv/krossovki' },
+      ]);
+    await expect(
+      service.validateValues({ size: '42', weight: 300 }, 5),
+    ).resolves.toBeUndefined();
+
+    categoriesRepo.find
+      .mockResolvedValueOnce([{ id: 7, path: 'odezhda' }])
+      .mockResolvedValueOnce([{ id: 7, path: 'odezhda' }]);
+    await expect(
+      service.validateValues({ size: '42', weight: 300 }, 7),
+    ).rejects.toMatchObject({
+      response: expect.objectContaining({
+        message: ['Размер: атрибут не относится к категории товара'],
+      }),
+    });
+    await expect(
+      service.validateValues({ size: '42' }, null),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
+
+describe('attribute values', () => {
+  it('parses spreadsheet cells by attribute type', () => {
+    expect(
+      parseAttributeCell(
+        { name: 'Вес', type: 'number', allowedValues: null },
+        '1 250,5',
+      ),
+    ).toBe(1250.5);
+    expect(
+      parseAttributeCell(
+        { name: 'Водонепроницаемость', type: 'boolean', allowedValues: null },
+        'Да',
+      ),
+    ).toBe(true);
+    expect(
+      parseAttributeCell(
+        { name: 'Посадка', type: 'enum', allowedValues: ['Slim', 'Regular'] },
+        'slim',
+      ),
+    ).toBe('Slim');
+  });
+
+  it('removes values set to null when merging', () => {
+    expect(
+      mergeAttributes(
+        { size: '42', weight: 300 },
+        { weight: null, fit: 'Slim' },
+      ),
+    ).toEqual({ size: '42', fit: 'Slim' });
+  });
+});
@@ -0,0 +1,211 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+import { AttributeEntity } from './attribute.entity';
+import { attributeScopeError, attributeValueError } from './attribute-values';
+import { CategoryEntity } from '../categories/category.entity';
+import { CategoriesService } from '../categories/categories.service';
+import { ProductEntity } from '../products/product.entity';
+import {
+  AttributeValue,
+  CreateAttributeDto,
+  UpdateAttributeDto,
+} from '../dto/attribute.dto';
+import {
+  AttributeNotFoundException,
+  DuplicateAttributeException,
+} from '../errors/domain.exceptions';
+
+// Пути всех предков категории и её самой: obuv, obuv/krossovki
+function pathPrefixes(path: string): string[] {
+  const slugs = path.split('/');
+  return slugs.map((_, index) => slugs.slice(0, index + 1).join('/'));
+}
+
+@Injectable()
+export class AttributesService {
+  constructor(
+    @InjectRepository(AttributeEntity)
+    private readonly attributesRepo: Repository<AttributeEntity>,
+    @InjectRepository(CategoryEntity)
+    private readonly categoriesRepo: Repository<CategoryEntity>,
+    @InjectRepository(ProductEntity)
+    private readonly productsRepo: Repository<ProductEntity>,
+    private readonly categoriesService: CategoriesService,
+  ) {}
+
+  // С categoryId — общие атрибуты и атрибуты категории и её предков
+  async findAll(categoryId?: number): Promise<AttributeEntity[]> {
+    if (!categoryId) {
+      return this.attributesRepo.find({ order: { name: 'ASC' } });
+    }
+
+    const category = await this.categoriesService.findOne(categoryId);
+    return this.attributesRepo.find({
+      where: [
+        { categoryId: IsNull() },
+        { categoryId: In(await this.categoryScope(category.path)) },
+      ],
+      order: { name: 'ASC' },
+    });
+  }
+
+  async findOne(id: number): Promise<AttributeEntity> {
+    const attribute = await this.attributesRepo.findOneBy({ id });
+    if (!attribute) {
+      throw new AttributeNotFoundException(id);
+    }
+    return attribute;
+  }
+
+  async create(data: CreateAttributeDto): Promise<AttributeEntity> {
+    if (await this.attributesRepo.countBy({ code: data.code })) {
+      throw new DuplicateAttributeException(data.code);
+    }
+    assertAllowedValues(data.type, data.allowedValues);
+    if (data.categoryId) {
+      await this.categoriesService.assertExists(data.categoryId);
+    }
+
+    return this.attributesRepo.save(
+      this.attributesRepo.create({
+        ...data,
+        allowedValues: data.allowedValues ?? null,
+      }),
+    );
+  }
+
+  // Значение enum, которое уже стоит у товаров, из списка не убрать
+  async update(id: number, data: UpdateAttributeDto): Promise<AttributeEntity> {
+    const attribute = await this.findOne(id);
+    if (data.allowedValues) {
+      assertAllowedValues(attribute.type, data.allowedValues);
+      const removed = (attribute.allowedValues ?? []).filter(
+        (value) => !data.allowedValues!.includes(value),
+      );
+      const used = removed.length
+        ? await this.productsRepo
+            .createQueryBuilder('product')
+            .withDeleted()
+            .where('product.attributes ->> :code = ANY(:removed)', {
+              code: attribute.code,
+              removed,
+            })
+            .getCount()
+        : 0;
+      if (used) {
+        throw new ConflictException(
+          `Удаляемые значения атрибута ${attribute.name} используются в ${used} товарах`,
+        );
+      }
+    }
+    if (data.categoryId) {
+      await this.categoriesService.assertExists(data.categoryId);
+    }
+
+    await this.attributesRepo.update(id, data);
+    return this.findOne(id);
+  }
+
+  async remove(id: number): Promise<void> {
+    const attribute = await this.findOne(id);
+    const used = await this.productsRepo
+      .createQueryBuilder('product')
+      .withDeleted()
+      .where('product.attributes -> :code IS NOT NULL', {
+        code: attribute.code,
+      })
+      .getCount();
+    if (used) {
+      throw new ConflictException(
+        `Атрибут ${attribute.name} используется в ${used} товарах`,
+      );
+    }
+    await this.attributesRepo.delete(id);
+  }
+
+  private async categoryScope(path: string): Promise<number[]> {
+    const ancestors = await this.categoriesRepo.find({
+      select: { id: true },
+      where: { path: In(pathPrefixes(path)) },
+    });
+    return ancestors.map((ancestor) => ancestor.id);
+  }
+
+  // Для каждой категории — id её самой и её предков: товару категории
+  // доступны атрибуты только этих категорий и общие
+  async categoryScopes(
+    categoryIds: number[],
+  ): Promise<Map<number, Set<number>>> {
+    if (!categoryIds.length) return new Map();
+    const categories = await this.categoriesRepo.find({
+      select: { id: true, path: true },
+      where: { id: In([...new Set(categoryIds)]) },
+    });
+    const ancestors = await this.categoriesRepo.find({
+      select: { id: true, path: true },
+      where: {
+        path: In([
+          ...new Set(categories.flatMap(({ path }) => pathPrefixes(path))),
+        ]),
+      },
+    });
+    const idByPath = new Map(ancestors.map(({ id, path }) => [path, id]));
+    return new Map(
+      categories.map(({ id, path }) => [
+        id,
+        new Set(
+          pathPrefixes(path).flatMap((prefix) => idByPath.get(prefix) ?? []),
+        ),
+      ]),
+    );
+  }
+
+  // Проверяет значения атрибутов товара; null в values означает удаление
+  // значения и не проверяется. Атрибут категории допустим, только если
+  // categoryId товара — эта категория или её потомок. Все ошибки
+  // возвращаются одним ответом
+  async validateValues(
+    values: Record<string, AttributeValue | null>,
+    categoryId?: number | null,
+  ): Promise<void> {
+    const codes = Object.keys(values).filter((code) => values[code] !== null);
+    if (!codes.length) return;
+
+    const attributes = await this.attributesRepo.findBy({ code: In(codes) });
+    const byCode = new Map(attributes.map((item) => [item.code, item]));
+    const scope =
+      categoryId && attributes.some((item) => item.categoryId)
+        ? (await this.categoryScopes([categoryId])).get(categoryId)
+        : undefined;
+    const errors = codes.flatMap((code) => {
+      const attribute = byCode.get(code);
+      if (!attribute) return [`Неизвестный атрибут ${code}`];
+      const error =
+        attributeScopeError(attribute, scope) ??
+        attributeValueError(attribute, values[code]);
+      return error ? [error] : [];
+    });
+    if (errors.length) {
+      throw new BadRequestException(errors);
+    }
+  }
+}
+
+function assertAllowedValues(
+  type: AttributeEntity['type'],
+  allowedValues?: string[],
+): void {
+  if (type === 'enum' && !allowedValues?.length) {
+    throw new BadRequestException('Для атрибута enum укажите allowedValues');
+  }
+  if (type !== 'enum' && allowedValues) {
+    throw new BadRequestException(
+      'allowedValues задаются только для атрибута enum',
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { AuditAction, AuditChanges, AuditSource } from '../dto/audit.dto';
+
+// Запись журнала изменений каталога; productId и article сохраняются
+// и после удаления товара, поэтому это не внешний ключ
+@Entity('audit_log')
+export class AuditLogEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', length: 20 })
+  @Index()
+  action: AuditAction;
+
+  @Column({ type: 'int', nullable: true })
+  @Index()
+  productId?: number | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  article?: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  changes?: AuditChanges | null;
+
+  // Сводка для событий без товара: итоги импорта, число удалённых строк
+  @Column({ type: 'jsonb', nullable: true })
+  details?: Record<string, string | number | null> | null;
+
+  @Column({ type: 'int', nullable: true })
+  @Index()
+  actorId?: number | null;
+
+  @Column({ type: 'varchar', length: 20, default: 'api' })
+  source: AuditSource;
+
+  @Column({ type: 'int', nullable: true })
+  @Index()
+  importJobId?: number | null;
+
+  @CreateDateColumn({ precision: 3 })
+  @Index()
+  createdAt: Date;
+}
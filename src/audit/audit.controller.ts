@@ -0,0 +1,21 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { AuditService } from './audit.service';
+import { AuditLogEntity } from './audit-log.entity';
+import { AuditQueryDto } from '../dto/audit.dto';
+import { PaginatedResult } from '../dto/paginated-result.dto';
+import { Roles } from '../auth/roles.decorator';
+
+// Общая лента журнала изменений; история одного товара —
+// GET /products/:id/history
+@Roles('admin')
+@Controller('audit')
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  async getAll(
+    @Query() query: AuditQueryDto,
+  ): Promise<PaginatedResult<AuditLogEntity>> {
+    return this.auditService.findAll(query);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+import { AuditLogEntity } from './audit-log.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([AuditLogEntity])],
+  providers: [AuditService],
+  controllers: [AuditController],
+  exports: [AuditService],
+})
+export class AuditModule {}
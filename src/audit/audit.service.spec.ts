@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { AuditService, productChanges } from './audit.service';
+import { AuditLogEntity } from './audit-log.entity';
+import { AuditQueryDto } from '../dto/audit.dto';
+
+describe('AuditService', () => {
+  let service: AuditService;
+  let auditRepo: Record<string, jest.Mock>;
+  let queryBuilder: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    queryBuilder = {};
+    for (const method of [
+      'andWhere',
+      'orderBy',
+      'addOrderBy',
+      'skip',
+      'take',
+    ]) {
+      queryBuilder[method] = jest.fn().mockReturnValue(queryBuilder);
+    }
+    queryBuilder.getManyAndCount = jest.fn().mockResolvedValue([[], 120]);
+    auditRepo = {
+      insert: jest.fn(),
+      createQueryBuilder: jest.fn(() => queryBuilder),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        { provide: getRepositoryToken(AuditLogEntity), useValue: auditRepo },
+      ],
+    }).compile();
+
+    service = module.get<AuditService>(AuditService);
+  });
+
+  it('compares prices as numbers and ignores untouched fields', () => {
+    expect(
+      productChanges(
+        { article: 'A-1', name: 'Кеды', price: '100.00' as unknown as number },
+        { article: 'A-1', name: 'Кеды', price: 100, brand: '' },
+      ),
+    ).toEqual({});
+    expect(
+      productChanges({ name: 'Кеды', color: 'Белый' }, { name: 'Кеды' }),
+    ).toEqual({ color: { before: 'Белый', after: null } });
+  });
+
+  it('writes entries in batches', async () => {
+    await service.record(
+      Array.from({ length: 1200 }, () => ({ action: 'create' as const })),
+    );
+
+    expect(auditRepo.insert).toHaveBeenCalledTimes(3);
+  });
+
+  it('filters the feed and pages through it', async () => {
+    const query = Object.assign(new AuditQueryDto(), {
+      action: 'update',
+      actorId: 4,
+      page: 2,
+    });
+
+    const result = await service.findAll(query);
+
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+      'audit.action = :action',
+      { action: 'update' },
+    );
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+      'audit.actorId = :actorId',
+      { actorId: 4 },
+    );
+    expect(queryBuilder.skip).toHaveBeenCalledWith(50);
+    expect(result).toMatchObject({ total: 120, page: 2, pageCount: 3 });
+  });
+});
@@ -0,0 +1,128 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { AuditLogEntity } from './audit-log.entity';
+import { ProductEntity } from '../products/product.entity';
+import { AuditAction, AuditChanges, AuditQueryDto } from '../dto/audit.dto';
+import { PaginatedResult } from '../dto/paginated-result.dto';
+
+export type AuditEntry = Omit<Partial<AuditLogEntity>, 'id' | 'createdAt'> & {
+  action: AuditAction;
+};
+
+// Поля товара, изменения которых попадают в журнал
+const AUDITED_FIELDS = [
+  'article',
+  'name',
+  'brand',
+  'price',
+  'currency',
+  'color',
+  'country',
+  'categoryId',
+  'parentId',
+  'attributes',
+] as const;
+
+const INSERT_BATCH_SIZE = 500;
+
+// Разница между состояниями товара; null вместо состояния — товара
+// не было (создание) или не стало (удаление)
+export function productChanges(
+  before: Partial<ProductEntity> | null,
+  after: Partial<ProductEntity> | null,
+): AuditChanges {
+  const changes: AuditChanges = {};
+  for (const field of AUDITED_FIELDS) {
+    const previous = normalize(field, before?.[field]);
+    const next = normalize(field, after?.[field]);
+    if (previous !== next) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+  return changes;
+}
+
+// decimal из pg приходит строкой «100.00», из DTO — числом. Атрибуты
+// сравниваются как JSON с упорядоченными ключами
+function normalize(field: string, value: unknown): string | number | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (field === 'attributes') {
+    const entries = Object.entries(value as object).sort(([a], [b]) =>
+      a.localeCompare(b),
+    );
+    return entries.length ? JSON.stringify(Object.fromEntries(entries)) : null;
+  }
+  return field === 'price' || field === 'categoryId' || field === 'parentId'
+    ? Number(value)
+    : String(value);
+}
+
+@Injectable()
+export class AuditService {
+  constructor(
+    @InjectRepository(AuditLogEntity)
+    private readonly auditRepo: Repository<AuditLogEntity>,
+  ) {}
+
+  // manager — транзакция, в которой изменён каталог: запись журнала
+  // откатывается вместе с изменением
+  async record(entries: AuditEntry[], manager?: EntityManager): Promise<void> {
+    const repo = manager
+      ? manager.getRepository(AuditLogEntity)
+      : this.auditRepo;
+    for (let offset = 0; offset < entries.length; offset += INSERT_BATCH_SIZE) {
+      await repo.insert(entries.slice(offset, offset + INSERT_BATCH_SIZE));
+    }
+  }
+
+  async findForProduct(productId: number): Promise<AuditLogEntity[]> {
+    return this.auditRepo.find({
+      where: { productId },
+      order: { createdAt: 'DESC', id: 'DESC' },
+    });
+  }
+
+  async findAll(
+    query: AuditQueryDto,
+  ): Promise<PaginatedResult<AuditLogEntity>> {
+    const { page, limit } = query;
+    const queryBuilder = this.auditRepo.createQueryBuilder('audit');
+
+    for (const field of [
+      'action',
+      'source',
+      'actorId',
+      'productId',
+      'importJobId',
+      'article',
+    ] as const) {
+      if (query[field] !== undefined) {
+        queryBuilder.andWhere(`audit.${field} = :${field}`, {
+          [field]: query[field],
+        });
+      }
+    }
+    if (query.from) {
+      queryBuilder.andWhere('audit.createdAt >= :from', { from: query.from });
+    }
+    if (query.to) {
+      queryBuilder.andWhere('audit.createdAt <= :to', { to: query.to });
+    }
+
+    const [items, total] = await queryBuilder
+      .orderBy('audit.createdAt', 'DESC')
+      .addOrderBy('audit.id', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      items,
+      total,
+      page,
+      pageCount: Math.ceil(total / limit),
+      nextCursor: null,
+    };
+  }
+}
@@ -0,0 +1,36 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { UsersService } from './users.service';
+
+describe('AuthController', () => {
+  let controller: AuthController;
+  let authService: { issueApiKey: jest.Mock };
+
+  beforeEach(async () => {
+    authService = { issueApiKey: jest.fn().mockResolvedValue({ apiKey: 'k' }) };
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AuthController],
+      providers: [
+        { provide: AuthService, useValue: authService },
+        { provide: UsersService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<AuthController>(AuthController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('issues an API key for the current user', async () => {
+    await controller.issueApiKey({
+      id: 3,
+      email: 'viewer@example.com',
+      role: 'viewer',
+    });
+
+    expect(authService.issueApiKey).toHaveBeenCalledWith(3);
+  });
+});
@@ -0,0 +1,52 @@
+import { Body, Controller, Get, HttpCode, Post } from '@nestjs/common';
+import { AuthService } from './auth.service';
+import { UsersService } from './users.service';
+import { UserEntity } from './user.entity';
+import { CurrentUser } from './current-user.decorator';
+import { Public, Roles } from './roles.decorator';
+import {
+  AccessToken,
+  AuthUser,
+  CreateUserDto,
+  LoginDto,
+} from '../dto/auth.dto';
+
+@Controller('auth')
+export class AuthController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  @Public()
+  @Post('login')
+  @HttpCode(200)
+  async login(@Body() loginDto: LoginDto): Promise<AccessToken> {
+    return this.authService.login(loginDto);
+  }
+
+  @Get('me')
+  me(@CurrentUser() user: AuthUser): AuthUser {
+    return user;
+  }
+
+  // Ключ для интеграций (заголовок X-API-Key) с ролью текущего пользователя
+  @Post('api-key')
+  async issueApiKey(
+    @CurrentUser() user: AuthUser,
+  ): Promise<{ apiKey: string }> {
+    return this.authService.issueApiKey(user.id);
+  }
+
+  @Roles('admin')
+  @Get('users')
+  async getUsers(): Promise<UserEntity[]> {
+    return this.usersService.findAll();
+  }
+
+  @Roles('admin')
+  @Post('users')
+  async createUser(@Body() createUserDto: CreateUserDto): Promise<UserEntity> {
+    return this.usersService.create(createUserDto);
+  }
+}
@@ -0,0 +1,79 @@
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard } from './auth.guard';
+import { AuthService } from './auth.service';
+import { Public, Roles } from './roles.decorator';
+import { AuthUser } from '../dto/auth.dto';
+
+class TestController {
+  @Public()
+  open() {}
+
+  read() {}
+
+  @Roles('admin')
+  clear() {}
+}
+
+describe('AuthGuard', () => {
+  const editor: AuthUser = {
+    id: 2,
+    email: 'editor@example.com',
+    role: 'editor',
+  };
+  const authService = {
+    authenticateToken: jest.fn(async () => editor),
+    authenticateApiKey: jest.fn(async () => editor),
+  };
+  const guard = new AuthGuard(
+    new Reflector(),
+    authService as unknown as AuthService,
+  );
+
+  const contextFor = (
+    handler: keyof TestController,
+    headers: Record<string, string> = {},
+  ) => {
+    const request = {
+      user: undefined as AuthUser | undefined,
+      header: (name: string) => headers[name.toLowerCase()],
+    };
+    const context = {
+      getHandler: () => TestController.prototype[handler],
+      getClass: () => TestController,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+    return { context, request };
+  };
+
+  it('lets public routes through without credentials', async () => {
+    await expect(guard.canActivate(contextFor('open').context)).resolves.toBe(
+      true,
+    );
+  });
+
+  it('requires credentials on other routes', async () => {
+    await expect(
+      guard.canActivate(contextFor('read').context),
+    ).rejects.toMatchObject({ status: 401 });
+  });
+
+  it('attaches the user authenticated by a bearer token or an API key', async () => {
+    const bearer = contextFor('read', { authorization: 'Bearer token' });
+    await expect(guard.canActivate(bearer.context)).resolves.toBe(true);
+    expect(authService.authenticateToken).toHaveBeenCalledWith('token');
+    expect(bearer.request.user).toBe(editor);
+
+    const apiKey = contextFor('read', { 'x-api-key': 'pk_key' });
+    await expect(guard.canActivate(apiKey.context)).resolves.toBe(true);
+    expect(authService.authenticateApiKey).toHaveBeenCalledWith('pk_key');
+  });
+
+  it('rejects users below the required role', async () => {
+    await expect(
+      guard.canActivate(
+        contextFor('clear', { authorization: 'Bearer token' }).context,
+      ),
+    ).rejects.toMatchObject({ status: 403 });
+  });
+});
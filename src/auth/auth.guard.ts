@@ -0,0 +1,54 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { AuthService } from './auth.service';
+import { IS_PUBLIC_KEY, ROLES_KEY, hasRole } from './roles.decorator';
+import { AuthUser, UserRole } from '../dto/auth.dto';
+
+export type AuthenticatedRequest = Request & { user?: AuthUser };
+
+// Глобальный guard: пускает по JWT (Authorization: Bearer) или по
+// API-ключу (X-API-Key) и проверяет роль из @Roles
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    request.user = await this.authenticate(request);
+
+    const role = this.reflector.getAllAndOverride<UserRole>(ROLES_KEY, targets);
+    if (role && !hasRole(request.user, role)) {
+      throw new ForbiddenException(`Недостаточно прав: нужна роль ${role}`);
+    }
+    return true;
+  }
+
+  private async authenticate(request: Request): Promise<AuthUser> {
+    const apiKey = request.header('x-api-key');
+    if (apiKey) {
+      return this.authService.authenticateApiKey(apiKey);
+    }
+
+    const [scheme, token] = (request.header('authorization') ?? '').split(' ');
+    if (scheme?.toLowerCase() === 'bearer' && token) {
+      return this.authService.authenticateToken(token);
+    }
+
+    throw new UnauthorizedException('Требуется аутентификация');
+  }
+}
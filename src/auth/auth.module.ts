@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthService } from './auth.service';
+import { UsersService } from './users.service';
+import { AuthController } from './auth.controller';
+import { AuthGuard } from './auth.guard';
+import { UserEntity } from './user.entity';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([UserEntity]),
+    JwtModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        secret: configService.getOrThrow<string>('JWT_SECRET'),
+        signOptions: {
+          expiresIn: configService.get<string>('JWT_EXPIRES_IN', '12h'),
+        },
+      }),
+    }),
+  ],
+  providers: [
+    AuthService,
+    UsersService,
+    // Все маршруты закрыты, кроме помеченных @Public()
+    { provide: APP_GUARD, useClass: AuthGuard },
+  ],
+  controllers: [AuthController],
+})
+export class AuthModule {}
@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { AuthService } from './auth.service';
+import { UserEntity } from './user.entity';
+import { hashApiKey, hashPassword } from './password';
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let usersRepo: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    const user = {
+      id: 1,
+      email: 'admin@example.com',
+      role: 'admin',
+      passwordHash: await hashPassword('secret-password'),
+    };
+    usersRepo = {
+      findOne: jest.fn(async ({ where }) =>
+        where.email === user.email ? user : null,
+      ),
+      findOneBy: jest.fn(async ({ apiKeyHash }) =>
+        apiKeyHash === hashApiKey('pk_valid') ? user : null,
+      ),
+      update: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: getRepositoryToken(UserEntity), useValue: usersRepo },
+        { provide: JwtService, useValue: new JwtService({ secret: 'test' }) },
+        { provide: ConfigService, useValue: new ConfigService() },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+  });
+
+  it('issues a token that authenticates the user', async () => {
+    const { accessToken } = await service.login({
+      email: 'Admin@Example.com',
+      password: 'secret-password',
+    });
+
+    await expect(service.authenticateToken(accessToken)).resolves.toEqual({
+      id: 1,
+      email: 'admin@example.com',
+      role: 'admin',
+    });
+  });
+
+  it('rejects a wrong password and a forged token', async () => {
+    await expect(
+      service.login({ email: 'admin@example.com', password: 'wrong' }),
+    ).rejects.toMatchObject({ status: 401 });
+    await expect(
+      service.authenticateToken(
+        await new JwtService({ secret: 'other' }).signAsync({ sub: 1 }),
+      ),
+    ).rejects.toMatchObject({ status: 401 });
+  });
+
+  it('stores only the hash of an issued API key', async () => {
+    const { apiKey } = await service.issueApiKey(1);
+
+    expect(usersRepo.update).toHaveBeenCalledWith(1, {
+      apiKeyHash: hashApiKey(apiKey),
+    });
+    await expect(service.authenticateApiKey('pk_valid')).resolves.toMatchObject(
+      { id: 1, role: 'admin' },
+    );
+    await expect(service.authenticateApiKey(apiKey)).rejects.toMatchObject({
+      status: 401,
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { UserEntity } from './user.entity';
+import { AccessToken, AuthUser, LoginDto } from '../dto/auth.dto';
+import { generateApiKey, hashApiKey, verifyPassword } from './password';
+
+interface TokenPayload {
+  sub: number;
+  email: string;
+  role: AuthUser['role'];
+}
+
+@Injectable()
+export class AuthService {
+  constructor(
+    @InjectRepository(UserEntity)
+    private readonly usersRepo: Repository<UserEntity>,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async login({ email, password }: LoginDto): Promise<AccessToken> {
+    const user = await this.usersRepo.findOne({
+      where: { email: email.toLowerCase() },
+      select: { id: true, email: true, role: true, passwordHash: true },
+    });
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      throw new UnauthorizedException('Неверный email или пароль');
+    }
+
+    const payload: TokenPayload = {
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+    };
+    return {
+      accessToken: await this.jwtService.signAsync(payload),
+      tokenType: 'Bearer',
+      expiresIn: this.configService.get<string>('JWT_EXPIRES_IN', '12h'),
+    };
+  }
+
+  async authenticateToken(token: string): Promise<AuthUser> {
+    try {
+      const payload = await this.jwtService.verifyAsync<TokenPayload>(token);
+      return { id: payload.sub, email: payload.email, role: payload.role };
+    } catch {
+      throw new UnauthorizedException('Токен недействителен или истёк');
+    }
+  }
+
+  async authenticateApiKey(apiKey: string): Promise<AuthUser> {
+    const user = await this.usersRepo.findOneBy({
+      apiKeyHash: hashApiKey(apiKey),
+    });
+    if (!user) {
+      throw new UnauthorizedException('Неверный API-ключ');
+    }
+    return { id: user.id, email: user.email, role: user.role };
+  }
+
+  // Новый ключ заменяет прежний; в открытом виде он возвращается один раз
+  async issueApiKey(userId: number): Promise<{ apiKey: string }> {
+    const apiKey = generateApiKey();
+    await this.usersRepo.update(userId, { apiKeyHash: hashApiKey(apiKey) });
+    return { apiKey };
+  }
+}
@@ -0,0 +1,9 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthenticatedRequest } from './auth.guard';
+import { AuthUser } from '../dto/auth.dto';
+
+// Пользователь, которого AuthGuard положил в запрос
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthUser =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().user as AuthUser,
+);
@@ -0,0 +1,15 @@
+import { SetMetadata } from '@nestjs/common';
+import { AuthUser, USER_ROLES, UserRole } from '../dto/auth.dto';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+export const ROLES_KEY = 'role';
+
+// Маршрут доступен без аутентификации
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+// Минимальная роль для маршрута; без декоратора достаточно любой (viewer)
+export const Roles = (role: UserRole) => SetMetadata(ROLES_KEY, role);
+
+export function hasRole(user: AuthUser, role: UserRole): boolean {
+  return USER_ROLES.indexOf(user.role) >= USER_ROLES.indexOf(role);
+}
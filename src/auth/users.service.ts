@@ -0,0 +1,55 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { UserEntity } from './user.entity';
+import { CreateUserDto } from '../dto/auth.dto';
+import { hashPassword } from './password';
+
+@Injectable()
+export class UsersService implements OnModuleInit {
+  private readonly logger = new Logger(UsersService.name);
+
+  constructor(
+    @InjectRepository(UserEntity)
+    private readonly usersRepo: Repository<UserEntity>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // Первый администратор создаётся из ADMIN_EMAIL/ADMIN_PASSWORD,
+  // пока в таблице нет ни одного пользователя
+  async onModuleInit(): Promise<void> {
+    const email = this.configService.get<string>('ADMIN_EMAIL');
+    const password = this.configService.get<string>('ADMIN_PASSWORD');
+    if (!email || !password || (await this.usersRepo.count()) > 0) return;
+
+    await this.create({ email, password, role: 'admin' });
+    this.logger.log(`Created initial admin ${email}`);
+  }
+
+  async findAll(): Promise<UserEntity[]> {
+    return this.usersRepo.find({ order: { email: 'ASC' } });
+  }
+
+  async create(data: CreateUserDto): Promise<UserEntity> {
+    const email = data.email.toLowerCase();
+    if (await this.usersRepo.findOneBy({ email })) {
+      throw new ConflictException(`Пользователь ${email} уже существует`);
+    }
+
+    const user = await this.usersRepo.save(
+      this.usersRepo.create({
+        email,
+        role: data.role,
+        passwordHash: await hashPassword(data.password),
+      }),
+    );
+    // Перечитываем без скрытых колонок, чтобы хеш не попал в ответ
+    return this.usersRepo.findOneByOrFail({ id: user.id });
+  }
+}
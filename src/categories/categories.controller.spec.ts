@@ -0,0 +1,77 @@
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { CategoriesController } from './categories.controller';
+import { CategoriesService } from './categories.service';
+import { authAs, createControllerApp } from '../testing/controller-app';
+
+describe('CategoriesController', () => {
+  let app: INestApplication;
+  let categoriesService: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    categoriesService = {
+      findTree: jest.fn().mockResolvedValue([]),
+      create: jest.fn(async (data) => ({ id: 5, ...data })),
+      update: jest.fn(async (id, data) => ({ id, ...data })),
+      remove: jest.fn().mockResolvedValue(undefined),
+    };
+    app = await createControllerApp(CategoriesController, [
+      { provide: CategoriesService, useValue: categoriesService },
+    ]);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('lets viewers read the tree but not change it', async () => {
+    const server = app.getHttpServer();
+    await request(server).get('/categories').set(authAs('viewer')).expect(200);
+    await request(server)
+      .post('/categories')
+      .set(authAs('viewer'))
+      .send({ name: 'Обувь' })
+      .expect(403);
+    await request(server)
+      .delete('/categories/5')
+      .set(authAs('viewer'))
+      .expect(403);
+
+    expect(categoriesService.create).not.toHaveBeenCalled();
+    expect(categoriesService.remove).not.toHaveBeenCalled();
+  });
+
+  it('validates names and slugs of new categories', async () => {
+    const server = app.getHttpServer();
+    for (const body of [
+      { name: 'Обувь/Кеды' },
+      { name: 'Обувь', slug: 'Обувь' },
+      { name: 'Обувь', color: 'red' },
+    ]) {
+      await request(server)
+        .post('/categories')
+        .set(authAs('editor'))
+        .send(body)
+        .expect(400);
+    }
+    await request(server)
+      .post('/categories')
+      .set(authAs('editor'))
+      .send({ name: 'Кеды', parentId: 1 })
+      .expect(201, { id: 5, name: 'Кеды', parentId: 1 });
+
+    expect(categoriesService.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('moves a category to the root with parentId null', async () => {
+    await request(app.getHttpServer())
+      .patch('/categories/5')
+      .set(authAs('editor'))
+      .send({ parentId: null })
+      .expect(200);
+
+    expect(categoriesService.update).toHaveBeenCalledWith(5, {
+      parentId: null,
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { CategoriesService } from './categories.service';
+import { CategoryEntity } from './category.entity';
+import {
+  CategoryTreeNode,
+  CreateCategoryDto,
+  UpdateCategoryDto,
+} from '../dto/category.dto';
+import { Roles } from '../auth/roles.decorator';
+
+// Дерево категорий каталога; товары фильтруются по slug категории
+@Controller('categories')
+export class CategoriesController {
+  constructor(private readonly categoriesService: CategoriesService) {}
+
+  @Get()
+  async getTree(): Promise<CategoryTreeNode[]> {
+    return this.categoriesService.findTree();
+  }
+
+  @Get(':id')
+  async getOne(@Param('id', ParseIntPipe) id: number): Promise<CategoryEntity> {
+    return this.categoriesService.findOne(id);
+  }
+
+  @Roles('editor')
+  @Post()
+  async create(@Body() data: CreateCategoryDto): Promise<CategoryEntity> {
+    return this.categoriesService.create(data);
+  }
+
+  // Переименование, смена slug или перенос под другого родителя
+  @Roles('editor')
+  @Patch(':id')
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() data: UpdateCategoryDto,
+  ): Promise<CategoryEntity> {
+    return this.categoriesService.update(id, data);
+  }
+
+  @Roles('editor')
+  @Delete(':id')
+  async remove(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<{ message: string }> {
+    await this.categoriesService.remove(id);
+    return { message: 'Категория удалена' };
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CategoriesService } from './categories.service';
+import { CategoriesController } from './categories.controller';
+import { CategoryEntity } from './category.entity';
+import { ProductEntity } from '../products/product.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([CategoryEntity, ProductEntity])],
+  providers: [CategoriesService],
+  controllers: [CategoriesController],
+  exports: [CategoriesService],
+})
+export class CategoriesModule {}
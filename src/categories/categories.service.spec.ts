@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { CategoriesService } from './categories.service';
+import { CategoryEntity } from './category.entity';
+import { ProductEntity } from '../products/product.entity';
+import { DuplicateCategoryException } from '../errors/domain.exceptions';
+import { slugify } from './slugify';
+
+describe('CategoriesService', () => {
+  const shoes = {
+    id: 1,
+    name: 'Обувь',
+    slug: 'obuv',
+    parentId: null,
+    path: 'obuv',
+  };
+  const sneakers = {
+    id: 2,
+    name: 'Кроссовки',
+    slug: 'krossovki',
+    parentId: 1,
+    path: 'obuv/krossovki',
+  };
+
+  let service: CategoriesService;
+  let categoriesRepo: Record<string, jest.Mock>;
+  let productsRepo: { count: jest.Mock };
+  let queryBuilder: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    queryBuilder = {};
+    for (const method of [
+      'select',
+      'where',
+      'andWhere',
+      'update',
+      'set',
+      'setParameters',
+    ]) {
+      queryBuilder[method] = jest.fn().mockReturnValue(queryBuilder);
+    }
+    queryBuilder.getCount = jest.fn().mockResolvedValue(0);
+    queryBuilder.getRawMany = jest.fn().mockResolvedValue([]);
+    queryBuilder.execute = jest.fn();
+
+    let nextId = 10;
+    categoriesRepo = {
+      find: jest.fn().mockResolvedValue([shoes, sneakers]),
+      findOneBy: jest.fn(
+        async ({ id }) => [shoes, sneakers].find((c) => c.id === id) ?? null,
+      ),
+      findOneByOrFail: jest.fn(async ({ id }) => ({ id })),
+      countBy: jest.fn().mockResolvedValue(0),
+      create: jest.fn((data) => data),
+      save: jest.fn(async (data) => ({ id: nextId++, ...data })),
+      update: jest.fn(),
+      delete: jest.fn(),
+      createQueryBuilder: jest.fn(() => queryBuilder),
+    };
+    const manager = {
+      transaction: jest.fn((work) =>
+        work({ getRepository: () => categoriesRepo }),
+      ),
+    };
+    productsRepo = { count: jest.fn().mockResolvedValue(0) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CategoriesService,
+        {
+          provide: getRepositoryToken(CategoryEntity),
+          useValue: { ...categoriesRepo, manager },
+        },
+        { provide: getRepositoryToken(ProductEntity), useValue: productsRepo },
+      ],
+    }).compile();
+
+    service = module.get<CategoriesService>(CategoriesService);
+  });
+
+  it('transliterates names into slugs', () => {
+    expect(slugify('Мужская обувь')).toBe('muzhskaya-obuv');
+    expect(slugify('T-shirts & Co.')).toBe('t-shirts-co');
+    expect(slugify('???')).toBe('category');
+  });
+
+  it('builds the tree from parent links', async () => {
+    await expect(service.findTree()).resolves.toEqual([
+      { ...shoes, children: [{ ...sneakers, children: [] }] },
+    ]);
+  });
+
+  it('creates a child under its parent path with a free slug', async () => {
+    queryBuilder.getRawMany.mockResolvedValue([{ slug: 'kedy' }]);
+
+    const category = await service.create({ name: 'Кеды', parentId: 1 });
+
+    expect(category).toMatchObject({
+      name: 'Кеды',
+      slug: 'kedy-2',
+      parentId: 1,
+      path: 'obuv/kedy-2',
+    });
+  });
+
+  it('rejects a taken slug and a duplicate name among siblings', async () => {
+    categoriesRepo.countBy.mockResolvedValue(1);
+    await expect(
+      service.create({ name: 'Кеды', slug: 'krossovki' }),
+    ).rejects.toBeInstanceOf(DuplicateCategoryException);
+
+    queryBuilder.getCount.mockResolvedValue(1);
+    await expect(
+      service.create({ name: 'кроссовки', parentId: 1 }),
+    ).rejects.toBeInstanceOf(DuplicateCategoryException);
+    expect(categoriesRepo.save).not.toHaveBeenCalled();
+  });
+
+  it('rewrites descendant paths when a category moves', async () => {
+    await service.update(1, { slug: 'shoes' });
+
+    expect(categoriesRepo.update).toHaveBeenCalledWith(1, {
+      name: 'Обувь',
+      slug: 'shoes',
+      parentId: null,
+      path: 'shoes',
+    });
+    expect(queryBuilder.where).toHaveBeenCalledWith('path LIKE :descendants', {
+      descendants: 'obuv/%',
+    });
+    expect(queryBuilder.setParameters).toHaveBeenCalledWith({
+      path: 'shoes',
+      cut: 5,
+    });
+  });
+
+  it('refuses to move a category into its own subtree', async () => {
+    await expect(service.update(1, { parentId: 2 })).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(categoriesRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('removes only empty categories', async () => {
+    categoriesRepo.countBy.mockResolvedValueOnce(1);
+    await expect(service.remove(1)).rejects.toBeInstanceOf(ConflictException);
+
+    productsRepo.count.mockResolvedValueOnce(4);
+    await expect(service.remove(2)).rejects.toBeInstanceOf(ConflictException);
+    expect(categoriesRepo.delete).not.toHaveBeenCalled();
+
+    await service.remove(2);
+    expect(categoriesRepo.delete).toHaveBeenCalledWith(2);
+  });
+
+  it('resolves import paths case-insensitively and creates missing ones', async () => {
+    const manager = { getRepository: () => categoriesRepo };
+
+    const result = await service.resolvePaths(
+      [
+        ['обувь', 'Кроссовки'],
+        ['Обувь', 'Кеды'],
+        ['Одежда', 'Куртки'],
+      ],
+      manager as never,
+      true,
+    );
+
+    expect(result.ids).toEqual(
+      new Map([
+        ['обувь/Кроссовки', 2],
+        ['Обувь/Кеды', 10],
+        ['Одежда/Куртки', 12],
+      ]),
+    );
+    expect(result.created).toEqual(['Обувь/Кеды', 'Одежда', 'Одежда/Куртки']);
+    expect(categoriesRepo.save).toHaveBeenCalledWith(
+      expect.objectContaining({ parentId: 11, path: 'odezhda/kurtki' }),
+    );
+  });
+
+  it('only reports missing categories on a dry run', async () => {
+    const manager = { getRepository: () => categoriesRepo };
+
+    const result = await service.resolvePaths(
+      [['Одежда', 'Куртки']],
+      manager as never,
+      false,
+    );
+
+    expect(result).toEqual({
+      ids: new Map(),
+      created: ['Одежда', 'Одежда/Куртки'],
+    });
+    expect(categoriesRepo.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,288 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { CategoryEntity } from './category.entity';
+import { ProductEntity } from '../products/product.entity';
+import {
+  CategoryTreeNode,
+  CreateCategoryDto,
+  UpdateCategoryDto,
+} from '../dto/category.dto';
+import {
+  CategoryNotFoundException,
+  DuplicateCategoryException,
+} from '../errors/domain.exceptions';
+import { slugify, uniqueSlug } from './slugify';
+
+// Результат сопоставления путей из импорта с деревом категорий
+export interface ResolvedCategoryPaths {
+  // Путь из названий через «/» → id категории
+  ids: Map<string, number>;
+  // Созданные категории; при create = false — которые были бы созданы
+  created: string[];
+}
+
+function childPath(parent: CategoryEntity | null, slug: string): string {
+  return parent ? `${parent.path}/${slug}` : slug;
+}
+
+// Ключ категории среди соседей: путь родителя и название без учёта
+// регистра. Путь, а не id, — чтобы находить и ещё не сохранённые
+function childKey(parentPath: string, name: string): string {
+  return `${parentPath}\n${name.toLowerCase()}`;
+}
+
+function parentPathOf(path: string): string {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+@Injectable()
+export class CategoriesService {
+  constructor(
+    @InjectRepository(CategoryEntity)
+    private readonly categoriesRepo: Repository<CategoryEntity>,
+    @InjectRepository(ProductEntity)
+    private readonly productsRepo: Repository<ProductEntity>,
+  ) {}
+
+  // Всё дерево; соседние категории — по названию
+  async findTree(): Promise<CategoryTreeNode[]> {
+    const categories = await this.categoriesRepo.find({
+      order: { name: 'ASC' },
+    });
+    const nodes = new Map<number, CategoryTreeNode>(
+      categories.map(({ id, name, slug, path, parentId }) => [
+        id,
+        { id, name, slug, path, parentId, children: [] },
+      ]),
+    );
+
+    const roots: CategoryTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent =
+        node.parentId === null ? undefined : nodes.get(node.parentId);
+      (parent ? parent.children : roots).push(node);
+    }
+    return roots;
+  }
+
+  async findOne(id: number): Promise<CategoryEntity> {
+    const category = await this.categoriesRepo.findOneBy({ id });
+    if (!category) {
+      throw new CategoryNotFoundException(id);
+    }
+    return category;
+  }
+
+  // Категория, указанная у товара; неизвестная — ошибка запроса
+  async assertExists(id: number): Promise<void> {
+    if (!(await this.categoriesRepo.countBy({ id }))) {
+      throw new BadRequestException(`Категория с ID ${id} не найдена`);
+    }
+  }
+
+  async create(data: CreateCategoryDto): Promise<CategoryEntity> {
+    const parent = data.parentId
+      ? await this.getParent(this.categoriesRepo, data.parentId)
+      : null;
+    await this.assertUniqueName(this.categoriesRepo, data.name, parent);
+
+    let slug = data.slug;
+    if (slug) {
+      await this.assertFreeSlug(this.categoriesRepo, slug);
+    } else {
+      slug = await this.freeSlug(this.categoriesRepo, slugify(data.name));
+    }
+
+    return this.categoriesRepo.save(
+      this.categoriesRepo.create({
+        name: data.name,
+        slug,
+        parentId: parent?.id ?? null,
+        path: childPath(parent, slug),
+      }),
+    );
+  }
+
+  // Смена slug или родителя переписывает пути всех потомков
+  async update(id: number, data: UpdateCategoryDto): Promise<CategoryEntity> {
+    return this.categoriesRepo.manager.transaction(async (manager) => {
+      const repo = manager.getRepository(CategoryEntity);
+      const category = await repo.findOneBy({ id });
+      if (!category) {
+        throw new CategoryNotFoundException(id);
+      }
+
+      const parentId =
+        data.parentId === undefined ? category.parentId : data.parentId;
+      const parent =
+        parentId === null ? null : await this.getParent(repo, parentId);
+      if (
+        parent &&
+        (parent.id === id || parent.path.startsWith(`${category.path}/`))
+      ) {
+        throw new BadRequestException(
+          'Категорию нельзя перенести в неё саму или в её подкатегорию',
+        );
+      }
+
+      const name = data.name ?? category.name;
+      if (name !== category.name || parentId !== category.parentId) {
+        await this.assertUniqueName(repo, name, parent, id);
+      }
+      const slug = data.slug ?? category.slug;
+      if (slug !== category.slug) {
+        await this.assertFreeSlug(repo, slug);
+      }
+
+      const path = childPath(parent, slug);
+      await repo.update(id, { name, slug, parentId, path });
+      if (path !== category.path) {
+        await repo
+          .createQueryBuilder()
+          .update()
+          .set({ path: () => ':path || substring(path from :cut)' })
+          .where('path LIKE :descendants', {
+            descendants: `${category.path}/%`,
+          })
+          .setParameters({ path, cut: category.path.length + 1 })
+          .execute();
+      }
+      return repo.findOneByOrFail({ id });
+    });
+  }
+
+  // Удаляется только пустая категория: без подкатегорий и товаров,
+  // в том числе из корзины
+  async remove(id: number): Promise<void> {
+    await this.findOne(id);
+
+    if (await this.categoriesRepo.countBy({ parentId: id })) {
+      throw new ConflictException(`Категория с ID ${id} содержит подкатегории`);
+    }
+    const used = await this.productsRepo.count({
+      where: { categoryId: id },
+      withDeleted: true,
+    });
+    if (used) {
+      throw new ConflictException(
+        `Категория с ID ${id} используется в ${used} товарах`,
+      );
+    }
+    await this.categoriesRepo.delete(id);
+  }
+
+  // Пути из названий, как в колонке «Категория» импорта: [«Обувь»,
+  // «Кроссовки»]. Названия сравниваются без учёта регистра; недостающие
+  // категории создаются, если create = true
+  async resolvePaths(
+    paths: string[][],
+    manager: EntityManager,
+    create: boolean,
+  ): Promise<ResolvedCategoryPaths> {
+    const repo = manager.getRepository(CategoryEntity);
+    const categories = await repo.find();
+    const known = new Map(
+      categories.map((category) => [
+        childKey(parentPathOf(category.path), category.name),
+        category,
+      ]),
+    );
+    const slugs = new Set(categories.map((category) => category.slug));
+    const ids = new Map<string, number>();
+    const created: string[] = [];
+
+    for (const names of paths) {
+      const key = names.join('/');
+      if (ids.has(key)) continue;
+
+      let parent = null as CategoryEntity | null;
+      for (const [index, name] of names.entries()) {
+        const nameKey = childKey(parent?.path ?? '', name);
+        let category = known.get(nameKey);
+        if (!category) {
+          const slug = uniqueSlug(slugify(name), slugs);
+          slugs.add(slug);
+          category = repo.create({
+            name,
+            slug,
+            parentId: parent?.id ?? null,
+            path: childPath(parent, slug),
+          });
+          if (create) {
+            category = await repo.save(category);
+          }
+          known.set(nameKey, category);
+          created.push(names.slice(0, index + 1).join('/'));
+        }
+        parent = category;
+      }
+      // У несохранённой категории id нет
+      if (parent?.id) {
+        ids.set(key, parent.id);
+      }
+    }
+    return { ids, created };
+  }
+
+  private async getParent(
+    repo: Repository<CategoryEntity>,
+    id: number,
+  ): Promise<CategoryEntity> {
+    const parent = await repo.findOneBy({ id });
+    if (!parent) {
+      throw new BadRequestException(
+        `Родительская категория с ID ${id} не найдена`,
+      );
+    }
+    return parent;
+  }
+
+  private async assertUniqueName(
+    repo: Repository<CategoryEntity>,
+    name: string,
+    parent: CategoryEntity | null,
+    exceptId?: number,
+  ): Promise<void> {
+    const queryBuilder = repo
+      .createQueryBuilder('category')
+      .where('LOWER(category.name) = LOWER(:name)', { name })
+      .andWhere(
+        parent ? 'category.parentId = :parentId' : 'category.parentId IS NULL',
+        { parentId: parent?.id },
+      );
+    if (exceptId) {
+      queryBuilder.andWhere('category.id != :exceptId', { exceptId });
+    }
+    if (await queryBuilder.getCount()) {
+      throw new DuplicateCategoryException(
+        `Категория «${name}» уже есть на этом уровне`,
+      );
+    }
+  }
+
+  private async assertFreeSlug(
+    repo: Repository<CategoryEntity>,
+    slug: string,
+  ): Promise<void> {
+    if (await repo.countBy({ slug })) {
+      throw new DuplicateCategoryException(`Slug ${slug} уже занят`);
+    }
+  }
+
+  private async freeSlug(
+    repo: Repository<CategoryEntity>,
+    base: string,
+  ): Promise<string> {
+    const taken = await repo
+      .createQueryBuilder('category')
+      .select('category.slug', 'slug')
+      .where('category.slug LIKE :prefix', { prefix: `${base}%` })
+      .getRawMany<{ slug: string }>();
+    return uniqueSlug(base, new Set(taken.map((row) => row.slug)));
+  }
+}
@@ -0,0 +1,39 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+// Узел дерева категорий. Связи храним id, как и валюту товара:
+// целостность проверяет CategoriesService
+@Entity('categories')
+export class CategoryEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  // Уникален во всём каталоге: по нему фильтруется GET /products
+  @Column({ type: 'varchar', length: 100, unique: true })
+  slug: string;
+
+  // null — корневая категория
+  @Column({ type: 'int', nullable: true })
+  @Index()
+  parentId: number | null;
+
+  // Slug-и от корня через «/»: obuv/krossovki. Потомки — все категории,
+  // путь которых начинается с «path/»
+  @Column({ type: 'varchar', length: 1000, unique: true })
+  path: string;
+
+  @CreateDateColumn({ precision: 3 })
+  createdAt: Date;
+
+  @UpdateDateColumn({ precision: 3 })
+  updatedAt: Date;
+}
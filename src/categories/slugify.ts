@@ -0,0 +1,56 @@
+const TRANSLIT: Record<string, string> = {
+  а: 'a',
+  б: 'b',
+  в: 'v',
+  г: 'g',
+  д: 'd',
+  е: 'e',
+  ё: 'e',
+  ж: 'zh',
+  з: 'z',
+  и: 'i',
+  й: 'y',
+  к: 'k',
+  л: 'l',
+  м: 'm',
+  н: 'n',
+  о: 'o',
+  п: 'p',
+  р: 'r',
+  с: 's',
+  т: 't',
+  у: 'u',
+  ф: 'f',
+  х: 'kh',
+  ц: 'ts',
+  ч: 'ch',
+  ш: 'sh',
+  щ: 'shch',
+  ъ: '',
+  ы: 'y',
+  ь: '',
+  э: 'e',
+  ю: 'yu',
+  я: 'ya',
+};
+
+// «Мужская обувь» → «muzhskaya-obuv»; без букв и цифр — «category»
+export function slugify(name: string): string {
+  const slug = [...name.toLowerCase()]
+    .map((char) => TRANSLIT[char] ?? char)
+    .join('')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 90)
+    .replace(/-+$/, '');
+  return slug || 'category';
+}
+
+// Первый свободный вариант: obuv, obuv-2, obuv-3, …
+export function uniqueSlug(base: string, taken: Set<string>): string {
+  let slug = base;
+  for (let index = 2; taken.has(slug); index++) {
+    slug = `${base}-${index}`;
+  }
+  return slug;
+}
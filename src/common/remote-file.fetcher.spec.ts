@@ -0,0 +1,119 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  fetchRemoteFile,
+  fileNameFromUrl,
+  parseAllowedHosts,
+} from './remote-file.fetcher';
+
+describe('fetchRemoteFile', () => {
+  let server: Server;
+  let port: number;
+  let baseUrl: string;
+  const trusted = { maxSize: 1024, allowedHosts: ['127.0.0.1'] };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      switch (req.url) {
+        case '/file.csv':
+          res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+          res.end('a,b\n');
+          return;
+        case '/chunked':
+          // Без Content-Length: размер известен только по мере чтения
+          for (let i = 0; i < 4; i++) res.write(Buffer.alloc(512));
+          res.end();
+          return;
+        case '/redirect':
+          res.writeHead(302, { Location: '/file.csv' });
+          res.end();
+          return;
+        case '/redirect-internal':
+          res.writeHead(302, { Location: 'http://169.254.169.254/latest' });
+          res.end();
+          return;
+        case '/loop':
+          res.writeHead(302, { Location: '/loop' });
+          res.end();
+          return;
+      }
+      res.statusCode = 404;
+      res.end();
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    port = (server.address() as AddressInfo).port;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('downloads a file and follows redirects', async () => {
+    await expect(
+      fetchRemoteFile(`${baseUrl}/redirect`, trusted),
+    ).resolves.toEqual({
+      buffer: Buffer.from('a,b\n'),
+      contentType: 'text/csv',
+    });
+  });
+
+  it('stops reading a response without Content-Length past the limit', async () => {
+    await expect(
+      fetchRemoteFile(`${baseUrl}/chunked`, trusted),
+    ).rejects.toMatchObject({ status: 413 });
+  });
+
+  it('refuses internal addresses in the URL, in DNS and in redirects', async () => {
+    for (const url of [
+      `${baseUrl}/file.csv`,
+      `http://localhost:${port}/file.csv`,
+      `http://[::ffff:127.0.0.1]:${port}/file.csv`,
+      'http://169.254.169.254/latest/meta-data',
+    ]) {
+      await expect(fetchRemoteFile(url, { maxSize: 1024 })).rejects.toThrow(
+        'Ссылка ведёт на адрес внутренней сети',
+      );
+    }
+    await expect(
+      fetchRemoteFile(`${baseUrl}/redirect-internal`, trusted),
+    ).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('reports errors and redirect loops as a bad gateway', async () => {
+    await expect(
+      fetchRemoteFile(`${baseUrl}/missing`, trusted),
+    ).rejects.toMatchObject({ status: 502 });
+    await expect(fetchRemoteFile(`${baseUrl}/loop`, trusted)).rejects.toThrow(
+      'Слишком много перенаправлений по ссылке',
+    );
+  });
+
+  it('rejects schemes other than http and https', async () => {
+    await expect(
+      fetchRemoteFile('ftp://example.com/file.csv', trusted),
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe('fileNameFromUrl', () => {
+  it('decodes the last path segment and falls back on bad escapes', () => {
+    expect(fileNameFromUrl('https://example.com/a/%D0%BF.csv', 'x')).toBe(
+      'п.csv',
+    );
+    expect(fileNameFromUrl('https://example.com/%zz', 'import')).toBe('import');
+    expect(fileNameFromUrl('https://example.com/', 'import')).toBe('import');
+  });
+});
+
+describe('parseAllowedHosts', () => {
+  it('splits a comma-separated list', () => {
+    expect(parseAllowedHosts(' Files.local, 10.0.0.5 ,')).toEqual([
+      'files.local',
+      '10.0.0.5',
+    ]);
+    expect(parseAllowedHosts(undefined)).toEqual([]);
+  });
+});
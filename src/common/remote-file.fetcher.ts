@@ -0,0 +1,225 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { lookup as dnsLookup } from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { BlockList, LookupFunction, isIP } from 'net';
+
+const FETCH_TIMEOUT_MS = 30_000;
+const MAX_REDIRECTS = 5;
+
+// Локальные, частные, link-local (в т.ч. метаданные облака
+// 169.254.169.254), multicast и зарезервированные сети. Адреса IPv4 внутри
+// IPv6 (::ffff:10.0.0.1) BlockList проверяет по правилам IPv4
+const INTERNAL_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  INTERNAL_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  INTERNAL_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface RemoteFileOptions {
+  // Предел размера ответа в байтах
+  maxSize: number;
+  // Хосты, которым разрешены адреса внутренней сети
+  allowedHosts?: string[];
+}
+
+export interface RemoteFile {
+  buffer: Buffer;
+  // Content-Type без параметров, в нижнем регистре
+  contentType: string;
+}
+
+class InternalAddressError extends Error {}
+
+// Скачивает файл по ссылке пользователя. Ответ читается потоком и
+// обрывается, как только превысит maxSize. Адреса внутренней сети
+// запрещены для каждого перенаправления, а проверяется тот адрес, к
+// которому действительно идёт подключение
+export async function fetchRemoteFile(
+  url: string,
+  { maxSize, allowedHosts = [] }: RemoteFileOptions,
+): Promise<RemoteFile> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let current = parseUrl(url);
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await request(current, allowedHosts, signal);
+    const status = response.statusCode ?? 0;
+    const location = response.headers.location;
+
+    if (status >= 300 && status < 400 && location) {
+      response.resume();
+      if (redirects === MAX_REDIRECTS) {
+        throw new HttpException(
+          'Слишком много перенаправлений по ссылке',
+          HttpStatus.BAD_GATEWAY,
+        );
+      }
+      current = parseUrl(location, current);
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new HttpException(
+        `Сервер ответил ${status} ${response.statusMessage ?? ''}`.trim(),
+        HttpStatus.BAD_GATEWAY,
+      );
+    }
+    if (Number(response.headers['content-length']) > maxSize) {
+      response.destroy();
+      throw tooLarge();
+    }
+
+    return {
+      buffer: await readBody(response, maxSize),
+      contentType: (response.headers['content-type'] ?? '')
+        .split(';')[0]
+        .trim()
+        .toLowerCase(),
+    };
+  }
+}
+
+// Последний сегмент пути ссылки; некорректное %-кодирование — не ошибка
+export function fileNameFromUrl(url: string, fallback: string): string {
+  const segment = new URL(url).pathname.split('/').pop() ?? '';
+  try {
+    return decodeURIComponent(segment) || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// Список хостов через запятую из переменной окружения
+export function parseAllowedHosts(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function parseUrl(url: string, base?: URL): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, base);
+  } catch {
+    throw new HttpException('Некорректная ссылка', HttpStatus.BAD_REQUEST);
+  }
+  if (!['http:', 'https:'].includes(parsed.protocol)) {
+    throw new HttpException(
+      'Поддерживаются только ссылки http и https',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+  return parsed;
+}
+
+async function request(
+  url: URL,
+  allowedHosts: string[],
+  signal: AbortSignal,
+): Promise<http.IncomingMessage> {
+  const trusted = allowedHosts.includes(url.hostname);
+  // Адрес в самой ссылке подключается без DNS, его lookup не увидит
+  const literal = url.hostname.replace(/^\[|\]$/g, '');
+  if (!trusted && isIP(literal) && isInternalAddress(literal)) {
+    throw internalAddress();
+  }
+
+  const client = url.protocol === 'https:' ? https : http;
+  try {
+    return await new Promise((resolve, reject) => {
+      client
+        .get(
+          url,
+          trusted ? { signal } : { signal, lookup: guardedLookup },
+          resolve,
+        )
+        .on('error', reject);
+    });
+  } catch (err) {
+    if (err instanceof InternalAddressError) throw internalAddress();
+    throw downloadFailed(err);
+  }
+}
+
+async function readBody(
+  response: http.IncomingMessage,
+  maxSize: number,
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  try {
+    for await (const chunk of response) {
+      size += chunk.length;
+      if (size > maxSize) {
+        response.destroy();
+        throw tooLarge();
+      }
+      chunks.push(chunk);
+    }
+  } catch (err) {
+    throw err instanceof HttpException ? err : downloadFailed(err);
+  }
+  return Buffer.concat(chunks, size);
+}
+
+// Разрешает имя так же, как обычный lookup, но отказывает, если среди
+// адресов есть внутренний
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, []);
+    if (addresses.some(({ address }) => isInternalAddress(address))) {
+      return callback(new InternalAddressError(hostname), []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+function isInternalAddress(address: string): boolean {
+  return INTERNAL_NETWORKS.check(
+    address,
+    isIP(address) === 6 ? 'ipv6' : 'ipv4',
+  );
+}
+
+function internalAddress(): HttpException {
+  return new HttpException(
+    'Ссылка ведёт на адрес внутренней сети',
+    HttpStatus.BAD_REQUEST,
+  );
+}
+
+function tooLarge(): HttpException {
+  return new HttpException(
+    'Файл по ссылке слишком большой',
+    HttpStatus.PAYLOAD_TOO_LARGE,
+  );
+}
+
+function downloadFailed(err: unknown): HttpException {
+  return new HttpException(
+    `Не удалось скачать файл: ${err instanceof Error ? err.message : err}`,
+    HttpStatus.BAD_GATEWAY,
+  );
+}
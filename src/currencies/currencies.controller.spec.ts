@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CurrenciesController } from './currencies.controller';
+import { CurrenciesService } from './currencies.service';
+
+describe('CurrenciesController', () => {
+  let controller: CurrenciesController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CurrenciesController],
+      providers: [{ provide: CurrenciesService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<CurrenciesController>(CurrenciesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { CurrenciesService } from './currencies.service';
+import { CurrencyRateEntity } from './currency-rate.entity';
+import {
+  CurrencyRatesImportResult,
+  UpdateCurrencyRateDto,
+} from '../dto/currency.dto';
+import { Roles } from '../auth/roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { AuthUser } from '../dto/auth.dto';
+
+// Курсы валют к базовой; по ним пересчитываются цены в GET /products
+@Controller('currencies/rates')
+export class CurrenciesController {
+  constructor(private readonly currenciesService: CurrenciesService) {}
+
+  @Get()
+  async getAll(): Promise<CurrencyRateEntity[]> {
+    return this.currenciesService.findAll();
+  }
+
+  // Файл CSV/XLSX с колонками «Код», «Курс» и «Номинал»
+  @Roles('admin')
+  @Post('import')
+  @UseInterceptors(FileInterceptor('file'))
+  async importRates(
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() user: AuthUser,
+  ): Promise<CurrencyRatesImportResult> {
+    return this.currenciesService.importRates(file, user);
+  }
+
+  @Roles('admin')
+  @Put(':code')
+  async update(
+    @Param('code') code: string,
+    @Body() { rate }: UpdateCurrencyRateDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<CurrencyRateEntity> {
+    return this.currenciesService.upsert(code.toUpperCase(), rate, user);
+  }
+
+  @Roles('admin')
+  @Delete(':code')
+  async remove(@Param('code') code: string): Promise<{ message: string }> {
+    await this.currenciesService.remove(code.toUpperCase());
+    return { message: 'Курс валюты удален' };
+  }
+}
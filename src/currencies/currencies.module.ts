@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CurrenciesService } from './currencies.service';
+import { CurrenciesController } from './currencies.controller';
+import { CurrencyRateEntity } from './currency-rate.entity';
+import { ProductEntity } from '../products/product.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([CurrencyRateEntity, ProductEntity])],
+  providers: [CurrenciesService],
+  controllers: [CurrenciesController],
+  exports: [CurrenciesService],
+})
+export class CurrenciesModule {}
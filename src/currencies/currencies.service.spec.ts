@@ -0,0 +1,97 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { CurrenciesService } from './currencies.service';
+import { CurrencyRateEntity } from './currency-rate.entity';
+import { ProductEntity } from '../products/product.entity';
+
+describe('CurrenciesService', () => {
+  let service: CurrenciesService;
+  let ratesRepo: Record<string, jest.Mock>;
+  let productsRepo: { count: jest.Mock };
+
+  beforeEach(async () => {
+    ratesRepo = {
+      upsert: jest.fn(),
+      findOneBy: jest.fn(async ({ code }) =>
+        code === 'EUR' ? { code, rate: '98.500000' } : null,
+      ),
+      delete: jest.fn(),
+    };
+    productsRepo = { count: jest.fn().mockResolvedValue(0) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CurrenciesService,
+        {
+          provide: getRepositoryToken(CurrencyRateEntity),
+          useValue: ratesRepo,
+        },
+        { provide: getRepositoryToken(ProductEntity), useValue: productsRepo },
+      ],
+    }).compile();
+
+    service = module.get<CurrenciesService>(CurrenciesService);
+  });
+
+  it('returns rates as numbers and rejects unknown currencies', async () => {
+    await expect(service.getRate('RUB')).resolves.toBe(1);
+    await expect(service.getRate('EUR')).resolves.toBe(98.5);
+    await expect(service.getRate('USD')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+
+  it('keeps the base currency rate fixed', async () => {
+    await expect(service.upsert('RUB', 2)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    await expect(service.remove('RUB')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(ratesRepo.upsert).not.toHaveBeenCalled();
+  });
+
+  it('refuses to remove a currency used by products', async () => {
+    productsRepo.count.mockResolvedValue(3);
+
+    await expect(service.remove('EUR')).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+    expect(ratesRepo.delete).not.toHaveBeenCalled();
+  });
+
+  it('imports rates per nominal and reports bad rows', async () => {
+    const csv = [
+      'Код;Номинал;Курс',
+      'KZT;100;18,25',
+      'EUR;1;98,5',
+      'RUB;1;1',
+      'XX;1;5',
+    ].join('\n');
+
+    const result = await service.importRates(
+      {
+        originalname: 'rates.csv',
+        mimetype: 'text/csv',
+        buffer: Buffer.from(csv),
+      },
+      { id: 1, email: 'admin@example.com', role: 'admin' },
+    );
+
+    expect(ratesRepo.upsert).toHaveBeenCalledWith(
+      [
+        { code: 'KZT', rate: 0.1825, updatedById: 1 },
+        { code: 'EUR', rate: 98.5, updatedById: 1 },
+      ],
+      ['code'],
+    );
+    expect(result).toEqual({
+      updated: 2,
+      errors: [
+        'Строка 4: курс базовой валюты всегда равен 1',
+        'Строка 5: некорректный код валюты «XX»',
+      ],
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { CurrencyRateEntity } from './currency-rate.entity';
+import { ProductEntity } from '../products/product.entity';
+import {
+  BASE_CURRENCY,
+  CURRENCY_CODE_PATTERN,
+  CurrencyRatesImportResult,
+} from '../dto/currency.dto';
+import { AuthUser } from '../dto/auth.dto';
+import {
+  ImportSource,
+  assertSupportedImportFile,
+  readImportSheets,
+} from '../import/import-file.reader';
+import { parseNumber } from '../import/number-parser';
+
+// Заголовки колонок файла курсов, в нижнем регистре
+const CODE_HEADERS = ['код', 'code', 'валюта', 'currency'];
+const RATE_HEADERS = ['курс', 'rate'];
+const NOMINAL_HEADERS = ['номинал', 'nominal'];
+
+// decimal из pg приходит строкой
+const toRate = (rate: unknown): number => Number(rate);
+
+@Injectable()
+export class CurrenciesService implements OnModuleInit {
+  constructor(
+    @InjectRepository(CurrencyRateEntity)
+    private readonly ratesRepo: Repository<CurrencyRateEntity>,
+    @InjectRepository(ProductEntity)
+    private readonly productsRepo: Repository<ProductEntity>,
+  ) {}
+
+  // Базовая валюта всегда есть в таблице курсов
+  async onModuleInit(): Promise<void> {
+    await this.ratesRepo.upsert({ code: BASE_CURRENCY, rate: 1 }, ['code']);
+  }
+
+  async findAll(): Promise<CurrencyRateEntity[]> {
+    const rates = await this.ratesRepo.find({ order: { code: 'ASC' } });
+    return rates.map((rate) => ({ ...rate, rate: toRate(rate.rate) }));
+  }
+
+  // Курс к базовой валюте; неизвестная валюта — ошибка запроса
+  async getRate(code: string): Promise<number> {
+    if (code === BASE_CURRENCY) return 1;
+
+    const rate = await this.ratesRepo.findOneBy({ code });
+    if (!rate) {
+      throw new BadRequestException(`Курс валюты ${code} не задан`);
+    }
+    return toRate(rate.rate);
+  }
+
+  async assertKnown(code: string): Promise<void> {
+    await this.getRate(code);
+  }
+
+  // Коды из списка, для которых курс задан
+  async findKnownCodes(codes: string[]): Promise<Set<string>> {
+    if (!codes.length) return new Set();
+    const rates = await this.ratesRepo.find({
+      select: { code: true },
+      where: { code: In(codes) },
+    });
+    return new Set(rates.map((rate) => rate.code));
+  }
+
+  async upsert(
+    code: string,
+    rate: number,
+    actor?: AuthUser,
+  ): Promise<CurrencyRateEntity> {
+    assertEditableCode(code);
+    await this.ratesRepo.upsert({ code, rate, updatedById: actor?.id }, [
+      'code',
+    ]);
+    const saved = await this.ratesRepo.findOneByOrFail({ code });
+    return { ...saved, rate: toRate(saved.rate) };
+  }
+
+  // Валюту, в которой заведены товары, удалить нельзя: их цены
+  // перестанут пересчитываться
+  async remove(code: string): Promise<void> {
+    assertEditableCode(code);
+    if (!(await this.ratesRepo.findOneBy({ code }))) {
+      throw new NotFoundException(`Курс валюты ${code} не найден`);
+    }
+
+    const used = await this.productsRepo.count({
+      where: { currency: code },
+      withDeleted: true,
+    });
+    if (used) {
+      throw new ConflictException(
+        `Валюта ${code} используется в ${used} товарах`,
+      );
+    }
+    await this.ratesRepo.delete({ code });
+  }
+
+  // Файл с колонками «Код», «Курс» и необязательной «Номинал» — как в
+  // выгрузке ЦБ: курс делится на номинал. Строки с ошибками пропускаются
+  async importRates(
+    file: ImportSource,
+    actor?: AuthUser,
+  ): Promise<CurrencyRatesImportResult> {
+    assertSupportedImportFile(file);
+    const [sheet] = readImportSheets(file);
+    const rows = sheet?.rows ?? [];
+    const rates = new Map<string, number>();
+    const errors: string[] = [];
+
+    rows.forEach((row, index) => {
+      const line = index + 2;
+      const code = String(pickColumn(row, CODE_HEADERS) ?? '')
+        .trim()
+        .toUpperCase();
+      const rate = toNumber(pickColumn(row, RATE_HEADERS));
+      const nominalValue = pickColumn(row, NOMINAL_HEADERS);
+      const nominal =
+        nominalValue === undefined || nominalValue === ''
+          ? 1
+          : toNumber(nominalValue);
+
+      if (!CURRENCY_CODE_PATTERN.test(code)) {
+        errors.push(`Строка ${line}: некорректный код валюты «${code}»`);
+      } else if (code === BASE_CURRENCY) {
+        errors.push(`Строка ${line}: курс базовой валюты всегда равен 1`);
+      } else if (!(rate > 0) || !(nominal > 0)) {
+        errors.push(`Строка ${line}: некорректный курс валюты ${code}`);
+      } else {
+        rates.set(code, rate / nominal);
+      }
+    });
+
+    if (rates.size) {
+      await this.ratesRepo.upsert(
+        [...rates].map(([code, rate]) => ({
+          code,
+          rate,
+          updatedById: actor?.id,
+        })),
+        ['code'],
+      );
+    }
+    return { updated: rates.size, ...(errors.length ? { errors } : {}) };
+  }
+}
+
+function assertEditableCode(code: string): void {
+  if (!CURRENCY_CODE_PATTERN.test(code)) {
+    throw new BadRequestException(
+      `Код валюты ${code} должен быть трёхбуквенным кодом ISO 4217`,
+    );
+  }
+  if (code === BASE_CURRENCY) {
+    throw new BadRequestException(
+      `Курс базовой валюты ${BASE_CURRENCY} всегда равен 1`,
+    );
+  }
+}
+
+function pickColumn(row: Record<string, unknown>, headers: string[]): unknown {
+  const key = Object.keys(row).find((header) =>
+    headers.includes(header.trim().toLowerCase()),
+  );
+  return key === undefined ? undefined : row[key];
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return NaN;
+  return parseNumber(value);
+}
@@ -0,0 +1,18 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+// Курс валюты к базовой (BASE_CURRENCY): цена в базовой валюте =
+// цена × rate
+@Entity('currency_rates')
+export class CurrencyRateEntity {
+  @PrimaryColumn({ type: 'varchar', length: 3 })
+  code: string;
+
+  @Column({ type: 'decimal', precision: 18, scale: 6 })
+  rate: number;
+
+  @Column({ type: 'int', nullable: true })
+  updatedById?: number | null;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
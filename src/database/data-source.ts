@@ -0,0 +1,11 @@
+import { config } from 'dotenv';
+import { DataSource } from 'typeorm';
+import { createDataSourceOptions } from './database.config';
+
+// Источник данных для CLI TypeORM (npm run migration:*) и сидов.
+// Переменные берутся из .env, как в приложении
+config();
+
+export default new DataSource(
+  createDataSourceOptions((key) => process.env[key]),
+);
@@ -0,0 +1,32 @@
+import { createDataSourceOptions } from './database.config';
+
+describe('createDataSourceOptions', () => {
+  const env = (values: Record<string, string>) => (key: string) => values[key];
+
+  it('never synchronizes the schema and loads checked-in migrations', () => {
+    const options = createDataSourceOptions(
+      env({ DB_HOST: 'db', DB_PORT: '5433', DB_NAME: 'catalog' }),
+    );
+
+    expect(options).toMatchObject({
+      type: 'postgres',
+      host: 'db',
+      port: 5433,
+      database: 'catalog',
+      synchronize: false,
+      migrationsRun: false,
+    });
+    expect(options.migrations).toEqual([
+      expect.stringMatching(/database[\\/]migrations[\\/]\*\{\.ts,\.js\}$/),
+    ]);
+  });
+
+  it('runs migrations on startup only when the flag is set', () => {
+    expect(
+      createDataSourceOptions(env({ DB_MIGRATIONS_RUN: 'true' })).migrationsRun,
+    ).toBe(true);
+    expect(
+      createDataSourceOptions(env({ DB_MIGRATIONS_RUN: '1' })).migrationsRun,
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,26 @@
+import { join } from 'path';
+import { DataSourceOptions } from 'typeorm';
+
+// Переменная окружения по имени: ConfigService.get в приложении,
+// process.env в CLI
+export type ConfigValue = (key: string) => string | undefined;
+
+// Подключение к базе, общее для приложения и CLI TypeORM. Схема меняется
+// только миграциями из src/database/migrations; DB_MIGRATIONS_RUN=true
+// применяет новые миграции при старте приложения
+export function createDataSourceOptions(get: ConfigValue): DataSourceOptions {
+  const port = get('DB_PORT');
+  return {
+    type: 'postgres',
+    host: get('DB_HOST'),
+    port: port ? Number(port) : undefined,
+    username: get('DB_USER'),
+    password: get('DB_PASS'),
+    database: get('DB_NAME'),
+    entities: [join(__dirname, '..', '**', '*.entity{.ts,.js}')],
+    migrations: [join(__dirname, 'migrations', '*{.ts,.js}')],
+    synchronize: false,
+    migrationsRun: get('DB_MIGRATIONS_RUN') === 'true',
+    logging: false,
+  };
+}
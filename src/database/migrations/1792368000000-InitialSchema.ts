@@ -0,0 +1,185 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Схема каталога на момент перехода с synchronize на миграции. База,
+// созданная через synchronize, уже в этом состоянии: миграцию для неё
+// отмечают выполненной (npm run migration:run -- --fake)
+export class InitialSchema1792368000000 implements MigrationInterface {
+  name = 'InitialSchema1792368000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // pg_trgm — для поиска артикулов и названий с опечатками
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+    // Выражение генерируемой колонки TypeORM сверяет с typeorm_metadata;
+    // база и схема — текущие, а не те, где миграция была сгенерирована
+    await queryRunner.query(
+      `INSERT INTO "typeorm_metadata"("database", "schema", "table", "type", "name", "value") VALUES (current_database(), current_schema(), $1, $2, $3, $4)`,
+      [
+        'products',
+        'GENERATED_COLUMN',
+        'searchVector',
+        "setweight(to_tsvector('russian', coalesce(name, '')), 'A')\n      || setweight(to_tsvector('english', coalesce(name, '')), 'A')\n      || setweight(to_tsvector('simple', coalesce(article, '')), 'A')\n      || setweight(to_tsvector('simple', coalesce(brand, '')), 'B')",
+      ],
+    );
+    await queryRunner.query(
+      `CREATE TABLE "products" ("id" SERIAL NOT NULL, "article" character varying(100) NOT NULL, "name" character varying(255) NOT NULL, "brand" character varying(100), "price" numeric(10,2), "currency" character varying(3) NOT NULL DEFAULT 'RUB', "color" character varying(50), "country" character varying(100), "categoryId" integer, "parentId" integer, "attributes" jsonb NOT NULL DEFAULT '{}', "createdById" integer, "updatedById" integer, "createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "version" integer NOT NULL DEFAULT '1', "searchVector" tsvector GENERATED ALWAYS AS (setweight(to_tsvector('russian', coalesce(name, '')), 'A')
+      || setweight(to_tsvector('english', coalesce(name, '')), 'A')
+      || setweight(to_tsvector('simple', coalesce(article, '')), 'A')
+      || setweight(to_tsvector('simple', coalesce(brand, '')), 'B')) STORED NOT NULL, "deletedAt" TIMESTAMP(3), CONSTRAINT "UQ_e3c0b01c8df8b391e132379445e" UNIQUE ("article"), CONSTRAINT "PK_0806c755e0aca124e67c0cf6d7d" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_61fac54950763ae56ee51f17fd" ON "products" ("brand")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ff56834e735fa78a15d0cf2192" ON "products" ("categoryId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_5f07d4d53dd94de2763108eba8" ON "products" ("parentId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_b63efb0c6f580771b76dd64236" ON "products" ("deletedAt")`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_e3c0b01c8df8b391e132379445" ON "products" ("article")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "product_prices" ("id" SERIAL NOT NULL, "productId" integer NOT NULL, "price" numeric(10,2), "previousPrice" numeric(10,2), "source" character varying(20) NOT NULL DEFAULT 'api', "importJobId" integer, "actorId" integer, "changedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), CONSTRAINT "PK_31c33ddacf759f7c0e5d327c4bb" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_a5adc251283d1d226864e2fa6e" ON "product_prices" ("importJobId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_044b7795506ad85437e3e075af" ON "product_prices" ("productId", "changedAt")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "warehouses" ("id" SERIAL NOT NULL, "code" character varying(50) NOT NULL, "name" character varying(255) NOT NULL, "address" character varying(500), "createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), CONSTRAINT "UQ_d8b96d60ff9a288f5ed862280d9" UNIQUE ("code"), CONSTRAINT "PK_56ae21ee2432b2270b48867e4be" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "stock_movements" ("id" SERIAL NOT NULL, "type" character varying(20) NOT NULL, "productId" integer NOT NULL, "warehouseId" integer NOT NULL, "targetWarehouseId" integer, "quantity" integer NOT NULL, "comment" character varying(255), "source" character varying(20) NOT NULL DEFAULT 'api', "importJobId" integer, "actorId" integer, "createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), CONSTRAINT "PK_57a26b190618550d8e65fb860e7" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_2d118fa925e343f74b7dfe822e" ON "stock_movements" ("warehouseId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_b392633e4dd16952e9011f0e78" ON "stock_movements" ("importJobId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_fe8f81647152d8bfb9c7c4e490" ON "stock_movements" ("productId", "createdAt")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "stock_levels" ("id" SERIAL NOT NULL, "productId" integer NOT NULL, "warehouseId" integer NOT NULL, "quantity" integer NOT NULL DEFAULT '0', "reserved" integer NOT NULL DEFAULT '0', "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), CONSTRAINT "CHK_ba5046216aa322a7e3ea7c4672" CHECK ("quantity" >= 0 AND "reserved" >= 0), CONSTRAINT "PK_ee416fdf2f5696dff16fd0c1c90" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_eaadbdcdebe3748847e8d212d9" ON "stock_levels" ("warehouseId")`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_88f05dd92e16e9940c67a57917" ON "stock_levels" ("productId", "warehouseId")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "import_profiles" ("id" SERIAL NOT NULL, "name" character varying(100) NOT NULL, "description" character varying(255), "columns" jsonb NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_0cc063da9c979e4a6cfa30ae576" UNIQUE ("name"), CONSTRAINT "PK_ef179128b4ec8f73de28ab64139" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "import_jobs" ("id" SERIAL NOT NULL, "status" character varying(20) NOT NULL DEFAULT 'pending', "fileName" character varying(255) NOT NULL, "mode" character varying(20) NOT NULL, "profile" character varying(100), "createdById" integer, "totalRows" integer NOT NULL DEFAULT '0', "processedRows" integer NOT NULL DEFAULT '0', "errors" jsonb, "result" jsonb, "failureReason" text, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "startedAt" TIMESTAMP, "finishedAt" TIMESTAMP, CONSTRAINT "PK_4d206c602f173f98e4bb85819a3" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_afe535a92090bcda261ed4d7d6" ON "import_jobs" ("status")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "product_images" ("id" SERIAL NOT NULL, "productId" integer NOT NULL, "position" integer NOT NULL DEFAULT '0', "isPrimary" boolean NOT NULL DEFAULT false, "key" character varying(255) NOT NULL, "thumbnailKey" character varying(255) NOT NULL, "contentType" character varying(50) NOT NULL, "width" integer NOT NULL, "height" integer NOT NULL, "size" integer NOT NULL, "originalName" character varying(255), "sourceUrl" character varying(2048), "createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), CONSTRAINT "PK_1974264ea7265989af8392f63a1" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_41ff0c3ddf82ba1d3fe902d2fd" ON "product_images" ("productId", "position")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "currency_rates" ("code" character varying(3) NOT NULL, "rate" numeric(18,6) NOT NULL, "updatedById" integer, "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_d1b9ff43cac348dc9ef03346c49" PRIMARY KEY ("code"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "categories" ("id" SERIAL NOT NULL, "name" character varying(100) NOT NULL, "slug" character varying(100) NOT NULL, "parentId" integer, "path" character varying(1000) NOT NULL, "createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), CONSTRAINT "UQ_420d9f679d41281f282f5bc7d09" UNIQUE ("slug"), CONSTRAINT "UQ_ca4efcb2224db51459f018ee2e8" UNIQUE ("path"), CONSTRAINT "PK_24dbc6126a28ff948da33e97d3b" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_9a6f051e66982b5f0318981bca" ON "categories" ("parentId")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "users" ("id" SERIAL NOT NULL, "email" character varying(255) NOT NULL, "passwordHash" character varying(255) NOT NULL, "role" character varying(20) NOT NULL DEFAULT 'viewer', "apiKeyHash" character varying(64), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_97672ac88f789774dd47f7c8be3" UNIQUE ("email"), CONSTRAINT "UQ_e6187374899bd04b3bf740bb881" UNIQUE ("apiKeyHash"), CONSTRAINT "PK_a3ffb1c0c8416b9fc6f907b7433" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "audit_log" ("id" SERIAL NOT NULL, "action" character varying(20) NOT NULL, "productId" integer, "article" character varying(100), "changes" jsonb, "details" jsonb, "actorId" integer, "source" character varying(20) NOT NULL DEFAULT 'api', "importJobId" integer, "createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), CONSTRAINT "PK_07fefa57f7f5ab8fc3f52b3ed0b" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_951e6339a77994dfbad976b35c" ON "audit_log" ("action")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_d6f492d53eda5b3d1e9808cec6" ON "audit_log" ("productId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_cb6aa6f6fd56f08eafb6031622" ON "audit_log" ("actorId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_2fe726240b0aa333e323097e77" ON "audit_log" ("importJobId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_78e013ffae12f5a1fc1dbefff9" ON "audit_log" ("createdAt")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "attributes" ("id" SERIAL NOT NULL, "code" character varying(50) NOT NULL, "name" character varying(100) NOT NULL, "type" character varying(10) NOT NULL, "allowedValues" jsonb, "unit" character varying(20), "categoryId" integer, "createdAt" TIMESTAMP(3) NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT now(), CONSTRAINT "UQ_5530558b04086e0488462b97d37" UNIQUE ("code"), CONSTRAINT "PK_32216e2e61830211d3a5d7fa72c" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_bfb466d453dc3a8265c45b7996" ON "attributes" ("categoryId")`,
+    );
+    // GIN-индексы поиска: synchronize и migration:generate их не видят
+    // (synchronize: false в @Index у ProductEntity)
+    await queryRunner.query(
+      `CREATE INDEX "IDX_products_search_vector" ON "products" USING GIN ("searchVector")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_products_article_trgm" ON "products" USING GIN (article gin_trgm_ops)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_products_name_trgm" ON "products" USING GIN (name gin_trgm_ops)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_products_name_trgm"`);
+    await queryRunner.query(`DROP INDEX "IDX_products_article_trgm"`);
+    await queryRunner.query(`DROP INDEX "IDX_products_search_vector"`);
+    await queryRunner.query(`DROP INDEX "IDX_bfb466d453dc3a8265c45b7996"`);
+    await queryRunner.query(`DROP TABLE "attributes"`);
+    await queryRunner.query(`DROP INDEX "IDX_78e013ffae12f5a1fc1dbefff9"`);
+    await queryRunner.query(`DROP INDEX "IDX_2fe726240b0aa333e323097e77"`);
+    await queryRunner.query(`DROP INDEX "IDX_cb6aa6f6fd56f08eafb6031622"`);
+    await queryRunner.query(`DROP INDEX "IDX_d6f492d53eda5b3d1e9808cec6"`);
+    await queryRunner.query(`DROP INDEX "IDX_951e6339a77994dfbad976b35c"`);
+    await queryRunner.query(`DROP TABLE "audit_log"`);
+    await queryRunner.query(`DROP TABLE "users"`);
+    await queryRunner.query(`DROP INDEX "IDX_9a6f051e66982b5f0318981bca"`);
+    await queryRunner.query(`DROP TABLE "categories"`);
+    await queryRunner.query(`DROP TABLE "currency_rates"`);
+    await queryRunner.query(`DROP INDEX "IDX_41ff0c3ddf82ba1d3fe902d2fd"`);
+    await queryRunner.query(`DROP TABLE "product_images"`);
+    await queryRunner.query(`DROP INDEX "IDX_afe535a92090bcda261ed4d7d6"`);
+    await queryRunner.query(`DROP TABLE "import_jobs"`);
+    await queryRunner.query(`DROP TABLE "import_profiles"`);
+    await queryRunner.query(`DROP INDEX "IDX_88f05dd92e16e9940c67a57917"`);
+    await queryRunner.query(`DROP INDEX "IDX_eaadbdcdebe3748847e8d212d9"`);
+    await queryRunner.query(`DROP TABLE "stock_levels"`);
+    await queryRunner.query(`DROP INDEX "IDX_fe8f81647152d8bfb9c7c4e490"`);
+    await queryRunner.query(`DROP INDEX "IDX_b392633e4dd16952e9011f0e78"`);
+    await queryRunner.query(`DROP INDEX "IDX_2d118fa925e343f74b7dfe822e"`);
+    await queryRunner.query(`DROP TABLE "stock_movements"`);
+    await queryRunner.query(`DROP TABLE "warehouses"`);
+    await queryRunner.query(`DROP INDEX "IDX_044b7795506ad85437e3e075af"`);
+    await queryRunner.query(`DROP INDEX "IDX_a5adc251283d1d226864e2fa6e"`);
+    await queryRunner.query(`DROP TABLE "product_prices"`);
+    await queryRunner.query(`DROP INDEX "IDX_e3c0b01c8df8b391e132379445"`);
+    await queryRunner.query(`DROP INDEX "IDX_b63efb0c6f580771b76dd64236"`);
+    await queryRunner.query(`DROP INDEX "IDX_5f07d4d53dd94de2763108eba8"`);
+    await queryRunner.query(`DROP INDEX "IDX_ff56834e735fa78a15d0cf2192"`);
+    await queryRunner.query(`DROP INDEX "IDX_61fac54950763ae56ee51f17fd"`);
+    await queryRunner.query(`DROP TABLE "products"`);
+    await queryRunner.query(
+      `DELETE FROM "typeorm_metadata" WHERE "type" = $1 AND "name" = $2 AND "database" = current_database() AND "schema" = current_schema() AND "table" = $3`,
+      ['GENERATED_COLUMN', 'searchVector', 'products'],
+    );
+    // pg_trgm не удаляется: расширение могут использовать и другие схемы
+  }
+}
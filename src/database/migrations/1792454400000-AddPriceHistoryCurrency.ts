@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Валюта в истории цен: без неё смена валюты не попадала в историю, а
+// отчёт сравнивал суммы в разных валютах. Прежним записям проставляется
+// текущая валюта товара — другой информации о них нет
+export class AddPriceHistoryCurrency1792454400000
+  implements MigrationInterface
+{
+  name = 'AddPriceHistoryCurrency1792454400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "product_prices" ADD "currency" character varying(3) NOT NULL DEFAULT 'RUB'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "product_prices" ADD "previousCurrency" character varying(3)`,
+    );
+    await queryRunner.query(
+      `UPDATE "product_prices" h SET "currency" = p."currency", "previousCurrency" = CASE WHEN h."previousPrice" IS NULL THEN NULL ELSE p."currency" END FROM "products" p WHERE p."id" = h."productId"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "product_prices" DROP COLUMN "previousCurrency"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "product_prices" DROP COLUMN "currency"`,
+    );
+  }
+}
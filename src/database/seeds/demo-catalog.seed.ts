@@ -0,0 +1,270 @@
+import { DataSource, EntityManager } from 'typeorm';
+import { ProductEntity } from '../../products/product.entity';
+import { CategoryEntity } from '../../categories/category.entity';
+import { AttributeEntity } from '../../attributes/attribute.entity';
+import { WarehouseEntity } from '../../inventory/warehouse.entity';
+import { StockLevelEntity } from '../../inventory/stock-level.entity';
+import { CurrencyRateEntity } from '../../currencies/currency-rate.entity';
+import { ProductAttributes } from '../../dto/attribute.dto';
+import { BASE_CURRENCY } from '../../dto/currency.dto';
+
+interface DemoCategory {
+  name: string;
+  // Путь из slug-ов, родитель — путь без последнего slug
+  path: string;
+}
+
+type DemoAttribute = Pick<AttributeEntity, 'code' | 'name' | 'type'> & {
+  allowedValues?: string[];
+  // Путь категории, к которой относится атрибут
+  category?: string;
+};
+
+interface DemoProduct {
+  article: string;
+  name: string;
+  brand: string;
+  price: number;
+  currency?: string;
+  color: string;
+  country: string;
+  category: string;
+  attributes: ProductAttributes;
+  // Артикул основного товара для варианта
+  parent?: string;
+  // Остаток по коду склада
+  stock: Record<string, number>;
+}
+
+export interface DemoCatalogSummary {
+  categories: number;
+  attributes: number;
+  warehouses: number;
+  products: number;
+}
+
+const RATES = [
+  { code: BASE_CURRENCY, rate: 1 },
+  { code: 'USD', rate: 92 },
+  { code: 'EUR', rate: 100 },
+];
+
+const WAREHOUSES = [
+  { code: 'MSK', name: 'Москва', address: 'Москва, ул. Складская, 1' },
+  { code: 'SPB', name: 'Санкт-Петербург', address: null },
+];
+
+// Родители идут раньше потомков
+const CATEGORIES: DemoCategory[] = [
+  { name: 'Обувь', path: 'obuv' },
+  { name: 'Кроссовки', path: 'obuv/krossovki' },
+  { name: 'Кеды', path: 'obuv/kedy' },
+  { name: 'Одежда', path: 'odezhda' },
+  { name: 'Куртки', path: 'odezhda/kurtki' },
+];
+
+const ATTRIBUTES: DemoAttribute[] = [
+  {
+    code: 'size',
+    name: 'Размер',
+    type: 'enum',
+    allowedValues: ['40', '41', '42', '43', '44'],
+    category: 'obuv',
+  },
+  { code: 'material', name: 'Материал', type: 'string' },
+  { code: 'waterproof', name: 'Водонепроницаемость', type: 'boolean' },
+];
+
+// Варианты идут после основных товаров
+const PRODUCTS: DemoProduct[] = [
+  {
+    article: 'RUN-100',
+    name: 'Кроссовки беговые Air Run',
+    brand: 'Nike',
+    price: 8990,
+    color: 'чёрный',
+    country: 'Вьетнам',
+    category: 'obuv/krossovki',
+    attributes: { size: '42', material: 'текстиль' },
+    stock: { MSK: 12, SPB: 4 },
+  },
+  {
+    article: 'RUN-100-43',
+    name: 'Кроссовки беговые Air Run',
+    brand: 'Nike',
+    price: 8990,
+    color: 'чёрный',
+    country: 'Вьетнам',
+    category: 'obuv/krossovki',
+    attributes: { size: '43', material: 'текстиль' },
+    parent: 'RUN-100',
+    stock: { MSK: 7 },
+  },
+  {
+    article: 'TRL-200',
+    name: 'Кроссовки трейловые Terrex',
+    brand: 'Adidas',
+    price: 120,
+    currency: 'EUR',
+    color: 'серый',
+    country: 'Индонезия',
+    category: 'obuv/krossovki',
+    attributes: { size: '44', material: 'Gore-Tex', waterproof: true },
+    stock: { SPB: 3 },
+  },
+  {
+    article: 'KED-300',
+    name: 'Кеды Chuck 70',
+    brand: 'Converse',
+    price: 6490,
+    color: 'белый',
+    country: 'Вьетнам',
+    category: 'obuv/kedy',
+    attributes: { size: '41', material: 'канвас' },
+    stock: { MSK: 20, SPB: 15 },
+  },
+  {
+    article: 'KED-310',
+    name: 'Кеды Old Skool',
+    brand: 'Vans',
+    price: 5990,
+    color: 'чёрный',
+    country: 'Китай',
+    category: 'obuv/kedy',
+    attributes: { size: '40', material: 'замша' },
+    stock: { MSK: 0 },
+  },
+  {
+    article: 'JKT-400',
+    name: 'Куртка мембранная Storm',
+    brand: 'The North Face',
+    price: 199,
+    currency: 'USD',
+    color: 'синий',
+    country: 'Китай',
+    category: 'odezhda/kurtki',
+    attributes: { material: 'полиэстер', waterproof: true },
+    stock: { MSK: 5 },
+  },
+  {
+    article: 'JKT-410',
+    name: 'Пуховик городской',
+    brand: 'Columbia',
+    price: 15990,
+    color: 'зелёный',
+    country: 'Бангладеш',
+    category: 'odezhda/kurtki',
+    attributes: { material: 'нейлон', waterproof: false },
+    stock: {},
+  },
+];
+
+// Демо-каталог для локальной разработки и e2e-тестов. Записи находятся
+// по коду, пути и артикулу, поэтому повторный запуск обновляет их, а не
+// дублирует. Остатки записываются напрямую, без движений и журнала
+export async function seedDemoCatalog(
+  dataSource: DataSource,
+): Promise<DemoCatalogSummary> {
+  return dataSource.transaction(async (manager) => {
+    await manager.upsert(CurrencyRateEntity, RATES, ['code']);
+    const warehouses = await seedWarehouses(manager);
+    const categories = await seedCategories(manager);
+    await manager.upsert(
+      AttributeEntity,
+      ATTRIBUTES.map(({ category, ...attribute }) => ({
+        ...attribute,
+        categoryId: category ? categories.get(category) : null,
+      })),
+      ['code'],
+    );
+    const products = await seedProducts(manager, categories);
+
+    const levels = PRODUCTS.flatMap((product) =>
+      Object.entries(product.stock).map(([code, quantity]) => ({
+        productId: products.get(product.article)!,
+        warehouseId: warehouses.get(code)!,
+        quantity,
+      })),
+    );
+    if (levels.length) {
+      await manager.upsert(StockLevelEntity, levels, [
+        'productId',
+        'warehouseId',
+      ]);
+    }
+
+    return {
+      categories: categories.size,
+      attributes: ATTRIBUTES.length,
+      warehouses: warehouses.size,
+      products: products.size,
+    };
+  });
+}
+
+// id складов по коду
+async function seedWarehouses(
+  manager: EntityManager,
+): Promise<Map<string, number>> {
+  await manager.upsert(WarehouseEntity, WAREHOUSES, ['code']);
+  const warehouses = await manager.find(WarehouseEntity);
+  return new Map(warehouses.map(({ code, id }) => [code, id]));
+}
+
+// id категорий по пути
+async function seedCategories(
+  manager: EntityManager,
+): Promise<Map<string, number>> {
+  const ids = new Map<string, number>();
+  for (const { name, path } of CATEGORIES) {
+    const parentPath = path.includes('/')
+      ? path.slice(0, path.lastIndexOf('/'))
+      : null;
+    await manager.upsert(
+      CategoryEntity,
+      {
+        name,
+        slug: path.split('/').pop()!,
+        path,
+        parentId: parentPath ? ids.get(parentPath)! : null,
+      },
+      ['path'],
+    );
+    const { id } = await manager.findOneByOrFail(CategoryEntity, { path });
+    ids.set(path, id);
+  }
+  return ids;
+}
+
+// id товаров по артикулу
+async function seedProducts(
+  manager: EntityManager,
+  categories: Map<string, number>,
+): Promise<Map<string, number>> {
+  const ids = new Map<string, number>();
+  for (const product of PRODUCTS) {
+    const { article, currency, category, parent } = product;
+    await manager.upsert(
+      ProductEntity,
+      {
+        article,
+        name: product.name,
+        brand: product.brand,
+        price: product.price,
+        currency: currency ?? BASE_CURRENCY,
+        color: product.color,
+        country: product.country,
+        categoryId: categories.get(category)!,
+        parentId: parent ? ids.get(parent)! : null,
+        attributes: product.attributes,
+      },
+      ['article'],
+    );
+    const { id } = await manager.findOneOrFail(ProductEntity, {
+      where: { article },
+      withDeleted: true,
+    });
+    ids.set(article, id);
+  }
+  return ids;
+}
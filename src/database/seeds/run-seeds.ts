@@ -0,0 +1,21 @@
+import dataSource from '../data-source';
+import { seedDemoCatalog } from './demo-catalog.seed';
+
+// npm run seed: применяет новые миграции и загружает демо-каталог
+async function main() {
+  await dataSource.initialize();
+  try {
+    await dataSource.runMigrations();
+    const summary = await seedDemoCatalog(dataSource);
+    console.log(
+      `Demo catalog seeded: ${summary.products} products, ${summary.categories} categories, ${summary.attributes} attributes, ${summary.warehouses} warehouses`,
+    );
+  } finally {
+    await dataSource.destroy();
+  }
+}
+
+main().catch((error) => {
+  console.error('Error seeding database:', error);
+  process.exit(1);
+});
@@ -0,0 +1,101 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+  MinLength,
+  ValidateIf,
+} from 'class-validator';
+
+// enum — одно из allowedValues
+export const ATTRIBUTE_TYPES = ['string', 'number', 'boolean', 'enum'] as const;
+
+export type AttributeType = (typeof ATTRIBUTE_TYPES)[number];
+
+// Код — ключ в product.attributes и в фильтре attributes[код]
+export const ATTRIBUTE_CODE_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+export type AttributeValue = string | number | boolean;
+
+// Значения атрибутов товара по коду: { size: '42', waterproof: true }
+export type ProductAttributes = Record<string, AttributeValue>;
+
+const isPresent = (_: object, value: unknown) => value !== undefined;
+
+export class CreateAttributeDto {
+  @MaxLength(50)
+  @Matches(ATTRIBUTE_CODE_PATTERN, {
+    message: 'code может содержать только a-z, 0-9 и _, начиная с буквы',
+  })
+  code!: string;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name!: string;
+
+  @IsIn(ATTRIBUTE_TYPES)
+  type!: AttributeType;
+
+  // Обязательны для enum, для остальных типов не задаются
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  allowedValues?: string[];
+
+  // Единица измерения для отображения: см, кг, мАч
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  unit?: string;
+
+  // Атрибут категории и её подкатегорий; без категории — общий
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  categoryId?: number;
+}
+
+// code и type не меняются: на них завязаны значения у товаров.
+// null очищает unit и categoryId
+export class UpdateAttributeDto {
+  @ValidateIf(isPresent)
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name?: string;
+
+  @ValidateIf(isPresent)
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  allowedValues?: string[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  unit?: string | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  categoryId?: number | null;
+}
+
+export class AttributeQueryDto {
+  // Атрибуты, доступные товарам категории: общие, её и её предков
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  categoryId?: number;
+}
@@ -0,0 +1,91 @@
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+// import — итог задания импорта, clear — очистка таблицы; изменения
+// отдельных товаров из импорта пишутся как create/update/delete.
+// delete перемещает товар в корзину, purge удаляет его окончательно
+export const AUDIT_ACTIONS = [
+  'create',
+  'update',
+  'delete',
+  'restore',
+  'purge',
+  'import',
+  'clear',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_SOURCES = ['api', 'import'] as const;
+
+export type AuditSource = (typeof AUDIT_SOURCES)[number];
+
+export interface FieldChange {
+  before: string | number | null;
+  after: string | number | null;
+}
+
+// Только изменившиеся поля: { price: { before: 100, after: 120 } }
+export type AuditChanges = Record<string, FieldChange>;
+
+export class AuditQueryDto {
+  @IsOptional()
+  @IsIn(AUDIT_ACTIONS)
+  action?: AuditAction;
+
+  @IsOptional()
+  @IsIn(AUDIT_SOURCES)
+  source?: AuditSource;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  actorId?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  productId?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  importJobId?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  article?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit = 50;
+}
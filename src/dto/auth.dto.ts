@@ -0,0 +1,49 @@
+import {
+  IsEmail,
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+// Роли упорядочены по возрастанию прав: каждая включает предыдущие
+export const USER_ROLES = ['viewer', 'editor', 'admin'] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+// Пользователь, от имени которого выполняется запрос
+export interface AuthUser {
+  id: number;
+  email: string;
+  role: UserRole;
+}
+
+export interface AccessToken {
+  accessToken: string;
+  tokenType: 'Bearer';
+  expiresIn: string;
+}
+
+export class LoginDto {
+  @IsEmail()
+  email!: string;
+
+  @IsString()
+  password!: string;
+}
+
+export class CreateUserDto {
+  @IsEmail()
+  @MaxLength(255)
+  email!: string;
+
+  @IsString()
+  @MinLength(8)
+  @MaxLength(100)
+  password!: string;
+
+  @IsOptional()
+  @IsIn(USER_ROLES)
+  role: UserRole = 'viewer';
+}
@@ -0,0 +1,74 @@
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+  MinLength,
+  ValidateIf,
+} from 'class-validator';
+
+export const CATEGORY_SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// «/» разделяет уровни в колонке «Категория» импорта
+const CATEGORY_NAME_PATTERN = /^[^/]+$/;
+
+const isPresent = (_: object, value: unknown) => value !== undefined;
+
+export class CreateCategoryDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  @Matches(CATEGORY_NAME_PATTERN, {
+    message: 'name не должен содержать «/»',
+  })
+  name!: string;
+
+  // По умолчанию — транслитерация названия
+  @IsOptional()
+  @MaxLength(90)
+  @Matches(CATEGORY_SLUG_PATTERN, {
+    message: 'slug может содержать только a-z, 0-9 и дефисы',
+  })
+  slug?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  parentId?: number;
+}
+
+// Отсутствующее поле не меняется; parentId: null переносит категорию
+// в корень
+export class UpdateCategoryDto {
+  @ValidateIf(isPresent)
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  @Matches(CATEGORY_NAME_PATTERN, {
+    message: 'name не должен содержать «/»',
+  })
+  name?: string;
+
+  @ValidateIf(isPresent)
+  @MaxLength(90)
+  @Matches(CATEGORY_SLUG_PATTERN, {
+    message: 'slug может содержать только a-z, 0-9 и дефисы',
+  })
+  slug?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  parentId?: number | null;
+}
+
+export interface CategoryTreeNode {
+  id: number;
+  name: string;
+  slug: string;
+  path: string;
+  parentId: number | null;
+  children: CategoryTreeNode[];
+}
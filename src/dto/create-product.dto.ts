@@ -1,4 +1,20 @@
-import { IsString, IsOptional, IsNumber, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsInt,
+  IsObject,
+  Min,
+  Max,
+  MaxLength,
+  Matches,
+} from 'class-validator';
+import { CURRENCY_CODE_PATTERN, toCurrencyCode } from './currency.dto';
+import { ProductAttributes } from './attribute.dto';
+
+// Предел колонки price decimal(10,2)
+export const MAX_PRICE = 99999999.99;
 
 export class CreateProductDto {
   @IsString()
@@ -15,9 +31,19 @@ export class CreateProductDto {
   brand?: string;
 
   @IsOptional()
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(MAX_PRICE)
   price?: number;
 
+  // Код ISO 4217; по умолчанию — базовая валюта
+  @IsOptional()
+  @Transform(toCurrencyCode)
+  @Matches(CURRENCY_CODE_PATTERN, {
+    message: 'currency должен быть трёхбуквенным кодом ISO 4217',
+  })
+  currency?: string;
+
   @IsOptional()
   @IsString()
   @MaxLength(50)
@@ -27,4 +53,14 @@ export class CreateProductDto {
   @IsString()
   @MaxLength(100)
   country?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  categoryId?: number;
+
+  // Значения атрибутов по коду: { "size": "42", "waterproof": true }
+  @IsOptional()
+  @IsObject()
+  attributes?: ProductAttributes;
 }
@@ -0,0 +1,22 @@
+import { IsNumber, IsPositive } from 'class-validator';
+
+// Валюта, в которой ведутся курсы: её курс всегда 1
+export const BASE_CURRENCY = 'RUB';
+
+export const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+// «eur » → «EUR»
+export const toCurrencyCode = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.trim().toUpperCase() : value;
+
+export class UpdateCurrencyRateDto {
+  // Сколько единиц базовой валюты стоит одна единица этой валюты
+  @IsNumber()
+  @IsPositive()
+  rate!: number;
+}
+
+export interface CurrencyRatesImportResult {
+  updated: number;
+  errors?: string[];
+}
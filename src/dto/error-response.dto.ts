@@ -0,0 +1,12 @@
+// Тело ответа с ошибкой для всех маршрутов
+export interface ErrorResponse {
+  statusCode: number;
+  // DUPLICATE_ARTICLE, PRODUCT_NOT_FOUND, VALIDATION_FAILED, … —
+  // для остальных ошибок имя HTTP-статуса
+  code: string;
+  message: string;
+  // Сообщения валидации по полям
+  details?: string[];
+  path: string;
+  timestamp: string;
+}
@@ -0,0 +1,87 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+
+export const PRODUCT_IMPORT_FIELDS = [
+  'article',
+  'name',
+  'brand',
+  'price',
+  'currency',
+  'color',
+  'country',
+  'category',
+  'stock',
+  'image',
+] as const;
+
+export type ProductImportField = (typeof PRODUCT_IMPORT_FIELDS)[number];
+
+export const IMPORT_TRANSFORMS = ['trim', 'uppercase', 'lowercase'] as const;
+
+export type ImportTransform = (typeof IMPORT_TRANSFORMS)[number];
+
+// ru — «1 299,50», en — «1,299.50»
+export const NUMBER_LOCALES = ['ru', 'en'] as const;
+
+export type NumberLocale = (typeof NUMBER_LOCALES)[number];
+
+export class ImportColumnDto {
+  @IsIn(PRODUCT_IMPORT_FIELDS)
+  field!: ProductImportField;
+
+  // Заголовки в файле поставщика, проверяются по порядку
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  @MaxLength(255, { each: true })
+  headers!: string[];
+
+  // По умолчанию значение только обрезается по краям
+  @IsOptional()
+  @IsIn(IMPORT_TRANSFORMS, { each: true })
+  transforms?: ImportTransform[];
+
+  @IsOptional()
+  @IsIn(NUMBER_LOCALES)
+  numberLocale?: NumberLocale;
+
+  // Подставляется, если ячейка пустая
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  default?: string;
+}
+
+export class CreateImportProfileDto {
+  @IsString()
+  @Matches(/^[a-zA-Z0-9_-]+$/, {
+    message: 'name может содержать только латиницу, цифры, "-" и "_"',
+  })
+  @MaxLength(100)
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ImportColumnDto)
+  columns!: ImportColumnDto[];
+}
+
+export class UpdateImportProfileDto extends PartialType(
+  CreateImportProfileDto,
+) {}
@@ -0,0 +1,124 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { toBoolean } from './query-transforms';
+
+export const IMPORT_MODES = [
+  'insertOnly',
+  'upsert',
+  'updateOnly',
+  'replaceAll',
+] as const;
+
+export type ImportMode = (typeof IMPORT_MODES)[number];
+
+export const IMPORT_ENCODINGS = ['auto', 'utf-8', 'windows-1251'] as const;
+
+export type ImportEncoding = (typeof IMPORT_ENCODINGS)[number];
+
+// Разделитель можно передать символом (в URL — %3B для «;») или именем
+const DELIMITER_NAMES: Record<string, string> = {
+  comma: ',',
+  semicolon: ';',
+  tab: '\t',
+  pipe: '|',
+};
+
+export const IMPORT_DELIMITERS = ['auto', ',', ';', '\t', '|'] as const;
+
+export type ImportDelimiter = (typeof IMPORT_DELIMITERS)[number];
+
+export class ImportQueryDto {
+  // insertOnly — только новые артикулы, upsert — новые и обновление
+  // существующих, updateOnly — только существующие, replaceAll — каталог
+  // приводится к содержимому файла (отсутствующие в файле удаляются)
+  @IsOptional()
+  @IsIn(IMPORT_MODES)
+  mode: ImportMode = 'insertOnly';
+
+  // Только проверка файла и отчёт по строкам, без записи в БД
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  dryRun = false;
+
+  // Имя профиля сопоставления колонок (POST /import/profiles)
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  profile?: string;
+
+  // Код склада для колонки остатков; можно не указывать, если склад один
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  warehouse?: string;
+
+  // Лист книги XLS/XLSX; по умолчанию — первый
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  sheet?: string;
+
+  // Импортировать все листы книги
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  allSheets = false;
+
+  // Кодировка CSV/TSV; auto различает UTF-8 (с BOM и без) и CP1251
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.toLowerCase() : value,
+  )
+  @IsIn(IMPORT_ENCODINGS)
+  encoding: ImportEncoding = 'auto';
+
+  // Разделитель CSV; auto определяет его по содержимому файла
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? DELIMITER_NAMES[value] ?? value : value,
+  )
+  @IsIn(IMPORT_DELIMITERS)
+  delimiter: ImportDelimiter = 'auto';
+}
+
+export class ImportUrlDto {
+  // require_tld: false — чтобы принимать адреса внутренней сети и localhost;
+  // скачать с них можно, только если хост указан в FETCH_ALLOWED_HOSTS
+  @IsUrl({ protocols: ['http', 'https'], require_tld: false })
+  @MaxLength(2048)
+  url!: string;
+}
+
+export const IMPORT_JOB_STATUSES = [
+  'pending',
+  'running',
+  'completed',
+  'failed',
+  'cancelled',
+] as const;
+
+export type ImportJobStatus = (typeof IMPORT_JOB_STATUSES)[number];
+
+export class ImportJobsQueryDto {
+  @IsOptional()
+  @IsIn(IMPORT_JOB_STATUSES)
+  status?: ImportJobStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit = 20;
+}
@@ -0,0 +1,69 @@
+import { ImportMode } from './import-query.dto';
+import { ImportColumnDto, ProductImportField } from './import-profile.dto';
+
+export interface ImportRowIssue {
+  // Заголовок колонки в файле, из которой взято значение
+  column: string;
+  // required, invalid_number, invalid_category, invalid_attribute,
+  // invalid_url, unknown_currency или имя ограничения class-validator
+  // (maxLength, …)
+  code: string;
+  value: string | number | null;
+  message: string;
+}
+
+export type ImportRowAction =
+  | 'create'
+  | 'update'
+  | 'unchanged'
+  | 'duplicate'
+  | 'missing'
+  | 'trashed'
+  | 'invalid';
+
+export interface ImportRowReport {
+  // Лист книги XLS/XLSX, для CSV не указывается
+  sheet?: string;
+  // Номер строки на листе с учётом строки заголовков
+  row: number;
+  article?: string;
+  action: ImportRowAction;
+  issues: ImportRowIssue[];
+}
+
+export interface ImportResult {
+  mode: ImportMode;
+  dryRun: boolean;
+  // created + updated, для совместимости с прежним ответом
+  imported: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+  errors?: string[];
+  // insertOnly: артикулы, уже существующие в каталоге
+  duplicates?: string[];
+  // updateOnly: артикулы, которых нет в каталоге
+  missing?: string[];
+  // Артикулы товаров в корзине: импорт их не восстанавливает
+  trashed?: string[];
+  // Категории, созданные по колонке «Категория» (при dryRun — которые
+  // будут созданы), путями из названий
+  categories?: string[];
+  // Число товаров, остаток которых изменён по колонке «Остаток»
+  stockUpdated?: number;
+  // Изображения, скачанные по колонке «Изображение» после записи
+  // товаров; ошибки скачивания не отменяют импорт
+  imagesAdded?: number;
+  imageErrors?: string[];
+  // Построчный отчёт, только для dryRun
+  rows?: ImportRowReport[];
+}
+
+// Предложенное сопоставление колонок для незнакомого файла
+export interface HeaderDetectionResult {
+  headers: string[];
+  columns: ImportColumnDto[];
+  unmappedHeaders: string[];
+  missingRequired: ProductImportField[];
+}
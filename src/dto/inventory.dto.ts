@@ -0,0 +1,170 @@
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDate,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+  NotEquals,
+} from 'class-validator';
+
+// receipt — приход, sale — продажа, adjustment — корректировка после
+// пересчёта (со знаком), transfer — перемещение между складами
+export const STOCK_MOVEMENT_TYPES = [
+  'receipt',
+  'sale',
+  'adjustment',
+  'transfer',
+] as const;
+
+export type StockMovementType = (typeof STOCK_MOVEMENT_TYPES)[number];
+
+// Код склада — параметр warehouse импорта остатков
+export const WAREHOUSE_CODE_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export class CreateWarehouseDto {
+  @MaxLength(50)
+  @Matches(WAREHOUSE_CODE_PATTERN, {
+    message: 'code может содержать только латиницу, цифры, _ и -',
+  })
+  code!: string;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  address?: string;
+}
+
+// Код не меняется: по нему импортируются остатки. null очищает address
+export class UpdateWarehouseDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  address?: string | null;
+}
+
+export class CreateStockMovementDto {
+  @IsIn(STOCK_MOVEMENT_TYPES)
+  type!: StockMovementType;
+
+  @IsInt()
+  @Min(1)
+  productId!: number;
+
+  // Склад, на который пришёл или с которого ушёл товар; для transfer —
+  // склад-отправитель
+  @IsInt()
+  @Min(1)
+  warehouseId!: number;
+
+  // Только для transfer — склад-получатель
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  targetWarehouseId?: number;
+
+  // Положительное число; у adjustment знак задаёт направление
+  @IsInt()
+  @NotEquals(0)
+  quantity!: number;
+
+  // sale: товар продан из резерва, резерв уменьшается вместе с остатком
+  @IsOptional()
+  @IsBoolean()
+  fromReserve?: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  comment?: string;
+}
+
+export class StockReservationDto {
+  @IsInt()
+  @Min(1)
+  productId!: number;
+
+  @IsInt()
+  @Min(1)
+  warehouseId!: number;
+
+  @IsInt()
+  @Min(1)
+  quantity!: number;
+}
+
+export class StockMovementQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  productId?: number;
+
+  // Движения, в которых склад — отправитель или получатель
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  warehouseId?: number;
+
+  @IsOptional()
+  @IsIn(STOCK_MOVEMENT_TYPES)
+  type?: StockMovementType;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit = 50;
+}
+
+// available — сколько можно продать или зарезервировать: остаток за
+// вычетом резерва
+export interface StockBalance {
+  quantity: number;
+  reserved: number;
+  available: number;
+}
+
+export interface WarehouseStock extends StockBalance {
+  warehouseId: number;
+  code: string;
+  name: string;
+}
+
+export interface ProductStock extends StockBalance {
+  productId: number;
+  warehouses: WarehouseStock[];
+}
@@ -0,0 +1,8 @@
+export interface PaginatedResult<T> {
+  items: T[];
+  total: number;
+  // null в режиме курсора
+  page: number | null;
+  pageCount: number;
+  nextCursor: string | null;
+}
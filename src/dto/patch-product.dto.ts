@@ -0,0 +1,77 @@
+import { Transform } from 'class-transformer';
+import {
+  IsInt,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { CURRENCY_CODE_PATTERN, toCurrencyCode } from './currency.dto';
+import { MAX_PRICE } from './create-product.dto';
+import { AttributeValue } from './attribute.dto';
+
+// Поле передано, в том числе как null: null у обязательного поля — ошибка
+const isPresent = (_: object, value: unknown) => value !== undefined;
+
+// JSON Merge Patch (RFC 7386): отсутствующее поле не меняется, null
+// очищает brand, price, color, country и categoryId. attributes
+// сливаются с текущими так же: null удаляет значение атрибута
+export class PatchProductDto {
+  @ValidateIf(isPresent)
+  @IsString()
+  @MaxLength(100)
+  article?: string;
+
+  @ValidateIf(isPresent)
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  brand?: string | null;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(MAX_PRICE)
+  price?: number | null;
+
+  @ValidateIf(isPresent)
+  @Transform(toCurrencyCode)
+  @Matches(CURRENCY_CODE_PATTERN, {
+    message: 'currency должен быть трёхбуквенным кодом ISO 4217',
+  })
+  currency?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  color?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  country?: string | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  categoryId?: number | null;
+
+  @ValidateIf(isPresent)
+  @IsObject()
+  attributes?: Record<string, AttributeValue | null>;
+
+  // Версия, которую видел клиент; устаревшая — 409
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  version?: number;
+}
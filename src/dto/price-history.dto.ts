@@ -0,0 +1,81 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDate,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { toBoolean } from './query-transforms';
+
+// Период (from–to), конкретное задание импорта или последний импорт
+export class PriceChangesQueryDto {
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  // По умолчанию — текущий момент
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  importJobId?: number;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  lastImport?: boolean;
+
+  // Порог изменения цены в процентах, в любую сторону
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  minChangePercent = 10;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit = 100;
+}
+
+export interface PricePoint {
+  price: number | null;
+  previousPrice: number | null;
+  currency: string;
+  // null — запись о создании товара
+  previousCurrency: string | null;
+  source: string;
+  importJobId: number | null;
+  changedAt: Date;
+}
+
+export interface PriceChange {
+  productId: number;
+  article: string;
+  name: string;
+  brand: string | null;
+  // Обе цены в currency: товары со сменой валюты в отчёт не попадают
+  oldPrice: number;
+  newPrice: number;
+  currency: string;
+  // Положительный — подорожание
+  changePercent: number;
+}
+
+export interface PriceChangeReport {
+  from?: Date;
+  to?: Date;
+  importJobId?: number;
+  minChangePercent: number;
+  items: PriceChange[];
+}
@@ -0,0 +1,118 @@
+import { OmitType } from '@nestjs/mapped-types';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { PatchProductDto } from './patch-product.dto';
+
+export const BULK_OPERATIONS = ['create', 'update', 'delete'] as const;
+
+export type BulkOperationType = (typeof BULK_OPERATIONS)[number];
+
+// Больше операций в одном запросе — через импорт файла
+export const MAX_BULK_OPERATIONS = 1000;
+
+export class BulkProductOperationDto {
+  @IsIn(BULK_OPERATIONS)
+  op!: BulkOperationType;
+
+  // update и delete: товар ищется по id или по артикулу
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  id?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  article?: string;
+
+  // create — полные данные товара, update — JSON Merge Patch, как у
+  // PATCH /products/:id
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PatchProductDto)
+  data?: PatchProductDto;
+}
+
+export class BulkProductsDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_BULK_OPERATIONS)
+  @ValidateNested({ each: true })
+  @Type(() => BulkProductOperationDto)
+  operations!: BulkProductOperationDto[];
+
+  // true — при ошибке в любой операции не применяется ни одна,
+  // false — ошибочные операции пропускаются
+  @IsOptional()
+  @IsBoolean()
+  atomic = true;
+}
+
+export interface BulkOperationResult {
+  index: number;
+  op: BulkOperationType;
+  status: 'ok' | 'error';
+  id?: number;
+  article?: string;
+  // HTTP-статус ошибки: 400, 404 или 409
+  statusCode?: number;
+  // Машиночитаемый код, как в ErrorResponse
+  code?: string;
+  error?: string;
+}
+
+export interface BulkProductsResult {
+  // false — транзакция откачена, ни одна операция не применена
+  applied: boolean;
+  succeeded: number;
+  failed: number;
+  results: BulkOperationResult[];
+}
+
+// Значения, которые получат все товары под фильтром; null очищает поле.
+// Артикул уникален и массово не меняется, атрибуты у товаров разные
+export class BulkPatchFieldsDto extends OmitType(PatchProductDto, [
+  'article',
+  'version',
+  'attributes',
+] as const) {}
+
+export class BulkPatchDto {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BulkPatchFieldsDto)
+  set?: BulkPatchFieldsDto;
+
+  // 5 — поднять цену на 5%, -10 — снизить на 10%; товары без цены
+  // не меняются
+  @IsOptional()
+  @IsNumber()
+  @Min(-99)
+  @Max(1000)
+  priceChangePercent?: number;
+
+  // Только посчитать товары под фильтром
+  @IsOptional()
+  @IsBoolean()
+  dryRun = false;
+}
+
+export interface BulkPatchResult {
+  dryRun: boolean;
+  matched: number;
+  updated: number;
+}
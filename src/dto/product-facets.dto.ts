@@ -0,0 +1,23 @@
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export interface PriceBucket {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface ProductFacets {
+  brand: FacetBucket[];
+  color: FacetBucket[];
+  country: FacetBucket[];
+  price: {
+    min: number | null;
+    max: number | null;
+    // Товары без цены в гистограмму не попадают
+    withoutPrice: number;
+    buckets: PriceBucket[];
+  };
+}
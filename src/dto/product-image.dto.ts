@@ -0,0 +1,39 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsInt,
+  Min,
+} from 'class-validator';
+
+// Не больше изображений у одного товара
+export const MAX_PRODUCT_IMAGES = 20;
+
+export const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+
+// Новый порядок галереи: все id изображений товара
+export class ReorderImagesDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  imageIds!: number[];
+}
+
+// Изображение в ответах API; превью — WebP не больше 300×300
+export interface ProductImage {
+  id: number;
+  url: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+  position: number;
+  isPrimary: boolean;
+}
+
+// Добавляется к товарам в GET /products и GET /products/:id; первым
+// идёт главное изображение
+export interface ProductImages {
+  images: ProductImage[];
+}
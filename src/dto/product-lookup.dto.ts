@@ -0,0 +1,25 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export const MAX_LOOKUP_ARTICLES = 1000;
+
+export class ProductLookupDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_LOOKUP_ARTICLES)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  articles!: string[];
+}
+
+export interface ProductLookupResult<T> {
+  // В порядке артикулов запроса, без повторов
+  items: T[];
+  // Артикулы, которых нет в каталоге (в том числе товары в корзине)
+  missing: string[];
+}
@@ -0,0 +1,224 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDate,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import { toArray, toAttributeFilter, toBoolean } from './query-transforms';
+import { CURRENCY_CODE_PATTERN, toCurrencyCode } from './currency.dto';
+
+export const PRODUCT_SORT_COLUMNS = [
+  'article',
+  'name',
+  'brand',
+  'price',
+  'color',
+  'country',
+  'createdAt',
+] as const;
+
+export type ProductSortColumn = (typeof PRODUCT_SORT_COLUMNS)[number];
+
+// relevance — по близости к search, самые подходящие первыми
+export const PRODUCT_SORT_FIELDS = [
+  ...PRODUCT_SORT_COLUMNS,
+  'relevance',
+] as const;
+
+export type ProductSortField = (typeof PRODUCT_SORT_FIELDS)[number];
+
+// Фильтры каталога, общие для списка, фасетов и экспорта
+export class ProductFilterDto {
+  // Полнотекстовый поиск по названию, артикулу и бренду с учётом
+  // морфологии; артикул ищется ещё и по подстроке и с опечатками
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  search?: string;
+
+  @IsOptional()
+  @Transform(toArray)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  brand?: string[];
+
+  @IsOptional()
+  @Transform(toArray)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  color?: string[];
+
+  @IsOptional()
+  @Transform(toArray)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  country?: string[];
+
+  // Slug категории; includeDescendants — вместе с подкатегориями
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  category?: string;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  includeDescendants?: boolean;
+
+  // attributes[size]=42,43 — товары с любым из значений атрибута size
+  @IsOptional()
+  @Transform(toAttributeFilter)
+  @IsObject()
+  attributes?: Record<string, string[]>;
+
+  // false — только основные товары, без вариантов
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  variants?: boolean;
+
+  // exact — точное совпадение brand/color/country, partial — подстрока
+  @IsOptional()
+  @IsIn(['exact', 'partial'])
+  match: 'exact' | 'partial' = 'partial';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  priceMin?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  priceMax?: number;
+
+  // true — есть хотя бы на одном складе сверх резерва, false — нет нигде
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  inStock?: boolean;
+
+  // false — только товары без цены
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  hasPrice?: boolean;
+
+  // Цены пересчитываются в эту валюту; priceMin/priceMax и сортировка
+  // по цене тоже работают в ней. Без параметра цены не пересчитываются
+  @IsOptional()
+  @Transform(toCurrencyCode)
+  @Matches(CURRENCY_CODE_PATTERN, {
+    message: 'currency должен быть трёхбуквенным кодом ISO 4217',
+  })
+  currency?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdAfter?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdBefore?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  updatedAfter?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  updatedBefore?: Date;
+}
+
+export class ProductQueryDto extends ProductFilterDto {
+  @IsOptional()
+  @IsIn(PRODUCT_SORT_FIELDS)
+  sortBy: ProductSortField = 'createdAt';
+
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.toUpperCase() : value,
+  )
+  @IsIn(['ASC', 'DESC'])
+  sortOrder: 'ASC' | 'DESC' = 'DESC';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit = 20;
+
+  // Непрозрачный курсор из nextCursor; с курсором page не учитывается
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+// Корзина: те же фильтры, новые удаления первыми
+export class ProductTrashQueryDto extends ProductFilterDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit = 20;
+}
+
+// Принимает те же параметры, что и GET /products, чтобы фронтенд мог
+// передавать строку запроса без изменений
+export class ProductFacetsQueryDto extends ProductQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  priceBuckets = 10;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  facetLimit = 50;
+}
+
+export const PRODUCT_EXPORT_FORMATS = ['csv', 'tsv', 'xlsx'] as const;
+
+export type ProductExportFormat = (typeof PRODUCT_EXPORT_FORMATS)[number];
+
+export class ProductExportQueryDto extends ProductQueryDto {
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.toLowerCase() : value,
+  )
+  @IsIn(PRODUCT_EXPORT_FORMATS)
+  format: ProductExportFormat = 'csv';
+}
@@ -0,0 +1,12 @@
+// Найденные слова в названии и бренде обёрнуты в <mark>…</mark>;
+// совпадения по артикулу и опечаткам не подсвечиваются
+export interface ProductHighlight {
+  name: string;
+  brand: string | null;
+}
+
+// Добавляется к товарам в выдаче, когда задан search
+export interface ProductSearchMatch {
+  relevance: number;
+  highlight: ProductHighlight;
+}
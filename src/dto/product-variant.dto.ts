@@ -0,0 +1,13 @@
+import { IsString, MaxLength } from 'class-validator';
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { CreateProductDto } from './create-product.dto';
+
+// Вариант товара: обязателен только артикул, остальные поля и
+// атрибуты по умолчанию берутся у основного товара
+export class CreateVariantDto extends PartialType(
+  OmitType(CreateProductDto, ['article'] as const),
+) {
+  @IsString()
+  @MaxLength(100)
+  article!: string;
+}
@@ -0,0 +1,28 @@
+// brand=A&brand=B и brand=A,B приводятся к массиву
+export const toArray = ({ value }: { value: unknown }) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap((item) => String(item).split(','))
+    .map((item) => item.trim())
+    .filter(Boolean);
+};
+
+export const toBoolean = ({ value }: { value: unknown }) => {
+  if (value === 'true' || value === '1' || value === true) return true;
+  if (value === 'false' || value === '0' || value === false) return false;
+  return value;
+};
+
+// attributes[size]=42&attributes[size]=43 приводится к { size: ['42', '43'] };
+// вложенные объекты не пропускаются дальше валидации
+export const toAttributeFilter = ({ value }: { value: unknown }) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([code, values]) => [
+      code,
+      toArray({ value: values }),
+    ]),
+  );
+};
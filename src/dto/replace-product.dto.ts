@@ -0,0 +1,12 @@
+import { IsInt, IsOptional, Min } from 'class-validator';
+import { CreateProductDto } from './create-product.dto';
+
+// PUT заменяет товар целиком: не переданные brand, price, color и
+// country очищаются, currency сбрасывается на базовую валюту
+export class ReplaceProductDto extends CreateProductDto {
+  // Версия, которую видел клиент; устаревшая — 409
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  version?: number;
+}
@@ -0,0 +1,133 @@
+import {
+  ArgumentsHost,
+  BadRequestException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { QueryFailedError } from 'typeorm';
+import { AllExceptionsFilter } from './all-exceptions.filter';
+import {
+  DuplicateArticleException,
+  StaleVersionException,
+} from './domain.exceptions';
+
+describe('AllExceptionsFilter', () => {
+  const filter = new AllExceptionsFilter();
+
+  const hostFor = (headersSent = false) => {
+    const response = {
+      headersSent,
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+      end: jest.fn(),
+    };
+    const host = {
+      switchToHttp: () => ({
+        getRequest: () => ({ url: '/products/1' }),
+        getResponse: () => response,
+      }),
+    } as unknown as ArgumentsHost;
+    return { host, response };
+  };
+
+  const uniqueViolation = (detail: string) =>
+    new QueryFailedError('INSERT', [], { code: '23505', detail } as never);
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+  });
+
+  it('returns the code of a domain exception', () => {
+    const { host, response } = hostFor();
+
+    filter.catch(new StaleVersionException(1, true), host);
+
+    expect(response.status).toHaveBeenCalledWith(412);
+    expect(response.json).toHaveBeenCalledWith({
+      statusCode: 412,
+      code: 'STALE_VERSION',
+      message:
+        'Продукт с ID 1 изменён другим пользователем, загрузите его заново',
+      path: '/products/1',
+      timestamp: expect.any(String),
+    });
+  });
+
+  it('collects validation messages into details', () => {
+    const { host, response } = hostFor();
+
+    filter.catch(
+      new BadRequestException(['name should not be empty', 'price < 0']),
+      host,
+    );
+
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        statusCode: 400,
+        code: 'VALIDATION_FAILED',
+        details: ['name should not be empty', 'price < 0'],
+      }),
+    );
+  });
+
+  it('names other HTTP errors after their status', () => {
+    const { host, response } = hostFor();
+
+    filter.catch(new BadRequestException('Укажите id или article'), host);
+
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: 'BAD_REQUEST',
+        message: 'Укажите id или article',
+      }),
+    );
+  });
+
+  it('maps a unique violation on the article to 409', () => {
+    const { host, response } = hostFor();
+
+    filter.catch(uniqueViolation('Key (article)=(A-1) already exists.'), host);
+
+    expect(response.status).toHaveBeenCalledWith(HttpStatus.CONFLICT);
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: 'DUPLICATE_ARTICLE',
+        message: new DuplicateArticleException('A-1').message,
+      }),
+    );
+  });
+
+  it('maps other unique violations to a generic conflict', () => {
+    const { host, response } = hostFor();
+
+    filter.catch(uniqueViolation('Key (code)=(USD) already exists.'), host);
+
+    expect(response.status).toHaveBeenCalledWith(HttpStatus.CONFLICT);
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'UNIQUE_VIOLATION' }),
+    );
+  });
+
+  it('hides details of unexpected errors', () => {
+    const { host, response } = hostFor();
+
+    filter.catch(new Error('connection refused'), host);
+
+    expect(response.status).toHaveBeenCalledWith(500);
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Внутренняя ошибка сервера',
+      }),
+    );
+  });
+
+  it('ends a response whose headers are already sent', () => {
+    const { host, response } = hostFor(true);
+
+    filter.catch(new Error('stream failed'), host);
+
+    expect(response.end).toHaveBeenCalled();
+    expect(response.json).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { ErrorResponse } from '../dto/error-response.dto';
+import { errorCode, fromUniqueViolation } from './domain.exceptions';
+
+// Приводит любую ошибку к ErrorResponse; непредвиденные ошибки
+// логируются, а клиент получает 500 без подробностей
+@Catch()
+export class AllExceptionsFilter implements ExceptionFilter {
+  private readonly logger = new Logger(AllExceptionsFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const ctx = host.switchToHttp();
+    const request = ctx.getRequest<Request>();
+    const response = ctx.getResponse<Response>();
+
+    const error = this.toHttpException(exception);
+    const status = error.getStatus();
+    const body: ErrorResponse = {
+      statusCode: status,
+      code: errorCode(error),
+      message: error.message,
+      path: request.url,
+      timestamp: new Date().toISOString(),
+    };
+
+    // ValidationPipe кладёт сообщения по полям в массив message
+    const payload = error.getResponse();
+    if (
+      typeof payload === 'object' &&
+      Array.isArray((payload as { message?: unknown }).message)
+    ) {
+      body.code = 'VALIDATION_FAILED';
+      body.message = 'Некорректные данные запроса';
+      body.details = (payload as { message: string[] }).message;
+    }
+
+    // Поток выгрузки уже начат — дописать JSON некуда
+    if (response.headersSent) {
+      response.end();
+      return;
+    }
+    response.status(status).json(body);
+  }
+
+  private toHttpException(exception: unknown): HttpException {
+    if (exception instanceof HttpException) return exception;
+
+    const conflict = fromUniqueViolation(exception);
+    if (conflict) return conflict;
+
+    this.logger.error(
+      exception instanceof Error ? exception.message : String(exception),
+      exception instanceof Error ? exception.stack : undefined,
+    );
+    return new InternalServerErrorException('Внутренняя ошибка сервера');
+  }
+}
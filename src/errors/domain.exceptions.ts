@@ -0,0 +1,188 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { QueryFailedError } from 'typeorm';
+
+export type DomainErrorCode =
+  | 'DUPLICATE_ARTICLE'
+  | 'ARTICLE_IN_TRASH'
+  | 'PRODUCT_NOT_FOUND'
+  | 'STALE_VERSION'
+  | 'INVALID_IMPORT_FILE'
+  | 'CATEGORY_NOT_FOUND'
+  | 'DUPLICATE_CATEGORY'
+  | 'ATTRIBUTE_NOT_FOUND'
+  | 'DUPLICATE_ATTRIBUTE'
+  | 'WAREHOUSE_NOT_FOUND'
+  | 'DUPLICATE_WAREHOUSE'
+  | 'INSUFFICIENT_STOCK'
+  | 'IMAGE_NOT_FOUND'
+  | 'UNIQUE_VIOLATION';
+
+// Ошибка предметной области: HTTP-статус и машиночитаемый код, который
+// фильтр ошибок отдаёт клиенту в поле code
+export class DomainException extends HttpException {
+  constructor(
+    readonly code: DomainErrorCode,
+    message: string,
+    status: HttpStatus,
+  ) {
+    super(message, status);
+  }
+}
+
+export class DuplicateArticleException extends DomainException {
+  constructor(article: string) {
+    super(
+      'DUPLICATE_ARTICLE',
+      `Продукт с артикулом ${article} уже существует`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+export class ArticleInTrashException extends DomainException {
+  constructor(article: string) {
+    super(
+      'ARTICLE_IN_TRASH',
+      `Продукт с артикулом ${article} находится в корзине, восстановите его`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+export class ProductNotFoundException extends DomainException {
+  constructor(key: { id: number } | { article: string }) {
+    super(
+      'PRODUCT_NOT_FOUND',
+      'id' in key
+        ? `Продукт с ID ${key.id} не найден`
+        : `Продукт с артикулом ${key.article} не найден`,
+      HttpStatus.NOT_FOUND,
+    );
+  }
+}
+
+// Товар изменён после того, как клиент его прочитал: по If-Match — 412,
+// по version в теле — 409
+export class StaleVersionException extends DomainException {
+  constructor(id: number, ifMatch: boolean) {
+    super(
+      'STALE_VERSION',
+      `Продукт с ID ${id} изменён другим пользователем, загрузите его заново`,
+      ifMatch ? HttpStatus.PRECONDITION_FAILED : HttpStatus.CONFLICT,
+    );
+  }
+}
+
+export class InvalidImportFileException extends DomainException {
+  constructor(message: string) {
+    super('INVALID_IMPORT_FILE', message, HttpStatus.BAD_REQUEST);
+  }
+}
+
+export class CategoryNotFoundException extends DomainException {
+  constructor(id: number) {
+    super(
+      'CATEGORY_NOT_FOUND',
+      `Категория с ID ${id} не найдена`,
+      HttpStatus.NOT_FOUND,
+    );
+  }
+}
+
+// Занят slug или у родителя уже есть категория с таким названием
+export class DuplicateCategoryException extends DomainException {
+  constructor(message: string) {
+    super('DUPLICATE_CATEGORY', message, HttpStatus.CONFLICT);
+  }
+}
+
+export class AttributeNotFoundException extends DomainException {
+  constructor(id: number) {
+    super(
+      'ATTRIBUTE_NOT_FOUND',
+      `Атрибут с ID ${id} не найден`,
+      HttpStatus.NOT_FOUND,
+    );
+  }
+}
+
+export class DuplicateAttributeException extends DomainException {
+  constructor(code: string) {
+    super(
+      'DUPLICATE_ATTRIBUTE',
+      `Атрибут с кодом ${code} уже существует`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+export class WarehouseNotFoundException extends DomainException {
+  constructor(key: { id: number } | { code: string }) {
+    super(
+      'WAREHOUSE_NOT_FOUND',
+      'id' in key
+        ? `Склад с ID ${key.id} не найден`
+        : `Склад с кодом ${key.code} не найден`,
+      HttpStatus.NOT_FOUND,
+    );
+  }
+}
+
+export class DuplicateWarehouseException extends DomainException {
+  constructor(code: string) {
+    super(
+      'DUPLICATE_WAREHOUSE',
+      `Склад с кодом ${code} уже существует`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+// Продажа, перемещение или резерв больше доступного остатка
+export class InsufficientStockException extends DomainException {
+  constructor(available: number, requested: number) {
+    super(
+      'INSUFFICIENT_STOCK',
+      `Недостаточно товара на складе: доступно ${available}, запрошено ${requested}`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+export class ImageNotFoundException extends DomainException {
+  constructor(id: number) {
+    super(
+      'IMAGE_NOT_FOUND',
+      `Изображение с ID ${id} не найдено`,
+      HttpStatus.NOT_FOUND,
+    );
+  }
+}
+
+// Код ошибки для ответа: у доменных — свой, у остальных — имя статуса
+// (NOT_FOUND, FORBIDDEN, …)
+export function errorCode(exception: HttpException): string {
+  if (exception instanceof DomainException) return exception.code;
+  return HttpStatus[exception.getStatus()] ?? 'ERROR';
+}
+
+// Нарушение уникального индекса Postgres (23505) — например, два запроса
+// одновременно создали один артикул. Остальные ошибки — undefined
+export function fromUniqueViolation(err: unknown): DomainException | undefined {
+  if (!(err instanceof QueryFailedError)) return undefined;
+  const { code, detail } = err.driverError as {
+    code?: string;
+    detail?: string;
+  };
+  if (code !== '23505') return undefined;
+
+  // detail: «Key (article)=(A-1) already exists.», текст зависит от локали
+  const article = /\(article\)=\((.*)\)/.exec(detail ?? '');
+  return article
+    ? new DuplicateArticleException(article[1])
+    : new DomainException(
+        'UNIQUE_VIOLATION',
+        'Запись с такими значениями уже существует',
+        HttpStatus.CONFLICT,
+      );
+}
@@ -0,0 +1,61 @@
+import { BadRequestException } from '@nestjs/common';
+import * as sharp from 'sharp';
+
+// Загруженный файл: из multipart-запроса или скачанный по ссылке
+export interface ImageFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
+export interface ProcessedImage {
+  extension: string;
+  contentType: string;
+  width: number;
+  height: number;
+  thumbnail: Buffer;
+}
+
+// Поддерживаемые форматы по данным sharp; SVG не принимается — в нём
+// может быть скрипт
+const IMAGE_FORMATS: Record<string, { extension: string; type: string }> = {
+  jpeg: { extension: 'jpg', type: 'image/jpeg' },
+  png: { extension: 'png', type: 'image/png' },
+  webp: { extension: 'webp', type: 'image/webp' },
+  gif: { extension: 'gif', type: 'image/gif' },
+};
+
+export const THUMBNAIL_SIZE = 300;
+
+// Формат определяется по содержимому файла, а не по имени и MIME-типу
+// от клиента. Превью — WebP, повёрнутое по EXIF и вписанное
+// в THUMBNAIL_SIZE×THUMBNAIL_SIZE без увеличения
+export async function processImage(buffer: Buffer): Promise<ProcessedImage> {
+  const metadata = await sharp(buffer)
+    .metadata()
+    .catch(() => undefined);
+  const format = metadata?.format && IMAGE_FORMATS[metadata.format];
+  if (!metadata?.width || !metadata.height || !format) {
+    throw new BadRequestException(
+      'Файл не является изображением JPEG, PNG, WebP или GIF',
+    );
+  }
+
+  const thumbnail = await sharp(buffer)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .webp({ quality: 80 })
+    .toBuffer();
+
+  // Ориентации EXIF 5–8 поворачивают снимок на 90°
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  return {
+    extension: format.extension,
+    contentType: format.type,
+    width: rotated ? metadata.height : metadata.width,
+    height: rotated ? metadata.width : metadata.height,
+    thumbnail,
+  };
+}
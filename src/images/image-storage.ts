@@ -0,0 +1,12 @@
+// Хранилище файлов изображений. Ключ — относительный путь вида
+// products/12/<uuid>.jpg; по нему файл сохраняется, удаляется и
+// получает публичный URL. Сейчас есть только локальный диск, S3-совместимое
+// хранилище подключается своей реализацией под тем же токеном
+export interface ImageStorage {
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Отсутствующий файл — не ошибка
+  delete(key: string): Promise<void>;
+  url(key: string): string;
+}
+
+export const IMAGE_STORAGE = 'IMAGE_STORAGE';
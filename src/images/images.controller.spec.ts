@@ -0,0 +1,111 @@
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { ImagesController } from './images.controller';
+import { ImagesService } from './images.service';
+import { MAX_IMAGE_SIZE } from '../dto/product-image.dto';
+import { authAs, createControllerApp } from '../testing/controller-app';
+
+describe('ImagesController', () => {
+  let app: INestApplication;
+  let imagesService: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    imagesService = {
+      findForProduct: jest.fn().mockResolvedValue([]),
+      upload: jest.fn().mockResolvedValue({ id: 3 }),
+      reorder: jest.fn().mockResolvedValue([]),
+      setPrimary: jest.fn().mockResolvedValue([]),
+      remove: jest.fn().mockResolvedValue(undefined),
+    };
+    app = await createControllerApp(ImagesController, [
+      { provide: ImagesService, useValue: imagesService },
+    ]);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('lets viewers read the gallery but not change it', async () => {
+    const server = app.getHttpServer();
+    await request(server)
+      .get('/products/7/images')
+      .set(authAs('viewer'))
+      .expect(200);
+    await request(server)
+      .post('/products/7/images/3/primary')
+      .set(authAs('viewer'))
+      .expect(403);
+    await request(server)
+      .delete('/products/7/images/3')
+      .set(authAs('viewer'))
+      .expect(403);
+
+    expect(imagesService.findForProduct).toHaveBeenCalledWith(7);
+    expect(imagesService.setPrimary).not.toHaveBeenCalled();
+    expect(imagesService.remove).not.toHaveBeenCalled();
+  });
+
+  it('passes an uploaded file to the service', async () => {
+    await request(app.getHttpServer())
+      .post('/products/7/images')
+      .set(authAs('editor'))
+      .attach('file', Buffer.from('png'), 'photo.png')
+      .expect(201, { id: 3 });
+
+    expect(imagesService.upload).toHaveBeenCalledWith(
+      7,
+      expect.objectContaining({
+        originalname: 'photo.png',
+        buffer: Buffer.from('png'),
+      }),
+    );
+  });
+
+  it('rejects files above the size limit before they reach the service', async () => {
+    await request(app.getHttpServer())
+      .post('/products/7/images')
+      .set(authAs('editor'))
+      .attach('file', Buffer.alloc(MAX_IMAGE_SIZE + 1), 'huge.jpg')
+      .expect(413);
+
+    expect(imagesService.upload).not.toHaveBeenCalled();
+  });
+
+  it('validates the new gallery order', async () => {
+    const server = app.getHttpServer();
+    await request(server)
+      .put('/products/7/images/order')
+      .set(authAs('editor'))
+      .send({ imageIds: [2, 2.5] })
+      .expect(400);
+    await request(server)
+      .put('/products/7/images/order')
+      .set(authAs('editor'))
+      .send({ imageIds: [2, 1] })
+      .expect(200);
+
+    expect(imagesService.reorder).toHaveBeenCalledTimes(1);
+    expect(imagesService.reorder).toHaveBeenCalledWith(7, [2, 1]);
+  });
+
+  it('makes an image primary with 200 and removes images', async () => {
+    const server = app.getHttpServer();
+    await request(server)
+      .post('/products/7/images/3/primary')
+      .set(authAs('editor'))
+      .expect(200);
+    await request(server)
+      .delete('/products/7/images/3')
+      .set(authAs('editor'))
+      .expect(200, { message: 'Изображение удалено' });
+    await request(server)
+      .delete('/products/7/images/main')
+      .set(authAs('editor'))
+      .expect(400);
+
+    expect(imagesService.setPrimary).toHaveBeenCalledWith(7, 3);
+    expect(imagesService.remove).toHaveBeenCalledTimes(1);
+    expect(imagesService.remove).toHaveBeenCalledWith(7, 3);
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ImagesService } from './images.service';
+import {
+  MAX_IMAGE_SIZE,
+  ProductImage,
+  ReorderImagesDto,
+} from '../dto/product-image.dto';
+import { Roles } from '../auth/roles.decorator';
+
+// Галерея товара; файлы раздаются по URL из ответа
+@Controller('products/:id/images')
+export class ImagesController {
+  constructor(private readonly imagesService: ImagesService) {}
+
+  @Get()
+  async getAll(@Param('id', ParseIntPipe) id: number): Promise<ProductImage[]> {
+    return this.imagesService.findForProduct(id);
+  }
+
+  // multipart/form-data с файлом в поле file
+  @Roles('editor')
+  @Post()
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMAGE_SIZE } }),
+  )
+  async upload(
+    @Param('id', ParseIntPipe) id: number,
+    @UploadedFile() file: Express.Multer.File,
+  ): Promise<ProductImage> {
+    return this.imagesService.upload(id, file);
+  }
+
+  @Roles('editor')
+  @Put('order')
+  async reorder(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() { imageIds }: ReorderImagesDto,
+  ): Promise<ProductImage[]> {
+    return this.imagesService.reorder(id, imageIds);
+  }
+
+  @Roles('editor')
+  @Post(':imageId/primary')
+  @HttpCode(HttpStatus.OK)
+  async setPrimary(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('imageId', ParseIntPipe) imageId: number,
+  ): Promise<ProductImage[]> {
+    return this.imagesService.setPrimary(id, imageId);
+  }
+
+  @Roles('editor')
+  @Delete(':imageId')
+  async remove(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('imageId', ParseIntPipe) imageId: number,
+  ): Promise<{ message: string }> {
+    await this.imagesService.remove(id, imageId);
+    return { message: 'Изображение удалено' };
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ImagesService } from './images.service';
+import { ImagesController } from './images.controller';
+import { ProductImageEntity } from './product-image.entity';
+import { ProductEntity } from '../products/product.entity';
+import { IMAGE_STORAGE } from './image-storage';
+import { LocalImageStorage } from './local-image.storage';
+
+// Изображения товаров: галерея — /products/:id/images, в выдаче
+// каталога — поле images
+@Module({
+  imports: [TypeOrmModule.forFeature([ProductImageEntity, ProductEntity])],
+  providers: [
+    ImagesService,
+    {
+      provide: IMAGE_STORAGE,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        new LocalImageStorage(
+          configService.get<string>('MEDIA_DIR', 'uploads'),
+          configService.get<string>('MEDIA_PUBLIC_URL', '/media'),
+        ),
+    },
+  ],
+  controllers: [ImagesController],
+  exports: [ImagesService],
+})
+export class ImagesModule {}
@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import * as sharp from 'sharp';
+import { ImagesService } from './images.service';
+import { ProductImageEntity } from './product-image.entity';
+import { IMAGE_STORAGE } from './image-storage';
+import { ProductEntity } from '../products/product.entity';
+import { MAX_PRODUCT_IMAGES } from '../dto/product-image.dto';
+import { ProductNotFoundException } from '../errors/domain.exceptions';
+
+describe('ImagesService', () => {
+  let service: ImagesService;
+  let images: Partial<ProductImageEntity>[];
+  let imagesRepo: Record<string, jest.Mock>;
+  let productsRepo: { existsBy: jest.Mock; findOne: jest.Mock };
+  let storage: { save: jest.Mock; delete: jest.Mock; url: jest.Mock };
+  let photo: Buffer;
+
+  beforeAll(async () => {
+    photo = await sharp({
+      create: { width: 800, height: 600, channels: 3, background: 'red' },
+    })
+      .jpeg()
+      .toBuffer();
+  });
+
+  beforeEach(async () => {
+    images = [];
+    const positionQuery = {
+      select: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      getRawOne: jest.fn(async () => ({
+        last: images.length
+          ? Math.max(...images.map((image) => image.position!))
+          : null,
+      })),
+    };
+    imagesRepo = {
+      countBy: jest.fn(async () => images.length),
+      createQueryBuilder: jest.fn(() => positionQuery),
+      create: jest.fn((data) => data),
+      save: jest.fn(async (data) => {
+        const image = { id: images.length + 1, ...data };
+        images.push(image);
+        return image;
+      }),
+      find: jest.fn(async () => images),
+      findBy: jest.fn(async () => images),
+      findOne: jest.fn(async () => images[0] ?? null),
+      findOneBy: jest.fn(
+        async ({ id }) => images.find((image) => image.id === id) ?? null,
+      ),
+      update: jest.fn(),
+      delete: jest.fn(async (id) => {
+        images = images.filter((image) => image.id !== id);
+      }),
+    };
+    productsRepo = {
+      existsBy: jest.fn().mockResolvedValue(true),
+      findOne: jest.fn(async ({ where }) => ({ id: where.id })),
+    };
+    const manager = {
+      transaction: jest.fn((work) => work(manager)),
+      getRepository: (entity: unknown) =>
+        entity === ProductEntity ? productsRepo : imagesRepo,
+    };
+    storage = {
+      save: jest.fn(),
+      delete: jest.fn(),
+      url: jest.fn((key) => `/media/${key}`),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImagesService,
+        {
+          provide: getRepositoryToken(ProductImageEntity),
+          useValue: { ...imagesRepo, manager },
+        },
+        { provide: getRepositoryToken(ProductEntity), useValue: productsRepo },
+        { provide: IMAGE_STORAGE, useValue: storage },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<ImagesService>(ImagesService);
+  });
+
+  it('stores the original with a WebP thumbnail and makes the first image primary', async () => {
+    const first = await service.upload(7, {
+      originalname: 'photo.jpg',
+      buffer: photo,
+    });
+    const second = await service.upload(7, {
+      originalname: 'back.jpg',
+      buffer: photo,
+    });
+
+    expect(first).toMatchObject({
+      width: 800,
+      height: 600,
+      position: 0,
+      isPrimary: true,
+      url: expect.stringMatching(/^\/media\/products\/7\/[\w-]+\.jpg$/),
+      thumbnailUrl: expect.stringMatching(/-thumb\.webp$/),
+    });
+    expect(second).toMatchObject({ position: 1, isPrimary: false });
+
+    const [, thumbnail, contentType] = storage.save.mock.calls[1];
+    expect(contentType).toBe('image/webp');
+    expect(await sharp(thumbnail).metadata()).toMatchObject({
+      format: 'webp',
+      width: 300,
+      height: 225,
+    });
+  });
+
+  it('rejects files that are not images', async () => {
+    await expect(
+      service.upload(7, {
+        originalname: 'photo.jpg',
+        buffer: Buffer.from('<svg/>'),
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(storage.save).not.toHaveBeenCalled();
+  });
+
+  it('deletes stored files when the image cannot be recorded', async () => {
+    imagesRepo.countBy.mockResolvedValue(MAX_PRODUCT_IMAGES);
+
+    await expect(
+      service.upload(7, { originalname: 'photo.jpg', buffer: photo }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(storage.delete.mock.calls.map(([key]) => key)).toEqual(
+      storage.save.mock.calls.map(([key]) => key),
+    );
+  });
+
+  it('refuses uploads for a missing product', async () => {
+    productsRepo.existsBy.mockResolvedValue(false);
+
+    await expect(
+      service.upload(99, { originalname: 'photo.jpg', buffer: photo }),
+    ).rejects.toBeInstanceOf(ProductNotFoundException);
+  });
+
+  it('promotes the next image when the primary one is removed', async () => {
+    images = [
+      { id: 1, productId: 7, position: 0, isPrimary: true, key: 'a.jpg' },
+      { id: 2, productId: 7, position: 1, isPrimary: false, key: 'b.jpg' },
+    ].map((image) => ({ ...image, thumbnailKey: `${image.key}.webp` }));
+
+    await service.remove(7, 1);
+
+    expect(imagesRepo.update).toHaveBeenCalledWith(2, { isPrimary: true });
+    expect(storage.delete.mock.calls.map(([key]) => key)).toEqual([
+      'a.jpg',
+      'a.jpg.webp',
+    ]);
+  });
+
+  it('requires every image of the product to reorder the gallery', async () => {
+    images = [
+      { id: 1, productId: 7, position: 0 },
+      { id: 2, productId: 7, position: 1 },
+    ];
+
+    await expect(service.reorder(7, [2])).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    await service.reorder(7, [2, 1]);
+    expect(imagesRepo.update.mock.calls).toEqual([
+      [2, { position: 0 }],
+      [1, { position: 1 }],
+    ]);
+  });
+
+  it('does not download a URL that is already in the gallery', async () => {
+    images = [{ id: 4, productId: 7, sourceUrl: 'https://cdn.test/a.jpg' }];
+    imagesRepo.findOneBy.mockResolvedValue(images[0]);
+
+    const { created } = await service.addFromUrl(7, 'https://cdn.test/a.jpg');
+
+    expect(created).toBe(false);
+    expect(storage.save).not.toHaveBeenCalled();
+  });
+
+  it('does not download images from internal addresses', async () => {
+    imagesRepo.findOneBy.mockResolvedValue(null);
+
+    await expect(
+      service.addFromUrl(7, 'http://169.254.169.254/a.jpg'),
+    ).rejects.toMatchObject({ status: 400 });
+    expect(storage.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,292 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { ProductImageEntity } from './product-image.entity';
+import { IMAGE_STORAGE, ImageStorage } from './image-storage';
+import { ImageFile, processImage } from './image-processor';
+import { ProductEntity } from '../products/product.entity';
+import {
+  fetchRemoteFile,
+  fileNameFromUrl,
+  parseAllowedHosts,
+} from '../common/remote-file.fetcher';
+import {
+  MAX_IMAGE_SIZE,
+  MAX_PRODUCT_IMAGES,
+  ProductImage,
+  ProductImages,
+} from '../dto/product-image.dto';
+import {
+  ImageNotFoundException,
+  ProductNotFoundException,
+} from '../errors/domain.exceptions';
+
+// Главное изображение первым, остальные — в порядке галереи
+const GALLERY_ORDER = {
+  productId: 'ASC',
+  isPrimary: 'DESC',
+  position: 'ASC',
+  id: 'ASC',
+} as const;
+
+@Injectable()
+export class ImagesService {
+  constructor(
+    @InjectRepository(ProductImageEntity)
+    private readonly imagesRepo: Repository<ProductImageEntity>,
+    @InjectRepository(ProductEntity)
+    private readonly productsRepo: Repository<ProductEntity>,
+    @Inject(IMAGE_STORAGE)
+    private readonly storage: ImageStorage,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async findForProduct(productId: number): Promise<ProductImage[]> {
+    await this.assertProductExists(productId);
+    return this.findImages(productId);
+  }
+
+  // Изображения товаров выдачи в поле images; один запрос на страницу
+  async attachTo<T extends ProductEntity>(
+    products: T[],
+  ): Promise<(T & ProductImages)[]> {
+    const images = products.length
+      ? await this.imagesRepo.find({
+          where: { productId: In(products.map((product) => product.id)) },
+          order: GALLERY_ORDER,
+        })
+      : [];
+    const byProduct = new Map<number, ProductImage[]>();
+    for (const image of images) {
+      const list = byProduct.get(image.productId) ?? [];
+      list.push(this.toProductImage(image));
+      byProduct.set(image.productId, list);
+    }
+    return products.map((product) =>
+      Object.assign(product, { images: byProduct.get(product.id) ?? [] }),
+    );
+  }
+
+  // Оригинал сохраняется как есть, превью генерируется. Первое
+  // изображение товара становится главным
+  async upload(
+    productId: number,
+    file: ImageFile | undefined,
+    sourceUrl?: string,
+  ): Promise<ProductImage> {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException('Файл изображения не передан');
+    }
+    await this.assertProductExists(productId);
+
+    const processed = await processImage(file.buffer);
+    const name = `products/${productId}/${randomUUID()}`;
+    const key = `${name}.${processed.extension}`;
+    const thumbnailKey = `${name}-thumb.webp`;
+    await this.storage.save(key, file.buffer, processed.contentType);
+    await this.storage.save(thumbnailKey, processed.thumbnail, 'image/webp');
+
+    try {
+      const image = await this.imagesRepo.manager.transaction(
+        async (manager) => {
+          // Блокировка товара упорядочивает параллельные загрузки:
+          // позиция и главное изображение считаются без гонок
+          const product = await manager.getRepository(ProductEntity).findOne({
+            where: { id: productId },
+            lock: { mode: 'pessimistic_write' },
+          });
+          if (!product) {
+            throw new ProductNotFoundException({ id: productId });
+          }
+
+          const repo = manager.getRepository(ProductImageEntity);
+          const count = await repo.countBy({ productId });
+          if (count >= MAX_PRODUCT_IMAGES) {
+            throw new BadRequestException(
+              `У товара не может быть больше ${MAX_PRODUCT_IMAGES} изображений`,
+            );
+          }
+          const row = await repo
+            .createQueryBuilder('image')
+            .select('MAX(image.position)', 'last')
+            .where('image.productId = :productId', { productId })
+            .getRawOne<{ last: number | null }>();
+
+          return repo.save(
+            repo.create({
+              productId,
+              position: row?.last == null ? 0 : Number(row.last) + 1,
+              isPrimary: count === 0,
+              key,
+              thumbnailKey,
+              contentType: processed.contentType,
+              width: processed.width,
+              height: processed.height,
+              size: file.buffer.length,
+              originalName: file.originalname?.slice(0, 255) || null,
+              sourceUrl: sourceUrl ?? null,
+            }),
+          );
+        },
+      );
+      return this.toProductImage(image);
+    } catch (err) {
+      await this.deleteFiles([key, thumbnailKey]);
+      throw err;
+    }
+  }
+
+  // Изображение по ссылке из импорта; уже скачанная ссылка повторно не
+  // загружается. Формат проверяет processImage, Content-Type сервера не
+  // учитывается. created — добавлено ли новое изображение
+  async addFromUrl(
+    productId: number,
+    url: string,
+  ): Promise<{ image: ProductImage; created: boolean }> {
+    const existing = await this.imagesRepo.findOneBy({
+      productId,
+      sourceUrl: url,
+    });
+    if (existing) {
+      return { image: this.toProductImage(existing), created: false };
+    }
+    const { buffer } = await fetchRemoteFile(url, {
+      maxSize: MAX_IMAGE_SIZE,
+      allowedHosts: parseAllowedHosts(
+        this.configService.get<string>('FETCH_ALLOWED_HOSTS'),
+      ),
+    });
+    const image = await this.upload(
+      productId,
+      { originalname: fileNameFromUrl(url, 'image'), buffer },
+      url,
+    );
+    return { image, created: true };
+  }
+
+  // imageIds — все изображения товара в новом порядке
+  async reorder(
+    productId: number,
+    imageIds: number[],
+  ): Promise<ProductImage[]> {
+    await this.assertProductExists(productId);
+    const images = await this.imagesRepo.findBy({ productId });
+    const known = new Set(images.map((image) => image.id));
+    if (
+      imageIds.length !== images.length ||
+      imageIds.some((id) => !known.has(id))
+    ) {
+      throw new BadRequestException(
+        'imageIds должен содержать все изображения товара, каждое по одному разу',
+      );
+    }
+
+    await this.imagesRepo.manager.transaction(async (manager) => {
+      const repo = manager.getRepository(ProductImageEntity);
+      for (const [position, id] of imageIds.entries()) {
+        await repo.update(id, { position });
+      }
+    });
+    return this.findImages(productId);
+  }
+
+  async setPrimary(
+    productId: number,
+    imageId: number,
+  ): Promise<ProductImage[]> {
+    await this.findImage(productId, imageId);
+    await this.imagesRepo.manager.transaction(async (manager) => {
+      const repo = manager.getRepository(ProductImageEntity);
+      await repo.update({ productId, isPrimary: true }, { isPrimary: false });
+      await repo.update(imageId, { isPrimary: true });
+    });
+    return this.findImages(productId);
+  }
+
+  // Вместо удалённого главного изображения главным становится первое
+  // в галерее
+  async remove(productId: number, imageId: number): Promise<void> {
+    const image = await this.findImage(productId, imageId);
+    await this.imagesRepo.manager.transaction(async (manager) => {
+      const repo = manager.getRepository(ProductImageEntity);
+      await repo.delete(imageId);
+      if (!image.isPrimary) return;
+
+      const next = await repo.findOne({
+        where: { productId },
+        order: { position: 'ASC', id: 'ASC' },
+      });
+      if (next) {
+        await repo.update(next.id, { isPrimary: true });
+      }
+    });
+    await this.deleteFiles([image.key, image.thumbnailKey]);
+  }
+
+  // Удаляет записи изображений окончательно удаляемых товаров и
+  // возвращает ключи файлов: файлы удаляются через deleteFiles после
+  // фиксации транзакции, чтобы откат не оставил записи без файлов
+  async removeForProducts(
+    productIds: number[],
+    manager?: EntityManager,
+  ): Promise<string[]> {
+    if (!productIds.length) return [];
+    const repo = manager
+      ? manager.getRepository(ProductImageEntity)
+      : this.imagesRepo;
+    const images = await repo.findBy({ productId: In(productIds) });
+    await repo.delete({ productId: In(productIds) });
+    return images.flatMap((image) => [image.key, image.thumbnailKey]);
+  }
+
+  // Ошибка удаления файла не отменяет уже выполненное удаление записи
+  async deleteFiles(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      try {
+        await this.storage.delete(key);
+      } catch {
+        // Файл останется в хранилище без записи — это безопасно
+      }
+    }
+  }
+
+  private async findImages(productId: number): Promise<ProductImage[]> {
+    const images = await this.imagesRepo.find({
+      where: { productId },
+      order: GALLERY_ORDER,
+    });
+    return images.map((image) => this.toProductImage(image));
+  }
+
+  private async findImage(
+    productId: number,
+    imageId: number,
+  ): Promise<ProductImageEntity> {
+    await this.assertProductExists(productId);
+    const image = await this.imagesRepo.findOneBy({ id: imageId, productId });
+    if (!image) {
+      throw new ImageNotFoundException(imageId);
+    }
+    return image;
+  }
+
+  private toProductImage(image: ProductImageEntity): ProductImage {
+    return {
+      id: image.id,
+      url: this.storage.url(image.key),
+      thumbnailUrl: this.storage.url(image.thumbnailKey),
+      width: image.width,
+      height: image.height,
+      position: image.position,
+      isPrimary: image.isPrimary,
+    };
+  }
+
+  private async assertProductExists(productId: number): Promise<void> {
+    if (!(await this.productsRepo.existsBy({ id: productId }))) {
+      throw new ProductNotFoundException({ id: productId });
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { ImageStorage } from './image-storage';
+
+// Файлы на локальном диске; rootDir раздаётся как статика по publicUrl
+// (см. main.ts)
+export class LocalImageStorage implements ImageStorage {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string, private readonly publicUrl: string) {
+    this.rootDir = resolve(rootDir);
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  url(key: string): string {
+    return `${this.publicUrl.replace(/\/$/, '')}/${key}`;
+  }
+
+  // Ключи формирует ImagesService, но выход за rootDir всё равно запрещён
+  private pathFor(key: string): string {
+    const path = resolve(this.rootDir, key);
+    if (!path.startsWith(this.rootDir + sep)) {
+      throw new Error(`Недопустимый ключ изображения: ${key}`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,56 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('product_images')
+@Index(['productId', 'position'])
+export class ProductImageEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'int' })
+  productId: number;
+
+  // Порядок в галерее товара, с 0
+  @Column({ type: 'int', default: 0 })
+  position: number;
+
+  // Главное изображение — обложка товара в каталоге, у товара оно одно
+  @Column({ type: 'boolean', default: false })
+  isPrimary: boolean;
+
+  // Ключи оригинала и превью в хранилище изображений
+  @Column({ type: 'varchar', length: 255 })
+  key: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  thumbnailKey: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  contentType: string;
+
+  @Column({ type: 'int' })
+  width: number;
+
+  @Column({ type: 'int' })
+  height: number;
+
+  // Размер оригинала в байтах
+  @Column({ type: 'int' })
+  size: number;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  originalName?: string | null;
+
+  // Ссылка, с которой изображение скачано при импорте; повторный импорт
+  // той же ссылки не добавляет копию
+  @Column({ type: 'varchar', length: 2048, nullable: true })
+  sourceUrl?: string | null;
+
+  @CreateDateColumn({ precision: 3 })
+  createdAt: Date;
+}
@@ -0,0 +1,93 @@
+import {
+  ImportColumnDto,
+  NumberLocale,
+  PRODUCT_IMPORT_FIELDS,
+  ProductImportField,
+} from '../dto/import-profile.dto';
+import { HeaderDetectionResult } from '../dto/import-result.dto';
+import { DEFAULT_COLUMN_MAPPING } from './product-row.parser';
+
+// Ключевые слова для заголовков, которых нет в сопоставлении по умолчанию
+const FIELD_KEYWORDS: Record<ProductImportField, string[]> = {
+  article: [
+    'артикул',
+    'кодтовара',
+    'код',
+    'sku',
+    'article',
+    'vendorcode',
+    'partnumber',
+  ],
+  name: ['наименование', 'название', 'товар', 'name', 'title', 'product'],
+  brand: ['бренд', 'марка', 'производитель', 'brand', 'manufacturer', 'vendor'],
+  price: ['цена', 'стоимость', 'price', 'cost'],
+  currency: ['валюта', 'currency'],
+  color: ['цвет', 'color', 'colour'],
+  country: ['страна', 'country', 'origin'],
+  category: ['категория', 'раздел', 'category'],
+  stock: ['остаток', 'наличие', 'количество', 'stock', 'qty', 'quantity'],
+  image: ['изображение', 'фото', 'картинка', 'image', 'photo', 'picture'],
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-zа-яё0-9]/g, '');
+}
+
+// 2 — точное совпадение с известным заголовком, 1 — по ключевому слову
+function scoreHeader(header: string, field: ProductImportField): number {
+  const known = DEFAULT_COLUMN_MAPPING.find((column) => column.field === field);
+  if (known?.headers.includes(header)) return 2;
+
+  const normalized = normalizeHeader(header);
+  return FIELD_KEYWORDS[field].some((keyword) => normalized.includes(keyword))
+    ? 1
+    : 0;
+}
+
+// Десятичная запятая в образцах цен — признак русской локали
+function guessNumberLocale(samples: unknown[]): NumberLocale | undefined {
+  const values = samples.map((sample) => String(sample ?? '').trim());
+  if (values.some((value) => /\d,\d{1,2}$/.test(value))) return 'ru';
+  if (values.some((value) => /\d,\d{3}\.\d/.test(value))) return 'en';
+  return undefined;
+}
+
+// Предлагает сопоставление колонок для незнакомого файла
+export function detectColumnMapping(
+  rows: Record<string, unknown>[],
+): HeaderDetectionResult {
+  const headers = Object.keys(rows[0] ?? {});
+  const used = new Set<string>();
+  const columns: ImportColumnDto[] = [];
+
+  for (const field of PRODUCT_IMPORT_FIELDS) {
+    let best: { header: string; score: number } | undefined;
+    for (const header of headers) {
+      if (used.has(header)) continue;
+      const score = scoreHeader(header, field);
+      if (score && (!best || score > best.score)) {
+        best = { header, score };
+      }
+    }
+    if (!best) continue;
+
+    used.add(best.header);
+    const column: ImportColumnDto = { field, headers: [best.header] };
+    if (field === 'price') {
+      const numberLocale = guessNumberLocale(
+        rows.slice(0, 50).map((row) => row[best!.header]),
+      );
+      if (numberLocale) column.numberLocale = numberLocale;
+    }
+    columns.push(column);
+  }
+
+  return {
+    headers,
+    columns,
+    unmappedHeaders: headers.filter((header) => !used.has(header)),
+    missingRequired: (['article', 'name'] as const).filter(
+      (field) => !columns.some((column) => column.field === field),
+    ),
+  };
+}
@@ -0,0 +1,135 @@
+import { HttpException } from '@nestjs/common';
+import * as Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { ImportDelimiter, ImportEncoding } from '../dto/import-query.dto';
+import { InvalidImportFileException } from '../errors/domain.exceptions';
+
+const ALLOWED_MIME_TYPES = [
+  'text/csv',
+  'text/tab-separated-values',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+// Загруженный файл или файл, скачанный по URL
+export interface ImportSource {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+// Строки одного листа; у CSV/TSV лист один и без имени
+export interface ImportSheet {
+  name?: string;
+  rows: Record<string, unknown>[];
+}
+
+export interface SheetOptions {
+  sheet?: string;
+  allSheets?: boolean;
+  encoding?: ImportEncoding;
+  delimiter?: ImportDelimiter;
+}
+
+const GUESSED_DELIMITERS = [',', ';', '\t', '|'];
+
+export function assertSupportedImportFile(file: ImportSource): void {
+  if (!file || !file.buffer) {
+    throw new InvalidImportFileException('Файл не загружен');
+  }
+
+  if (
+    !ALLOWED_MIME_TYPES.includes(file.mimetype) &&
+    !file.originalname.match(/\.(csv|tsv|xls|xlsx)$/i)
+  ) {
+    throw new InvalidImportFileException(
+      'Неподдерживаемый формат файла. Поддерживаются: CSV, TSV, XLS, XLSX',
+    );
+  }
+}
+
+export function readImportSheets(
+  file: ImportSource,
+  {
+    sheet,
+    allSheets,
+    encoding = 'auto',
+    delimiter = 'auto',
+  }: SheetOptions = {},
+): ImportSheet[] {
+  try {
+    if (isDelimitedFile(file)) {
+      // CSV/TSV; пустой delimiter — Papa определяет его сам
+      const text = decodeText(file.buffer, encoding);
+      const parsed = Papa.parse<Record<string, string>>(text, {
+        header: true,
+        skipEmptyLines: true,
+        delimiter: resolveDelimiter(file, delimiter),
+        delimitersToGuess: GUESSED_DELIMITERS,
+        transformHeader: (header) => header.trim(),
+      });
+      return [{ rows: parsed.data }];
+    }
+
+    // XLS/XLSX
+    const workbook = XLSX.read(file.buffer, { type: 'buffer' });
+    return selectSheetNames(workbook.SheetNames, { sheet, allSheets }).map(
+      (name) => ({
+        name,
+        rows: XLSX.utils.sheet_to_json(workbook.Sheets[name], {
+          defval: '',
+        }) as Record<string, unknown>[],
+      }),
+    );
+  } catch (err) {
+    if (err instanceof HttpException) throw err;
+    throw new InvalidImportFileException(`Ошибка чтения файла: ${err}`);
+  }
+}
+
+// Файлы поставщиков приходят в UTF-8 (иногда с BOM) или в Windows-1251:
+// текст, не являющийся корректным UTF-8, считается CP1251
+function decodeText(buffer: Buffer, encoding: ImportEncoding): string {
+  let text: string;
+  if (encoding === 'windows-1251') {
+    text = new TextDecoder('windows-1251').decode(buffer);
+  } else if (encoding === 'utf-8') {
+    text = new TextDecoder('utf-8').decode(buffer);
+  } else {
+    try {
+      text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    } catch {
+      text = new TextDecoder('windows-1251').decode(buffer);
+    }
+  }
+  return text.replace(/^\uFEFF/, '');
+}
+
+function resolveDelimiter(
+  file: ImportSource,
+  delimiter: ImportDelimiter,
+): string {
+  if (delimiter !== 'auto') return delimiter;
+  return file.originalname.match(/\.tsv$/i) ? '\t' : '';
+}
+
+function isDelimitedFile(file: ImportSource): boolean {
+  if (file.originalname.match(/\.(csv|tsv)$/i)) return true;
+  if (file.originalname.match(/\.(xls|xlsx)$/i)) return false;
+  return file.mimetype.startsWith('text/');
+}
+
+function selectSheetNames(
+  sheetNames: string[],
+  { sheet, allSheets }: SheetOptions,
+): string[] {
+  if (allSheets) return sheetNames;
+  if (!sheet) return sheetNames.slice(0, 1);
+
+  if (!sheetNames.includes(sheet)) {
+    throw new InvalidImportFileException(
+      `Лист «${sheet}» не найден. Доступные листы: ${sheetNames.join(', ')}`,
+    );
+  }
+  return [sheet];
+}
@@ -0,0 +1,58 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { ImportJobStatus, ImportMode } from '../dto/import-query.dto';
+import { ImportResult } from '../dto/import-result.dto';
+
+// Фоновое задание импорта и его прогресс
+@Entity('import_jobs')
+export class ImportJobEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', length: 20, default: 'pending' })
+  @Index()
+  status: ImportJobStatus;
+
+  @Column({ type: 'varchar', length: 255 })
+  fileName: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  mode: ImportMode;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  profile?: string;
+
+  // Пользователь, запустивший импорт
+  @Column({ type: 'int', nullable: true })
+  createdById?: number | null;
+
+  @Column({ type: 'int', default: 0 })
+  totalRows: number;
+
+  @Column({ type: 'int', default: 0 })
+  processedRows: number;
+
+  // Ошибки строк, известные до завершения задания
+  @Column({ type: 'jsonb', nullable: true })
+  errors?: string[];
+
+  @Column({ type: 'jsonb', nullable: true })
+  result?: ImportResult;
+
+  @Column({ type: 'text', nullable: true })
+  failureReason?: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt?: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt?: Date;
+}
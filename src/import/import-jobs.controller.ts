@@ -0,0 +1,38 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ImportJobsService } from './import-jobs.service';
+import { ImportJobEntity } from './import-job.entity';
+import { ImportJobsQueryDto } from '../dto/import-query.dto';
+import { Roles } from '../auth/roles.decorator';
+
+// История и прогресс фоновых заданий импорта
+@Controller('import/jobs')
+export class ImportJobsController {
+  constructor(private readonly jobsService: ImportJobsService) {}
+
+  @Get()
+  async getAll(@Query() query: ImportJobsQueryDto): Promise<ImportJobEntity[]> {
+    return this.jobsService.findAll(query);
+  }
+
+  @Get(':id')
+  async getOne(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<ImportJobEntity> {
+    return this.jobsService.findOne(id);
+  }
+
+  @Roles('editor')
+  @Post(':id/cancel')
+  async cancel(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<ImportJobEntity> {
+    return this.jobsService.cancel(id);
+  }
+}
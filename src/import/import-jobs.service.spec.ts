@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConflictException, Logger } from '@nestjs/common';
+import { ImportJobsService } from './import-jobs.service';
+import { ImportJobEntity } from './import-job.entity';
+import { ImportCancelledError, ImportService } from './import.service';
+
+const flushQueue = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('ImportJobsService', () => {
+  let service: ImportJobsService;
+  let jobsRepo: Record<string, jest.Mock>;
+  let importService: { importRows: jest.Mock };
+
+  beforeEach(async () => {
+    jobsRepo = {
+      create: jest.fn((data) => data),
+      save: jest.fn(async (data) => ({ id: 7, ...data })),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      findOneBy: jest.fn(),
+    };
+    importService = {
+      importRows: jest.fn().mockResolvedValue({ created: 2, errors: ['x'] }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImportJobsService,
+        { provide: getRepositoryToken(ImportJobEntity), useValue: jobsRepo },
+        { provide: ImportService, useValue: importService },
+      ],
+    }).compile();
+
+    service = module.get<ImportJobsService>(ImportJobsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('runs a queued job in the background and stores its result', async () => {
+    const job = await service.enqueue('price.csv', [{ rows: [{}, {}] }], {
+      mode: 'upsert',
+    });
+    expect(job).toMatchObject({ id: 7, status: 'pending', totalRows: 2 });
+
+    await flushQueue();
+
+    expect(jobsRepo.update).toHaveBeenCalledWith(
+      { id: 7, status: 'pending' },
+      expect.objectContaining({ status: 'running' }),
+    );
+    expect(jobsRepo.update).toHaveBeenCalledWith(
+      7,
+      expect.objectContaining({
+        status: 'completed',
+        processedRows: 2,
+        result: { created: 2, errors: ['x'] },
+      }),
+    );
+  });
+
+  it('marks a job cancelled when the import stops on cancellation', async () => {
+    importService.importRows.mockRejectedValue(new ImportCancelledError());
+
+    await service.enqueue('price.csv', [{ rows: [{}] }], { mode: 'upsert' });
+    await flushQueue();
+
+    expect(jobsRepo.update).toHaveBeenCalledWith(
+      7,
+      expect.objectContaining({ status: 'cancelled' }),
+    );
+  });
+
+  it('does not start a job cancelled after it left the queue', async () => {
+    jobsRepo.update.mockResolvedValueOnce({ affected: 0 });
+
+    await service.enqueue('price.csv', [{ rows: [{}] }], { mode: 'upsert' });
+    await flushQueue();
+
+    expect(importService.importRows).not.toHaveBeenCalled();
+    expect(jobsRepo.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels a job that started meanwhile as a running one', async () => {
+    jobsRepo.findOneBy
+      .mockResolvedValueOnce({ id: 7, status: 'pending' })
+      .mockResolvedValueOnce({ id: 7, status: 'running' });
+    jobsRepo.update.mockResolvedValueOnce({ affected: 0 });
+
+    await expect(service.cancel(7)).resolves.toMatchObject({
+      status: 'running',
+    });
+    expect(jobsRepo.update).toHaveBeenCalledWith(
+      { id: 7, status: 'pending' },
+      expect.objectContaining({ status: 'cancelled' }),
+    );
+  });
+
+  it('logs a job status that could not be saved instead of rejecting', async () => {
+    const logger = jest
+      .spyOn(Logger.prototype, 'error')
+      .mockImplementation(() => undefined);
+    importService.importRows.mockRejectedValue(new Error('boom'));
+    jobsRepo.update
+      .mockResolvedValueOnce({ affected: 1 })
+      .mockRejectedValue(new Error('connection lost'));
+
+    await service.enqueue('price.csv', [{ rows: [{}] }], { mode: 'upsert' });
+    await flushQueue();
+
+    expect(logger).toHaveBeenCalledWith(
+      'Import job 7 status was not saved: Error: connection lost',
+    );
+    logger.mockRestore();
+  });
+
+  it('refuses to cancel a finished job', async () => {
+    jobsRepo.findOneBy.mockResolvedValue({ id: 7, status: 'completed' });
+
+    await expect(service.cancel(7)).rejects.toBeInstanceOf(ConflictException);
+  });
+});
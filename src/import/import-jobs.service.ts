@@ -0,0 +1,218 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { ImportJobEntity } from './import-job.entity';
+import {
+  ImportCancelledError,
+  ImportOptions,
+  ImportService,
+} from './import.service';
+import { ImportSheet } from './import-file.reader';
+import { ImportJobStatus, ImportJobsQueryDto } from '../dto/import-query.dto';
+
+// Первые N ошибок строк сохраняются в задании ещё до его завершения
+const MAX_STORED_ERRORS = 100;
+
+interface QueuedJob {
+  jobId: number;
+  sheets: ImportSheet[];
+  totalRows: number;
+  options: ImportOptions;
+}
+
+// Очередь импорта в памяти процесса: задания выполняются по одному,
+// прогресс и результат сохраняются в import_jobs. Рассчитана на один
+// экземпляр приложения: очередь и отмена не разделяются между процессами,
+// а при старте незавершённые задания всей таблицы считаются прерванными
+@Injectable()
+export class ImportJobsService implements OnModuleInit {
+  private readonly logger = new Logger(ImportJobsService.name);
+  private readonly queue: QueuedJob[] = [];
+  private readonly cancelled = new Set<number>();
+  private draining: Promise<void> | null = null;
+
+  constructor(
+    @InjectRepository(ImportJobEntity)
+    private readonly jobsRepo: Repository<ImportJobEntity>,
+    private readonly importService: ImportService,
+  ) {}
+
+  // Задания, прерванные перезапуском, уже не продолжатся
+  async onModuleInit(): Promise<void> {
+    await this.jobsRepo.update(
+      { status: In(['pending', 'running']) },
+      {
+        status: 'failed',
+        failureReason: 'Прервано перезапуском сервера',
+        finishedAt: new Date(),
+      },
+    );
+  }
+
+  async enqueue(
+    fileName: string,
+    sheets: ImportSheet[],
+    options: ImportOptions & { profile?: string },
+  ): Promise<ImportJobEntity> {
+    const totalRows = sheets.reduce((sum, sheet) => sum + sheet.rows.length, 0);
+    const job = await this.jobsRepo.save(
+      this.jobsRepo.create({
+        status: 'pending',
+        fileName,
+        mode: options.mode,
+        profile: options.profile,
+        createdById: options.actorId,
+        totalRows,
+      }),
+    );
+
+    this.queue.push({ jobId: job.id, sheets, totalRows, options });
+    this.drain();
+    return job;
+  }
+
+  async findAll(query: ImportJobsQueryDto): Promise<ImportJobEntity[]> {
+    return this.jobsRepo.find({
+      where: query.status ? { status: query.status } : {},
+      order: { createdAt: 'DESC' },
+      take: query.limit,
+    });
+  }
+
+  async findOne(id: number): Promise<ImportJobEntity> {
+    const job = await this.jobsRepo.findOneBy({ id });
+    if (!job) {
+      throw new NotFoundException(`Задание импорта ${id} не найдено`);
+    }
+    return job;
+  }
+
+  async cancel(id: number): Promise<ImportJobEntity> {
+    const job = await this.findOne(id);
+
+    if (job.status === 'pending') {
+      const index = this.queue.findIndex((queued) => queued.jobId === id);
+      if (index !== -1) this.queue.splice(index, 1);
+      // Задание могло уже уйти в работу: тогда отменяется как выполняющееся
+      const cancelled = await this.transition(id, 'pending', {
+        status: 'cancelled',
+        finishedAt: new Date(),
+      });
+      if (cancelled) {
+        return this.findOne(id);
+      }
+      return this.cancel(id);
+    }
+
+    if (job.status === 'running') {
+      // Выполняющееся задание остановится на границе пачки
+      this.cancelled.add(id);
+      return job;
+    }
+
+    throw new ConflictException(
+      `Задание импорта ${id} уже завершено со статусом ${job.status}`,
+    );
+  }
+
+  private drain(): void {
+    if (this.draining) return;
+
+    this.draining = (async () => {
+      let next: QueuedJob | undefined;
+      while ((next = this.queue.shift())) {
+        await this.run(next);
+      }
+    })()
+      .catch((err) => this.logger.error(`Import queue stopped: ${err}`))
+      .finally(() => {
+        this.draining = null;
+      });
+  }
+
+  private async run({
+    jobId,
+    sheets,
+    totalRows,
+    options,
+  }: QueuedJob): Promise<void> {
+    try {
+      // Задание, отменённое после выхода из очереди, не запускается
+      const started = await this.transition(jobId, 'pending', {
+        status: 'running',
+        startedAt: new Date(),
+      });
+      if (!started) return;
+
+      const result = await this.importService.importRows(
+        sheets,
+        { ...options, jobId },
+        {
+          onRowErrors: (errors) =>
+            this.jobsRepo
+              .update(jobId, { errors: errors.slice(0, MAX_STORED_ERRORS) })
+              .then(() => undefined),
+          onProgress: (processedRows) =>
+            this.jobsRepo
+              .update(jobId, { processedRows })
+              .then(() => undefined),
+          isCancelled: () => this.cancelled.has(jobId),
+        },
+      );
+
+      await this.finish(jobId, {
+        status: 'completed',
+        processedRows: totalRows,
+        errors: result.errors?.slice(0, MAX_STORED_ERRORS),
+        result,
+      });
+    } catch (err) {
+      await this.fail(jobId, err).catch((saveErr) =>
+        this.logger.error(
+          `Import job ${jobId} status was not saved: ${saveErr}`,
+        ),
+      );
+    } finally {
+      this.cancelled.delete(jobId);
+    }
+  }
+
+  private async fail(jobId: number, err: unknown): Promise<void> {
+    if (err instanceof ImportCancelledError) {
+      await this.finish(jobId, { status: 'cancelled' });
+      return;
+    }
+    this.logger.error(`Import job ${jobId} failed: ${err}`);
+    await this.finish(jobId, {
+      status: 'failed',
+      failureReason: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  private async finish(
+    jobId: number,
+    changes: Partial<ImportJobEntity>,
+  ): Promise<void> {
+    await this.jobsRepo.update(jobId, { ...changes, finishedAt: new Date() });
+  }
+
+  // Меняет статус, только если задание всё ещё в статусе from: отмена и
+  // запуск из очереди не перезаписывают друг друга. false — статус уже другой
+  private async transition(
+    jobId: number,
+    from: ImportJobStatus,
+    changes: Partial<ImportJobEntity>,
+  ): Promise<boolean> {
+    const { affected } = await this.jobsRepo.update(
+      { id: jobId, status: from },
+      changes,
+    );
+    return !!affected;
+  }
+}
@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ImportProfilesController } from './import-profiles.controller';
+import { ImportProfilesService } from './import-profiles.service';
+
+describe('ImportProfilesController', () => {
+  let controller: ImportProfilesController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ImportProfilesController],
+      providers: [{ provide: ImportProfilesService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<ImportProfilesController>(ImportProfilesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+} from '@nestjs/common';
+import { ImportProfilesService } from './import-profiles.service';
+import { ImportProfileEntity } from './import-profile.entity';
+import {
+  CreateImportProfileDto,
+  UpdateImportProfileDto,
+} from '../dto/import-profile.dto';
+import { Roles } from '../auth/roles.decorator';
+
+// Профили сопоставления колонок для файлов поставщиков
+@Controller('import/profiles')
+export class ImportProfilesController {
+  constructor(private readonly profilesService: ImportProfilesService) {}
+
+  @Get()
+  async getAll(): Promise<ImportProfileEntity[]> {
+    return this.profilesService.findAll();
+  }
+
+  @Get(':name')
+  async getOne(@Param('name') name: string): Promise<ImportProfileEntity> {
+    return this.profilesService.findByName(name);
+  }
+
+  @Roles('editor')
+  @Post()
+  async create(
+    @Body() createProfileDto: CreateImportProfileDto,
+  ): Promise<ImportProfileEntity> {
+    return this.profilesService.create(createProfileDto);
+  }
+
+  @Roles('editor')
+  @Put(':name')
+  async update(
+    @Param('name') name: string,
+    @Body() updateProfileDto: UpdateImportProfileDto,
+  ): Promise<ImportProfileEntity> {
+    return this.profilesService.update(name, updateProfileDto);
+  }
+
+  @Roles('editor')
+  @Delete(':name')
+  async remove(@Param('name') name: string): Promise<{ message: string }> {
+    await this.profilesService.remove(name);
+    return { message: 'Профиль импорта удален' };
+  }
+}
@@ -0,0 +1,69 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ImportProfilesService } from './import-profiles.service';
+import { ImportProfileEntity } from './import-profile.entity';
+
+describe('ImportProfilesService', () => {
+  let service: ImportProfilesService;
+  let profilesRepo: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    profilesRepo = {
+      findOneBy: jest.fn().mockResolvedValue(null),
+      create: jest.fn((data) => data),
+      save: jest.fn(async (data) => ({ id: 1, ...data })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImportProfilesService,
+        {
+          provide: getRepositoryToken(ImportProfileEntity),
+          useValue: profilesRepo,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ImportProfilesService>(ImportProfilesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('saves a profile that maps the required fields', async () => {
+    const profile = await service.create({
+      name: 'supplierX',
+      columns: [
+        { field: 'article', headers: ['Код товара'] },
+        { field: 'name', headers: ['Наименование'] },
+      ],
+    });
+
+    expect(profile).toMatchObject({ id: 1, name: 'supplierX' });
+  });
+
+  it('rejects a profile without the article column', async () => {
+    await expect(
+      service.create({
+        name: 'supplierX',
+        columns: [{ field: 'name', headers: ['Наименование'] }],
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('rejects a duplicate profile name', async () => {
+    profilesRepo.findOneBy.mockResolvedValue({ id: 1, name: 'supplierX' });
+
+    await expect(
+      service.create({
+        name: 'supplierX',
+        columns: [
+          { field: 'article', headers: ['Код товара'] },
+          { field: 'name', headers: ['Наименование'] },
+        ],
+      }),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ImportProfileEntity } from './import-profile.entity';
+import {
+  CreateImportProfileDto,
+  ImportColumnDto,
+  UpdateImportProfileDto,
+} from '../dto/import-profile.dto';
+
+@Injectable()
+export class ImportProfilesService {
+  constructor(
+    @InjectRepository(ImportProfileEntity)
+    private readonly profilesRepo: Repository<ImportProfileEntity>,
+  ) {}
+
+  async findAll(): Promise<ImportProfileEntity[]> {
+    return this.profilesRepo.find({ order: { name: 'ASC' } });
+  }
+
+  async findByName(name: string): Promise<ImportProfileEntity> {
+    const profile = await this.profilesRepo.findOneBy({ name });
+    if (!profile) {
+      throw new NotFoundException(`Профиль импорта ${name} не найден`);
+    }
+    return profile;
+  }
+
+  async create(data: CreateImportProfileDto): Promise<ImportProfileEntity> {
+    if (await this.profilesRepo.findOneBy({ name: data.name })) {
+      throw new ConflictException(
+        `Профиль импорта ${data.name} уже существует`,
+      );
+    }
+    assertValidColumns(data.columns);
+
+    return this.profilesRepo.save(this.profilesRepo.create(data));
+  }
+
+  async update(
+    name: string,
+    data: UpdateImportProfileDto,
+  ): Promise<ImportProfileEntity> {
+    const profile = await this.findByName(name);
+    if (data.name && data.name !== name) {
+      if (await this.profilesRepo.findOneBy({ name: data.name })) {
+        throw new ConflictException(
+          `Профиль импорта ${data.name} уже существует`,
+        );
+      }
+    }
+    if (data.columns) {
+      assertValidColumns(data.columns);
+    }
+
+    return this.profilesRepo.save(this.profilesRepo.merge(profile, data));
+  }
+
+  async remove(name: string): Promise<void> {
+    const profile = await this.findByName(name);
+    await this.profilesRepo.remove(profile);
+  }
+}
+
+// Профиль должен сопоставлять обязательные поля и не дублировать их
+function assertValidColumns(columns: ImportColumnDto[]): void {
+  const fields = columns.map((column) => column.field);
+  const duplicated = fields.filter(
+    (field, index) => fields.indexOf(field) !== index,
+  );
+  if (duplicated.length) {
+    throw new BadRequestException(
+      `Поле сопоставлено несколько раз: ${[...new Set(duplicated)].join(', ')}`,
+    );
+  }
+
+  const missing = ['article', 'name'].filter(
+    (field) => !fields.includes(field as ImportColumnDto['field']),
+  );
+  if (missing.length) {
+    throw new BadRequestException(
+      `Профиль не сопоставляет обязательные поля: ${missing.join(', ')}`,
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { ImportSource } from './import-file.reader';
+import {
+  fetchRemoteFile,
+  fileNameFromUrl,
+} from '../common/remote-file.fetcher';
+
+const MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+const EXTENSIONS_BY_MIME_TYPE: Record<string, string> = {
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'tsv',
+  'application/vnd.ms-excel': 'xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+};
+
+// Скачивает файл поставщика; имя берётся из пути URL, а если в нём нет
+// расширения — из Content-Type. allowedHosts — хосты внутренней сети,
+// с которых можно скачивать
+export async function fetchImportFile(
+  url: string,
+  allowedHosts?: string[],
+): Promise<ImportSource> {
+  const { buffer, contentType } = await fetchRemoteFile(url, {
+    maxSize: MAX_FILE_SIZE,
+    allowedHosts,
+  });
+
+  let originalname = fileNameFromUrl(url, 'import');
+  if (!originalname.match(/\.(csv|tsv|xls|xlsx)$/i)) {
+    const extension = EXTENSIONS_BY_MIME_TYPE[contentType];
+    if (extension) originalname = `${originalname}.${extension}`;
+  }
+
+  return { originalname, mimetype: contentType, buffer };
+}
@@ -0,0 +1,209 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Response } from 'express';
+import * as XLSX from 'xlsx';
+import { ImportController } from './import.controller';
+import { ImportService } from './import.service';
+import { ImportProfilesService } from './import-profiles.service';
+import { ImportJobsService } from './import-jobs.service';
+
+describe('ImportController', () => {
+  let controller: ImportController;
+  let importService: { importRows: jest.Mock };
+
+  beforeEach(async () => {
+    importService = { importRows: jest.fn().mockResolvedValue({}) };
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ImportController],
+      providers: [
+        { provide: ImportService, useValue: importService },
+        { provide: ImportProfilesService, useValue: {} },
+        { provide: ImportJobsService, useValue: {} },
+        // Тестовый сервер слушает 127.0.0.1
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue('127.0.0.1') },
+        },
+      ],
+    }).compile();
+
+    controller = module.get<ImportController>(ImportController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('suggests a column mapping for an unknown supplier file', async () => {
+    const file = {
+      originalname: 'supplier.csv',
+      mimetype: 'text/csv',
+      buffer: Buffer.from(
+        'Код товара,Наименование,Цена опт,Примечание\nA-1,Кеды,"1 299,50",\n',
+      ),
+    } as Express.Multer.File;
+
+    const result = await controller.detectColumns(file);
+
+    expect(result.columns).toEqual([
+      { field: 'article', headers: ['Код товара'] },
+      { field: 'name', headers: ['Наименование'] },
+      { field: 'price', headers: ['Цена опт'], numberLocale: 'ru' },
+    ]);
+    expect(result.unmappedHeaders).toEqual(['Примечание']);
+    expect(result.missingRequired).toEqual([]);
+  });
+
+  it('reads a Windows-1251 file with semicolon delimiter', async () => {
+    // А–я в CP1251 занимают байты 0xC0–0xFF
+    const cp1251 = (text: string) =>
+      Buffer.from(
+        [...text].map((char) => {
+          const code = char.charCodeAt(0);
+          return code >= 0x410 && code <= 0x44f ? code - 0x350 : code;
+        }),
+      );
+    const file = {
+      originalname: 'supplier.csv',
+      mimetype: 'text/csv',
+      buffer: cp1251('Артикул;Наименование;Цена\nA-1;Кеды;1 299,50\n'),
+    } as Express.Multer.File;
+
+    const result = await controller.detectColumns(file);
+
+    expect(result.headers).toEqual(['Артикул', 'Наименование', 'Цена']);
+    expect(result.missingRequired).toEqual([]);
+  });
+
+  it('strips the UTF-8 BOM from the first header', async () => {
+    const file = {
+      originalname: 'supplier.tsv',
+      mimetype: 'text/tab-separated-values',
+      buffer: Buffer.from('\uFEFFАртикул\tНаименование\nA-1\tКеды\n'),
+    } as Express.Multer.File;
+
+    const result = await controller.detectColumns(file);
+
+    expect(result.headers).toEqual(['Артикул', 'Наименование']);
+  });
+
+  describe('importUrl', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([
+          ['Артикул', 'Название товара'],
+          ['A-1', 'Кеды'],
+        ]),
+        'Обувь',
+      );
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([
+          ['Артикул', 'Название товара'],
+          ['B-2', 'Шапка'],
+        ]),
+        'Шапки',
+      );
+      const xlsx: Buffer = XLSX.write(workbook, {
+        type: 'buffer',
+        bookType: 'xlsx',
+      });
+
+      server = createServer((req, res) => {
+        if (req.url === '/price') {
+          res.setHeader(
+            'Content-Type',
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          );
+          res.end(xlsx);
+          return;
+        }
+        res.statusCode = 404;
+        res.end();
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    const res = { status: jest.fn() } as unknown as Response;
+    const query = {
+      mode: 'upsert',
+      dryRun: true,
+      allSheets: false,
+      encoding: 'auto',
+      delimiter: 'auto',
+    } as const;
+    const editor = {
+      id: 7,
+      email: 'editor@example.com',
+      role: 'editor',
+    } as const;
+
+    it('downloads a workbook and reads all of its sheets', async () => {
+      await controller.importUrl(
+        { url: `${baseUrl}/price` },
+        { ...query, allSheets: true },
+        editor,
+        res,
+      );
+
+      expect(importService.importRows).toHaveBeenCalledWith(
+        [
+          {
+            name: 'Обувь',
+            rows: [{ Артикул: 'A-1', 'Название товара': 'Кеды' }],
+          },
+          {
+            name: 'Шапки',
+            rows: [{ Артикул: 'B-2', 'Название товара': 'Шапка' }],
+          },
+        ],
+        expect.objectContaining({ mode: 'upsert', actorId: 7 }),
+      );
+    });
+
+    it('allows replaceAll only to admins', async () => {
+      await expect(
+        controller.importUrl(
+          { url: `${baseUrl}/price` },
+          { ...query, mode: 'replaceAll', dryRun: false },
+          editor,
+          res,
+        ),
+      ).rejects.toMatchObject({ status: 403 });
+    });
+
+    it('rejects an unknown sheet name', async () => {
+      await expect(
+        controller.importUrl(
+          { url: `${baseUrl}/price` },
+          { ...query, sheet: 'Куртки' },
+          editor,
+          res,
+        ),
+      ).rejects.toThrow('Лист «Куртки» не найден');
+    });
+
+    it('reports a failed download as a bad gateway', async () => {
+      await expect(
+        controller.importUrl(
+          { url: `${baseUrl}/missing.csv` },
+          query,
+          editor,
+          res,
+        ),
+      ).rejects.toMatchObject({ status: 502 });
+    });
+  });
+});
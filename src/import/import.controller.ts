@@ -0,0 +1,127 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  HttpStatus,
+  Post,
+  Query,
+  Res,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Response } from 'express';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ImportService } from './import.service';
+import { ImportProfilesService } from './import-profiles.service';
+import { ImportJobsService } from './import-jobs.service';
+import {
+  ImportJobStatus,
+  ImportQueryDto,
+  ImportUrlDto,
+} from '../dto/import-query.dto';
+import { HeaderDetectionResult, ImportResult } from '../dto/import-result.dto';
+import {
+  ImportSource,
+  assertSupportedImportFile,
+  readImportSheets,
+} from './import-file.reader';
+import { fetchImportFile } from './import-url.fetcher';
+import { parseAllowedHosts } from '../common/remote-file.fetcher';
+import { detectColumnMapping } from './header-detector';
+import { Roles, hasRole } from '../auth/roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { AuthUser } from '../dto/auth.dto';
+
+type ImportResponse = ImportResult | { jobId: number; status: ImportJobStatus };
+
+// Контроллер импорта CSV/TSV/XLS/XLSX файлов
+@Roles('editor')
+@Controller('import')
+export class ImportController {
+  constructor(
+    private readonly importService: ImportService,
+    private readonly profilesService: ImportProfilesService,
+    private readonly jobsService: ImportJobsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Post()
+  @UseInterceptors(FileInterceptor('file'))
+  async importFile(
+    @UploadedFile() file: Express.Multer.File,
+    @Query() query: ImportQueryDto,
+    @CurrentUser() user: AuthUser,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ImportResponse> {
+    return this.startImport(file, query, user, res);
+  }
+
+  // Файл поставщика по ссылке: { "url": "https://..." }
+  @Post('url')
+  async importUrl(
+    @Body() { url }: ImportUrlDto,
+    @Query() query: ImportQueryDto,
+    @CurrentUser() user: AuthUser,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ImportResponse> {
+    const allowedHosts = parseAllowedHosts(
+      this.configService.get<string>('FETCH_ALLOWED_HOSTS'),
+    );
+    const file = await fetchImportFile(url, allowedHosts);
+    return this.startImport(file, query, user, res);
+  }
+
+  // Предлагает сопоставление колонок, которое можно сохранить как профиль
+  @Post('detect')
+  @UseInterceptors(FileInterceptor('file'))
+  async detectColumns(
+    @UploadedFile() file: Express.Multer.File,
+  ): Promise<HeaderDetectionResult> {
+    assertSupportedImportFile(file);
+    const [sheet] = readImportSheets(file);
+    return detectColumnMapping(sheet?.rows ?? []);
+  }
+
+  // dryRun выполняется сразу и возвращает отчёт, остальные импорты
+  // ставятся в очередь: ответ 202 с id задания (GET /import/jobs/:id)
+  private async startImport(
+    source: ImportSource,
+    query: ImportQueryDto,
+    user: AuthUser,
+    res: Response,
+  ): Promise<ImportResponse> {
+    // replaceAll удаляет отсутствующие в файле товары — это массовое удаление
+    if (
+      query.mode === 'replaceAll' &&
+      !query.dryRun &&
+      !hasRole(user, 'admin')
+    ) {
+      throw new ForbiddenException(
+        'Импорт в режиме replaceAll доступен только администраторам',
+      );
+    }
+    assertSupportedImportFile(source);
+    const profile = query.profile
+      ? await this.profilesService.findByName(query.profile)
+      : undefined;
+    const sheets = readImportSheets(source, query);
+    const options = {
+      ...query,
+      columns: profile?.columns,
+      actorId: user.id,
+    };
+
+    if (query.dryRun) {
+      return this.importService.importRows(sheets, options);
+    }
+
+    const job = await this.jobsService.enqueue(
+      source.originalname,
+      sheets,
+      options,
+    );
+    res.status(HttpStatus.ACCEPTED);
+    return { jobId: job.id, status: job.status };
+  }
+}
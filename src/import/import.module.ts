@@ -0,0 +1,42 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ImportService } from './import.service';
+import { ImportProfilesService } from './import-profiles.service';
+import { ImportJobsService } from './import-jobs.service';
+import { ImportController } from './import.controller';
+import { ImportProfilesController } from './import-profiles.controller';
+import { ImportJobsController } from './import-jobs.controller';
+import { ProductEntity } from '../products/product.entity';
+import { ImportProfileEntity } from './import-profile.entity';
+import { ImportJobEntity } from './import-job.entity';
+import { AuditModule } from '../audit/audit.module';
+import { PricesModule } from '../prices/prices.module';
+import { CurrenciesModule } from '../currencies/currencies.module';
+import { CategoriesModule } from '../categories/categories.module';
+import { AttributesModule } from '../attributes/attributes.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { ImagesModule } from '../images/images.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      ProductEntity,
+      ImportProfileEntity,
+      ImportJobEntity,
+    ]),
+    AuditModule,
+    PricesModule,
+    CurrenciesModule,
+    CategoriesModule,
+    AttributesModule,
+    InventoryModule,
+    ImagesModule,
+  ],
+  providers: [ImportService, ImportProfilesService, ImportJobsService],
+  controllers: [
+    ImportController,
+    ImportProfilesController,
+    ImportJobsController,
+  ],
+})
+export class ImportModule {}
@@ -0,0 +1,805 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { ImportCancelledError, ImportService } from './import.service';
+import { AuditService } from '../audit/audit.service';
+import { PricesService } from '../prices/prices.service';
+import { CurrenciesService } from '../currencies/currencies.service';
+import { CategoriesService } from '../categories/categories.service';
+import { AttributesService } from '../attributes/attributes.service';
+import { WarehousesService } from '../inventory/warehouses.service';
+import { StockService } from '../inventory/stock.service';
+import { ImagesService } from '../images/images.service';
+
+describe('ImportService', () => {
+  let service: ImportService;
+  // decimal-колонки pg возвращает строками
+  let existing: Record<string, unknown>[];
+  let repo: Record<string, jest.Mock>;
+  let deleteQuery: Record<string, jest.Mock>;
+  // Отсутствующие в файле товары с вариантами
+  let parents: Record<string, unknown>[];
+  let auditService: { record: jest.Mock };
+  let pricesService: { record: jest.Mock };
+  let currenciesService: { findKnownCodes: jest.Mock };
+  let categoriesService: { resolvePaths: jest.Mock };
+  let attributesService: { findAll: jest.Mock; categoryScopes: jest.Mock };
+  let warehousesService: { findForImport: jest.Mock };
+  let stockService: { applyCounts: jest.Mock };
+  let imagesService: { addFromUrl: jest.Mock };
+
+  beforeEach(async () => {
+    existing = [
+      { id: 1, article: 'A-1', name: 'Кеды', price: '100.00', currency: 'RUB' },
+    ];
+    deleteQuery = {
+      softDelete: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      returning: jest.fn().mockReturnThis(),
+      execute: jest.fn().mockResolvedValue({
+        affected: 1,
+        raw: [{ id: 9, article: 'Z-9', name: 'Шарф', price: '50.00' }],
+      }),
+    };
+    parents = [];
+    const parentsQuery = {
+      orderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getMany: jest.fn(async () => parents),
+    };
+    const findQuery = {
+      withDeleted: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn(() => parentsQuery),
+      getMany: jest.fn(async () => existing),
+      getCount: jest.fn().mockResolvedValue(1),
+    };
+    repo = {
+      createQueryBuilder: jest.fn((alias?: string) =>
+        alias ? findQuery : deleteQuery,
+      ),
+      create: jest.fn((data) => data),
+      insert: jest.fn(async (items: unknown[]) => ({
+        identifiers: items.map((_, index) => ({ id: index + 2 })),
+      })),
+      update: jest.fn(),
+    };
+    const dataSource = {
+      transaction: jest.fn((work) => work({ getRepository: () => repo })),
+    };
+
+    auditService = { record: jest.fn() };
+    pricesService = { record: jest.fn() };
+    currenciesService = {
+      findKnownCodes: jest.fn(async () => new Set(['RUB', 'EUR'])),
+    };
+    attributesService = {
+      findAll: jest.fn().mockResolvedValue([]),
+      categoryScopes: jest.fn(async () => new Map([[5, new Set([2, 5])]])),
+    };
+    warehousesService = {
+      findForImport: jest.fn(async () => ({ id: 3, code: 'MSK' })),
+    };
+    stockService = { applyCounts: jest.fn().mockResolvedValue(2) };
+    imagesService = {
+      addFromUrl: jest.fn(async () => ({ image: {}, created: true })),
+    };
+    categoriesService = {
+      resolvePaths: jest.fn(async () => ({
+        ids: new Map([['Обувь/Кроссовки', 5]]),
+        created: ['Обувь/Кроссовки'],
+      })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImportService,
+        { provide: DataSource, useValue: dataSource },
+        { provide: AuditService, useValue: auditService },
+        { provide: PricesService, useValue: pricesService },
+        { provide: CurrenciesService, useValue: currenciesService },
+        { provide: CategoriesService, useValue: categoriesService },
+        { provide: AttributesService, useValue: attributesService },
+        { provide: WarehousesService, useValue: warehousesService },
+        { provide: StockService, useValue: stockService },
+        { provide: ImagesService, useValue: imagesService },
+      ],
+    }).compile();
+
+    service = module.get<ImportService>(ImportService);
+  });
+
+  const rows: Record<string, string>[] = [
+    { Артикул: 'A-1', 'Название товара': 'Кеды', 'Цена, руб.*': '120' },
+    { Артикул: 'B-2', 'Название товара': 'Кроссовки' },
+    { Артикул: '', 'Название товара': 'Без артикула' },
+  ];
+
+  it('skips existing articles in insertOnly mode', async () => {
+    const result = await service.importRows([{ rows }], { mode: 'insertOnly' });
+
+    expect(result).toMatchObject({ created: 1, updated: 0, imported: 1 });
+    expect(result.duplicates).toHaveLength(1);
+    expect(result.errors).toHaveLength(1);
+    expect(repo.update).not.toHaveBeenCalled();
+  });
+
+  it('updates changed fields of existing articles in upsert mode', async () => {
+    const result = await service.importRows([{ rows }], { mode: 'upsert' });
+
+    expect(result).toMatchObject({ created: 1, updated: 1, unchanged: 0 });
+    expect(repo.update).toHaveBeenCalledWith(1, { price: 120 });
+  });
+
+  it('reads attribute values from columns named after attributes', async () => {
+    attributesService.findAll.mockResolvedValue([
+      { code: 'size', name: 'Размер', type: 'enum', allowedValues: ['42'] },
+      { code: 'waterproof', name: 'Водонепроницаемость', type: 'boolean' },
+    ]);
+    existing[0].attributes = { waterproof: true };
+
+    const result = await service.importRows(
+      [
+        {
+          rows: [
+            { Артикул: 'A-1', 'Название товара': 'Кеды', размер: '42' },
+            { Артикул: 'B-2', 'Название товара': 'Кроссовки', Размер: '50' },
+            {
+              Артикул: 'C-3',
+              'Название товара': 'Сапоги',
+              Водонепроницаемость: 'да',
+            },
+          ],
+        },
+      ],
+      { mode: 'upsert' },
+    );
+
+    expect(repo.update).toHaveBeenCalledWith(1, {
+      attributes: { waterproof: true, size: '42' },
+    });
+    expect(repo.insert).toHaveBeenCalledWith([
+      expect.objectContaining({
+        article: 'C-3',
+        attributes: { waterproof: true },
+      }),
+    ]);
+    expect(result.errors).toEqual([
+      'Строка 3: Размер — Размер: допустимые значения — 42',
+    ]);
+  });
+
+  it('rejects category attributes outside the product category', async () => {
+    attributesService.findAll.mockResolvedValue([
+      {
+        code: 'size',
+        name: 'Размер',
+        type: 'enum',
+        allowedValues: ['42'],
+        categoryId: 2,
+      },
+    ]);
+    existing[0].attributes = { size: '42' };
+    existing[0].categoryId = 5;
+    categoriesService.resolvePaths.mockResolvedValueOnce({
+      ids: new Map([
+        ['Шарфы', 7],
+        ['Обувь/Кроссовки', 5],
+      ]),
+      created: [],
+    });
+
+    const result = await service.importRows(
+      [
+        {
+          rows: [
+            { Артикул: 'A-1', 'Название товара': 'Кеды', Категория: 'Шарфы' },
+            { Артикул: 'B-2', 'Название товара': 'Кроссовки', Размер: '42' },
+            {
+              Артикул: 'C-3',
+              'Название товара': 'Сапоги',
+              Категория: 'Обувь/Кроссовки',
+              Размер: '42',
+            },
+          ],
+        },
+      ],
+      { mode: 'upsert', dryRun: true },
+    );
+
+    expect(result.rows!.map((row) => row.action)).toEqual([
+      'invalid',
+      'invalid',
+      'create',
+    ]);
+    expect(result.errors).toEqual([
+      'Строка 2: Размер — Размер: атрибут не относится к категории товара',
+      'Строка 3: Размер — Размер: атрибут не относится к категории товара',
+    ]);
+  });
+
+  it('sets stock of created and unchanged rows on the chosen warehouse', async () => {
+    const result = await service.importRows(
+      [
+        {
+          rows: [
+            {
+              Артикул: 'A-1',
+              'Название товара': 'Кеды',
+              'Цена, руб.*': '100',
+              Остаток: '7',
+            },
+            { Артикул: 'B-2', 'Название товара': 'Кроссовки', Остаток: '3' },
+            { Артикул: 'C-3', 'Название товара': 'Сапоги', Остаток: '-1' },
+          ],
+        },
+      ],
+      { mode: 'upsert', warehouse: 'MSK', actorId: 5 },
+    );
+
+    expect(warehousesService.findForImport).toHaveBeenCalledWith('MSK');
+    expect(stockService.applyCounts).toHaveBeenCalledWith(
+      expect.anything(),
+      3,
+      [
+        { productId: 1, quantity: 7 },
+        { productId: 2, quantity: 3 },
+      ],
+      { actorId: 5, importJobId: undefined },
+    );
+    expect(result).toMatchObject({ unchanged: 1, created: 1, stockUpdated: 2 });
+    expect(result.errors).toEqual([
+      'Строка 4: Остаток — Остаток не является целым неотрицательным числом',
+    ]);
+  });
+
+  it('does not look for a warehouse without a stock column', async () => {
+    await service.importRows([{ rows }], { mode: 'upsert' });
+
+    expect(warehousesService.findForImport).not.toHaveBeenCalled();
+    expect(stockService.applyCounts).not.toHaveBeenCalled();
+  });
+
+  it('downloads image URLs of written rows after the transaction', async () => {
+    imagesService.addFromUrl
+      .mockResolvedValueOnce({ image: {}, created: true })
+      .mockRejectedValueOnce(new Error('timeout'));
+
+    const result = await service.importRows(
+      [
+        {
+          rows: [
+            {
+              Артикул: 'A-1',
+              'Название товара': 'Кеды',
+              'Цена, руб.*': '100',
+              Изображение:
+                'https://cdn.test/a.jpg, https://cdn.test/b.jpg;https://cdn.test/a.jpg',
+            },
+            { Артикул: 'B-2', 'Название товара': 'Кроссовки', Фото: 'a.jpg' },
+          ],
+        },
+      ],
+      { mode: 'upsert' },
+    );
+
+    expect(imagesService.addFromUrl.mock.calls).toEqual([
+      [1, 'https://cdn.test/a.jpg'],
+      [1, 'https://cdn.test/b.jpg'],
+    ]);
+    expect(result).toMatchObject({
+      unchanged: 1,
+      imagesAdded: 1,
+      imageErrors: ['Артикул A-1: https://cdn.test/b.jpg — Error: timeout'],
+    });
+    expect(result.errors).toEqual([
+      'Строка 3: Фото — Ссылка на изображение должна начинаться с http:// или https://',
+    ]);
+  });
+
+  it('stops downloading images when the job is cancelled after commit', async () => {
+    let cancelled = false;
+    imagesService.addFromUrl.mockImplementation(async () => {
+      await Promise.resolve();
+      cancelled = true;
+      return { image: {}, created: true };
+    });
+    const urls = ['a', 'b', 'c', 'd', 'e', 'f'].map(
+      (name) => `https://cdn.test/${name}.jpg`,
+    );
+
+    const result = await service.importRows(
+      [
+        {
+          rows: [
+            {
+              Артикул: 'A-1',
+              'Название товара': 'Кеды',
+              Изображение: urls.join(' '),
+            },
+          ],
+        },
+      ],
+      { mode: 'upsert' },
+      { isCancelled: () => cancelled },
+    );
+
+    // Уже начатые загрузки завершаются, новые не начинаются
+    expect(imagesService.addFromUrl).toHaveBeenCalledTimes(4);
+    expect(result).toMatchObject({
+      imagesAdded: 4,
+      imageErrors: ['Импорт отменён, ссылок на изображения не скачано: 2'],
+    });
+  });
+
+  it('limits the number of image URLs downloaded per import', async () => {
+    const urls = Array.from(
+      { length: 1002 },
+      (_, index) => `https://cdn.test/${index}.jpg`,
+    );
+
+    const result = await service.importRows(
+      [
+        {
+          rows: [
+            {
+              Артикул: 'A-1',
+              'Название товара': 'Кеды',
+              Изображение: urls.join(' '),
+            },
+          ],
+        },
+      ],
+      { mode: 'upsert' },
+    );
+
+    expect(imagesService.addFromUrl).toHaveBeenCalledTimes(1000);
+    expect(result.imageErrors).toEqual([
+      'За один импорт скачивается не больше 1000 изображений, ссылок не скачано: 2',
+    ]);
+  });
+
+  it('counts rows without changes as unchanged', async () => {
+    const result = await service.importRows(
+      [
+        {
+          rows: [
+            { Артикул: 'A-1', 'Название товара': 'Кеды', 'Цена, руб.*': '100' },
+          ],
+        },
+      ],
+      { mode: 'updateOnly' },
+    );
+
+    expect(result).toMatchObject({ updated: 0, unchanged: 1 });
+  });
+
+  it('reports unknown articles as missing in updateOnly mode', async () => {
+    const result = await service.importRows([{ rows }], { mode: 'updateOnly' });
+
+    expect(result.missing).toEqual(['B-2']);
+    expect(repo.insert).not.toHaveBeenCalled();
+  });
+
+  it('deletes articles absent from the file in replaceAll mode', async () => {
+    const result = await service.importRows([{ rows: rows.slice(0, 2) }], {
+      mode: 'replaceAll',
+    });
+
+    expect(deleteQuery.where).toHaveBeenCalledWith(
+      'article != ALL(:articles)',
+      { articles: ['A-1', 'B-2'] },
+    );
+    expect(result.deleted).toBe(1);
+    expect(auditService.record).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({
+          action: 'delete',
+          source: 'import',
+          productId: 9,
+          changes: expect.objectContaining({
+            price: { before: 50, after: null },
+          }),
+        }),
+      ],
+      expect.anything(),
+    );
+  });
+
+  it('refuses replaceAll when a row is invalid', async () => {
+    await expect(
+      service.importRows([{ rows }], { mode: 'replaceAll' }),
+    ).rejects.toMatchObject({
+      status: 400,
+      message: expect.stringContaining('Строк с ошибками: 1'),
+    });
+    expect(deleteQuery.softDelete).not.toHaveBeenCalled();
+    expect(repo.insert).not.toHaveBeenCalled();
+
+    // dryRun показывает ошибки строк
+    const preview = await service.importRows([{ rows }], {
+      mode: 'replaceAll',
+      dryRun: true,
+    });
+    expect(preview).toMatchObject({ deleted: 1, errors: [expect.any(String)] });
+  });
+
+  it('keeps absent parents with variants in replaceAll mode', async () => {
+    parents = [{ id: 9, article: 'Z-9' }];
+
+    await expect(
+      service.importRows([{ rows: rows.slice(0, 2) }], { mode: 'replaceAll' }),
+    ).rejects.toMatchObject({
+      status: 409,
+      message: expect.stringContaining('(Z-9)'),
+    });
+    expect(deleteQuery.softDelete).not.toHaveBeenCalled();
+  });
+
+  it('leaves articles from the trash untouched', async () => {
+    existing.push({
+      id: 2,
+      article: 'B-2',
+      name: 'Кроссовки',
+      deletedAt: new Date(),
+    });
+
+    const result = await service.importRows([{ rows }], { mode: 'upsert' });
+
+    expect(result).toMatchObject({ created: 0, updated: 1, trashed: ['B-2'] });
+    expect(repo.insert).not.toHaveBeenCalled();
+  });
+
+  it('assigns categories from the category path column', async () => {
+    const result = await service.importRows(
+      [
+        {
+          rows: [
+            {
+              Артикул: 'A-1',
+              'Название товара': 'Кеды',
+              Категория: ' Обувь / Кроссовки ',
+            },
+            { Артикул: 'B-2', 'Название товара': 'Шапка', Категория: '' },
+          ],
+        },
+      ],
+      { mode: 'upsert' },
+    );
+
+    expect(categoriesService.resolvePaths).toHaveBeenCalledWith(
+      [['Обувь', 'Кроссовки']],
+      expect.anything(),
+      true,
+    );
+    expect(repo.update).toHaveBeenCalledWith(1, { categoryId: 5 });
+    expect(repo.insert).toHaveBeenCalledWith([
+      { article: 'B-2', name: 'Шапка' },
+    ]);
+    expect(result.categories).toEqual(['Обувь/Кроссовки']);
+  });
+
+  it('records field changes, actor and job of imported rows', async () => {
+    await service.importRows([{ rows }], {
+      mode: 'upsert',
+      actorId: 5,
+      jobId: 11,
+    });
+
+    const entries = auditService.record.mock.calls.flatMap(([batch]) => batch);
+    expect(entries).toEqual([
+      expect.objectContaining({
+        action: 'create',
+        article: 'B-2',
+        changes: {
+          article: { before: null, after: 'B-2' },
+          name: { before: null, after: 'Кроссовки' },
+        },
+      }),
+      expect.objectContaining({
+        action: 'update',
+        productId: 1,
+        changes: { price: { before: 100, after: 120 } },
+        actorId: 5,
+        importJobId: 11,
+      }),
+      expect.objectContaining({
+        action: 'import',
+        details: expect.objectContaining({ created: 1, updated: 1 }),
+      }),
+    ]);
+    expect(repo.update).toHaveBeenCalledWith(1, {
+      price: 120,
+      updatedById: 5,
+    });
+    expect(pricesService.record).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({ productId: 2, price: null }),
+        {
+          productId: 1,
+          price: 120,
+          previousPrice: '100.00',
+          currency: 'RUB',
+          previousCurrency: 'RUB',
+          source: 'import',
+          actorId: 5,
+          importJobId: 11,
+        },
+      ],
+      expect.anything(),
+    );
+  });
+
+  it('reports per-row validation issues and writes nothing in dryRun', async () => {
+    const result = await service.importRows(
+      [
+        {
+          rows: [
+            ...rows,
+            { Артикул: 'X'.repeat(101), 'Название товара': 'Длинный артикул' },
+            { Артикул: 'C-3', 'Название товара': 'Шапка', Цена: 'по запросу' },
+          ],
+        },
+      ],
+      { mode: 'upsert', dryRun: true },
+    );
+
+    expect(repo.insert).not.toHaveBeenCalled();
+    expect(repo.update).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ dryRun: true, created: 1, updated: 1 });
+    expect(result.rows!.map((row) => [row.row, row.action])).toEqual([
+      [2, 'update'],
+      [3, 'create'],
+      [4, 'invalid'],
+      [5, 'invalid'],
+      [6, 'invalid'],
+    ]);
+    expect(result.rows![2].issues[0]).toMatchObject({
+      column: 'Артикул',
+      code: 'required',
+    });
+    expect(result.rows![3].issues[0]).toMatchObject({
+      column: 'Артикул',
+      code: 'maxLength',
+    });
+    expect(result.rows![4].issues[0]).toMatchObject({
+      column: 'Цена',
+      code: 'invalid_number',
+      value: 'по запросу',
+    });
+  });
+
+  it('treats a repeated article in the file as an update of the first row', async () => {
+    const result = await service.importRows(
+      [
+        {
+          rows: [
+            { Артикул: 'N-1', 'Название товара': 'Шапка', Цена: '10' },
+            { Артикул: 'N-1', 'Название товара': 'Шапка', Цена: '12' },
+          ],
+        },
+      ],
+      { mode: 'upsert' },
+    );
+
+    expect(result).toMatchObject({ created: 1, updated: 1 });
+    expect(repo.update).toHaveBeenCalledWith(2, { price: 12 });
+  });
+
+  it('reads rows through the columns of a selected profile', async () => {
+    const result = await service.importRows(
+      [
+        {
+          rows: [
+            {
+              'Vendor code': 'n-1',
+              Наименование: 'Шапка',
+              'Цена опт': '1 299,50',
+            },
+          ],
+        },
+      ],
+      {
+        mode: 'insertOnly',
+        columns: [
+          {
+            field: 'article',
+            headers: ['Vendor code'],
+            transforms: ['trim', 'uppercase'],
+          },
+          { field: 'name', headers: ['Наименование'] },
+          { field: 'price', headers: ['Цена опт'], numberLocale: 'ru' },
+          { field: 'country', headers: ['Страна'], default: 'Китай' },
+        ],
+      },
+    );
+
+    expect(result.created).toBe(1);
+    expect(repo.insert).toHaveBeenCalledWith([
+      expect.objectContaining({
+        article: 'N-1',
+        price: 1299.5,
+        country: 'Китай',
+      }),
+    ]);
+  });
+
+  it('takes numeric spreadsheet cells as is despite the profile locale', async () => {
+    await service.importRows(
+      [
+        {
+          rows: [
+            { Артикул: 'N-1', Наименование: 'Шапка', 'Цена опт': 1299.5 },
+            { Артикул: 'N-2', Наименование: 'Шарф', 'Цена опт': '1 299,50' },
+          ],
+        },
+      ],
+      {
+        mode: 'insertOnly',
+        columns: [
+          { field: 'article', headers: ['Артикул'] },
+          { field: 'name', headers: ['Наименование'] },
+          { field: 'price', headers: ['Цена опт'], numberLocale: 'ru' },
+        ],
+      },
+    );
+
+    const inserted = repo.insert.mock.calls[0][0] as { price: number }[];
+    expect(inserted.map((product) => product.price)).toEqual([1299.5, 1299.5]);
+  });
+
+  it('recognises price formats without a profile locale', async () => {
+    await service.importRows(
+      [
+        {
+          rows: [
+            {
+              Артикул: 'P-1',
+              'Название товара': 'Шапка',
+              Цена: '1 299,50 руб.',
+            },
+            { Артикул: 'P-2', 'Название товара': 'Шарф', Цена: '1,299.50' },
+            { Артикул: 'P-3', 'Название товара': 'Варежки', Цена: 1299.5 },
+          ],
+        },
+      ],
+      { mode: 'insertOnly' },
+    );
+
+    const inserted = repo.insert.mock.calls[0][0] as { price: number }[];
+    expect(inserted.map((product) => product.price)).toEqual([
+      1299.5, 1299.5, 1299.5,
+    ]);
+  });
+
+  it('rejects negative and overflowing prices', async () => {
+    const result = await service.importRows(
+      [
+        {
+          rows: [
+            { Артикул: 'P-1', 'Название товара': 'Шапка', Цена: '-1 299,50' },
+            { Артикул: 'P-2', 'Название товара': 'Шарф', Цена: '100000000' },
+          ],
+        },
+      ],
+      { mode: 'insertOnly', dryRun: true },
+    );
+
+    expect(result.rows!.map((row) => row.issues[0])).toEqual([
+      expect.objectContaining({
+        column: 'Цена',
+        code: 'invalid_number',
+        value: '-1 299,50',
+        message: 'Цена не может быть отрицательной',
+      }),
+      expect.objectContaining({ column: 'Цена', code: 'max' }),
+    ]);
+  });
+
+  it('takes the currency from its column or the price header', async () => {
+    const result = await service.importRows(
+      [
+        {
+          rows: [
+            { Артикул: 'C-1', 'Название товара': 'Шапка', 'Price, EUR': '12' },
+            {
+              Артикул: 'C-2',
+              'Название товара': 'Шарф',
+              'Price, EUR': '30',
+              Валюта: 'kzt',
+            },
+          ],
+        },
+      ],
+      {
+        mode: 'insertOnly',
+        dryRun: true,
+        columns: [
+          { field: 'article', headers: ['Артикул'] },
+          { field: 'name', headers: ['Название товара'] },
+          { field: 'price', headers: ['Price, EUR'] },
+          { field: 'currency', headers: ['Валюта'] },
+        ],
+      },
+    );
+
+    expect(currenciesService.findKnownCodes).toHaveBeenCalledWith([
+      'EUR',
+      'KZT',
+    ]);
+    expect(result.rows![0]).toMatchObject({ action: 'create', issues: [] });
+    expect(result.rows![1]).toMatchObject({
+      action: 'invalid',
+      issues: [
+        {
+          column: 'Валюта',
+          code: 'unknown_currency',
+          value: 'KZT',
+          message: 'Курс валюты KZT не задан',
+        },
+      ],
+    });
+  });
+
+  it('hides database errors behind a generic message', async () => {
+    const logger = jest
+      .spyOn(Logger.prototype, 'error')
+      .mockImplementation(() => undefined);
+    repo.insert.mockRejectedValue(
+      new Error('value too long for type character varying(100)'),
+    );
+
+    const failure = service.importRows(
+      [{ rows: [{ Артикул: 'N-1', 'Название товара': 'Шапка' }] }],
+      { mode: 'insertOnly' },
+    );
+
+    await expect(failure).rejects.toMatchObject({
+      status: 500,
+      message: 'Ошибка сохранения, импорт отменён',
+    });
+    expect(logger).toHaveBeenCalledWith(
+      'Import failed: value too long for type character varying(100)',
+      expect.any(String),
+    );
+    logger.mockRestore();
+  });
+
+  it('reports progress per batch and stops when the job is cancelled', async () => {
+    const onProgress = jest.fn();
+
+    await expect(
+      service.importRows(
+        [{ rows }],
+        { mode: 'upsert' },
+        { onProgress, isCancelled: () => true },
+      ),
+    ).rejects.toBeInstanceOf(ImportCancelledError);
+    expect(repo.insert).not.toHaveBeenCalled();
+
+    await service.importRows([{ rows }], { mode: 'upsert' }, { onProgress });
+    expect(onProgress).toHaveBeenLastCalledWith(3);
+  });
+
+  it('numbers rows per sheet and names the sheet in errors', async () => {
+    const result = await service.importRows(
+      [
+        { name: 'Обувь', rows: [rows[0]] },
+        { name: 'Шапки', rows: [rows[1], rows[2]] },
+      ],
+      { mode: 'upsert', dryRun: true },
+    );
+
+    expect(result.rows!.map((row) => [row.sheet, row.row, row.action])).toEqual(
+      [
+        ['Обувь', 2, 'update'],
+        ['Шапки', 2, 'create'],
+        ['Шапки', 3, 'invalid'],
+      ],
+    );
+    expect(result.errors).toEqual([
+      expect.stringMatching(/^Лист «Шапки», строка 3: /),
+    ]);
+  });
+});
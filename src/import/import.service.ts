@@ -0,0 +1,786 @@
+import {
+  ConflictException,
+  HttpException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { ProductEntity } from '../products/product.entity';
+import { CreateProductDto } from '../dto/create-product.dto';
+import { ImportMode } from '../dto/import-query.dto';
+import { BASE_CURRENCY } from '../dto/currency.dto';
+import { ImportColumnDto } from '../dto/import-profile.dto';
+import {
+  ImportResult,
+  ImportRowAction,
+  ImportRowIssue,
+  ImportRowReport,
+} from '../dto/import-result.dto';
+import { parseProductRow } from './product-row.parser';
+import { ImportSheet } from './import-file.reader';
+import {
+  AuditEntry,
+  AuditService,
+  productChanges,
+} from '../audit/audit.service';
+import { PriceEntry, PricesService } from '../prices/prices.service';
+import { CurrenciesService } from '../currencies/currencies.service';
+import { CategoriesService } from '../categories/categories.service';
+import { AttributesService } from '../attributes/attributes.service';
+import { AttributeEntity } from '../attributes/attribute.entity';
+import {
+  attributeScopeError,
+  mergeAttributes,
+} from '../attributes/attribute-values';
+import { WarehousesService } from '../inventory/warehouses.service';
+import { StockCount, StockService } from '../inventory/stock.service';
+import { ImagesService } from '../images/images.service';
+import {
+  InvalidImportFileException,
+  fromUniqueViolation,
+} from '../errors/domain.exceptions';
+
+// Поля, которые импорт обновляет у существующего артикула
+const UPDATABLE_FIELDS = [
+  'name',
+  'brand',
+  'price',
+  'currency',
+  'color',
+  'country',
+  'categoryId',
+] as const;
+
+// Первая строка файла — заголовки
+const FIRST_DATA_ROW = 2;
+
+// Размер пачки для вставки и для отчёта о прогрессе
+const BATCH_SIZE = 500;
+
+// Ссылки на изображения сверх предела не скачиваются; загрузки идут
+// в несколько потоков
+const MAX_IMPORT_IMAGES = 1000;
+const IMAGE_DOWNLOAD_CONCURRENCY = 4;
+
+export interface ImportOptions {
+  mode: ImportMode;
+  dryRun?: boolean;
+  // Сопоставление колонок из профиля; по умолчанию — стандартные заголовки
+  columns?: ImportColumnDto[];
+  // Пользователь, от имени которого записываются изменения
+  actorId?: number;
+  // Задание, в рамках которого идёт импорт; попадает в журнал изменений
+  jobId?: number;
+  // Код склада для колонки остатков
+  warehouse?: string;
+}
+
+// Обратные вызовы фонового задания импорта
+export interface ImportHooks {
+  // Ошибки строк становятся известны до записи в БД
+  onRowErrors?: (errors: string[]) => Promise<void> | void;
+  onProgress?: (processedRows: number) => Promise<void> | void;
+  // Проверяется между пачками; true откатывает транзакцию. После фиксации
+  // записанное не откатывается: отмена только прекращает скачивание
+  // изображений
+  isCancelled?: () => boolean;
+}
+
+export class ImportCancelledError extends Error {
+  constructor() {
+    super('Импорт отменён');
+  }
+}
+
+interface PlannedRow {
+  report: ImportRowReport;
+  product?: CreateProductDto;
+  currencyColumn?: string;
+  categoryPath?: string[];
+  stock?: number;
+  images?: string[];
+  changes?: Partial<ProductEntity>;
+  // Состояние существующего товара до обновления — для журнала
+  before?: Partial<ProductEntity>;
+}
+
+@Injectable()
+export class ImportService {
+  private readonly logger = new Logger(ImportService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly auditService: AuditService,
+    private readonly pricesService: PricesService,
+    private readonly currenciesService: CurrenciesService,
+    private readonly categoriesService: CategoriesService,
+    private readonly attributesService: AttributesService,
+    private readonly warehousesService: WarehousesService,
+    private readonly stockService: StockService,
+    private readonly imagesService: ImagesService,
+  ) {}
+
+  async importRows(
+    sheets: ImportSheet[],
+    { mode, dryRun = false, columns, actorId, jobId, warehouse }: ImportOptions,
+    hooks: ImportHooks = {},
+  ): Promise<ImportResult> {
+    // Значения атрибутов ищутся в колонках с их названиями
+    const attributes = await this.attributesService.findAll();
+    const planned: PlannedRow[] = sheets.flatMap((sheet) =>
+      sheet.rows.map((row, index) => {
+        const { product, issues, currencyColumn, categoryPath, stock, images } =
+          parseProductRow(row, columns, attributes);
+        return {
+          product: product ?? undefined,
+          currencyColumn,
+          categoryPath,
+          stock,
+          images,
+          report: {
+            sheet: sheet.name,
+            row: index + FIRST_DATA_ROW,
+            article: product?.article,
+            action: product ? 'create' : 'invalid',
+            issues,
+          },
+        };
+      }),
+    );
+    await this.rejectUnknownCurrencies(planned);
+    const valid = planned.filter((item) => item.product);
+
+    if (mode === 'replaceAll' && !valid.length) {
+      throw new InvalidImportFileException(
+        'Файл не содержит ни одной корректной строки, каталог не изменён',
+      );
+    }
+
+    // Склад проверяется до записи, в том числе при dryRun
+    const stockWarehouse = valid.some((item) => item.stock !== undefined)
+      ? await this.warehousesService.findForImport(warehouse)
+      : undefined;
+
+    const errors = this.collectErrors(planned);
+    if (errors.length) {
+      await hooks.onRowErrors?.(errors);
+    }
+
+    // id товаров по артикулу после записи — для скачивания изображений
+    let written: Map<string, number> | undefined;
+
+    try {
+      // Весь импорт — одна транзакция: при ошибке таблица не остаётся
+      // обновлённой наполовину
+      const result = await this.dataSource.transaction(async (manager) => {
+        const repo = manager.getRepository(ProductEntity);
+        const categories = await this.assignCategories(manager, valid, dryRun);
+        const ids = await this.planRows(repo, valid, mode, attributes);
+        const audit: AuditEntry = {
+          action: 'import',
+          source: 'import',
+          actorId,
+          importJobId: jobId,
+        };
+
+        if (mode === 'replaceAll') {
+          await this.assertReplaceable(repo, planned, valid, dryRun);
+        }
+
+        if (dryRun) {
+          const deleted =
+            mode === 'replaceAll' ? await this.countAbsent(repo, valid) : 0;
+          return this.buildResult(planned, mode, dryRun, deleted, categories);
+        }
+
+        const deleted =
+          mode === 'replaceAll'
+            ? await this.deleteAbsent(manager, valid, audit)
+            : 0;
+        await this.applyRows(manager, planned, ids, hooks, audit);
+        const stockUpdated = stockWarehouse
+          ? await this.applyStock(manager, valid, ids, stockWarehouse.id, audit)
+          : undefined;
+
+        const result = this.buildResult(
+          planned,
+          mode,
+          dryRun,
+          deleted,
+          categories,
+        );
+        result.stockUpdated = stockUpdated;
+        written = ids;
+        await this.auditService.record(
+          [
+            {
+              ...audit,
+              details: {
+                mode,
+                created: result.created,
+                updated: result.updated,
+                unchanged: result.unchanged,
+                deleted,
+              },
+            },
+          ],
+          manager,
+        );
+        return result;
+      });
+
+      // Изображения скачиваются после фиксации: долгие запросы к чужим
+      // серверам не держат транзакцию открытой
+      if (written && valid.some((item) => item.images)) {
+        Object.assign(result, await this.applyImages(valid, written, hooks));
+      }
+      return result;
+    } catch (err) {
+      if (err instanceof HttpException || err instanceof ImportCancelledError) {
+        throw err;
+      }
+      // Артикул, созданный параллельно с импортом, — конфликт, а не сбой
+      const conflict = fromUniqueViolation(err);
+      if (conflict) throw conflict;
+      // Текст ошибки драйвера — только в журнал сервера: в ответе и в
+      // задании импорта он раскрыл бы SQL и схему
+      this.logger.error(
+        `Import failed: ${err instanceof Error ? err.message : err}`,
+        err instanceof Error ? err.stack : undefined,
+      );
+      throw new InternalServerErrorException(
+        'Ошибка сохранения, импорт отменён',
+      );
+    }
+  }
+
+  // Строки с валютой без курса некорректны: их цену нельзя пересчитать
+  private async rejectUnknownCurrencies(planned: PlannedRow[]): Promise<void> {
+    const codes = new Set(
+      planned
+        .map((item) => item.product?.currency)
+        .filter((code): code is string => !!code),
+    );
+    const known = await this.currenciesService.findKnownCodes([...codes]);
+
+    for (const item of planned) {
+      const currency = item.product?.currency;
+      if (!currency || known.has(currency)) continue;
+
+      item.report.issues.push({
+        column: item.currencyColumn ?? 'currency',
+        code: 'unknown_currency',
+        value: currency,
+        message: `Курс валюты ${currency} не задан`,
+      });
+      item.report.action = 'invalid';
+      item.product = undefined;
+    }
+  }
+
+  // categoryId строк по колонке «Категория»; недостающие категории
+  // создаются в транзакции импорта. При dryRun ничего не создаётся, и
+  // у строк с новыми категориями categoryId не меняется. Возвращает
+  // пути созданных категорий
+  private async assignCategories(
+    manager: EntityManager,
+    rows: PlannedRow[],
+    dryRun: boolean,
+  ): Promise<string[]> {
+    const withCategory = rows.filter((item) => item.categoryPath);
+    if (!withCategory.length) return [];
+
+    const { ids, created } = await this.categoriesService.resolvePaths(
+      withCategory.map((item) => item.categoryPath!),
+      manager,
+      !dryRun,
+    );
+    for (const item of withCategory) {
+      const id = ids.get(item.categoryPath!.join('/'));
+      if (id) item.product!.categoryId = id;
+    }
+    return created;
+  }
+
+  // Определяет действие для каждой корректной строки, ничего не записывая.
+  // Повтор артикула внутри файла сравнивается с предыдущей строкой.
+  // Строка с атрибутом чужой категории становится invalid.
+  // Возвращает id уже существующих артикулов
+  private async planRows(
+    repo: Repository<ProductEntity>,
+    rows: PlannedRow[],
+    mode: ImportMode,
+    attributes: AttributeEntity[],
+  ): Promise<Map<string, number>> {
+    const existing = await this.findByArticles(
+      repo,
+      rows.map((item) => item.product!.article),
+    );
+    const known = new Map<string, Partial<ProductEntity>>(
+      existing.map((product) => [product.article, product]),
+    );
+    const scoped = new Map(
+      attributes
+        .filter((attribute) => attribute.categoryId)
+        .map((attribute) => [attribute.code, attribute]),
+    );
+    const scopes = scoped.size
+      ? await this.attributesService.categoryScopes(
+          [...rows.map((item) => item.product!), ...existing].flatMap(
+            (product) => product.categoryId ?? [],
+          ),
+        )
+      : new Map<number, Set<number>>();
+
+    for (const item of rows) {
+      const product = item.product!;
+      const current = known.get(product.article);
+
+      if (current?.deletedAt) {
+        item.report.action = 'trashed';
+        continue;
+      }
+
+      const issues = scoped.size
+        ? scopeIssues(item, current, scoped, scopes)
+        : [];
+      if (issues.length) {
+        item.report.action = 'invalid';
+        item.report.issues.push(...issues);
+        continue;
+      }
+
+      if (!current) {
+        item.report.action = mode === 'updateOnly' ? 'missing' : 'create';
+        if (item.report.action === 'create') {
+          known.set(product.article, { ...product });
+        }
+        continue;
+      }
+
+      if (mode === 'insertOnly') {
+        item.report.action = 'duplicate';
+        continue;
+      }
+
+      item.changes = diffProduct(current, product) ?? undefined;
+      item.report.action = item.changes ? 'update' : 'unchanged';
+      if (item.changes) {
+        item.before = current;
+        known.set(product.article, { ...current, ...item.changes });
+      }
+    }
+
+    return new Map(existing.map((product) => [product.article, product.id]));
+  }
+
+  // Новые артикулы вставляются пачками, изменения — построчно, так как
+  // у каждой строки свой набор полей
+  private async applyRows(
+    manager: EntityManager,
+    rows: PlannedRow[],
+    ids: Map<string, number>,
+    hooks: ImportHooks,
+    audit: AuditEntry,
+  ): Promise<void> {
+    const repo = manager.getRepository(ProductEntity);
+    const { actorId } = audit;
+    // Без пользователя updatedById не трогаем, а не сбрасываем в NULL
+    const updatedBy = actorId === undefined ? {} : { updatedById: actorId };
+    for (let offset = 0; offset < rows.length; offset += BATCH_SIZE) {
+      if (hooks.isCancelled?.()) {
+        throw new ImportCancelledError();
+      }
+      const batch = rows.slice(offset, offset + BATCH_SIZE);
+      const entries: AuditEntry[] = [];
+      const prices: PriceEntry[] = [];
+      // before = null — товар создан
+      const priceEntry = (
+        productId: number,
+        after: Partial<ProductEntity>,
+        before: Partial<ProductEntity> | null,
+      ): PriceEntry => ({
+        productId,
+        price: after.price ?? null,
+        previousPrice: before?.price ?? null,
+        currency: after.currency ?? BASE_CURRENCY,
+        previousCurrency: before ? before.currency ?? BASE_CURRENCY : null,
+        source: 'import',
+        actorId: actorId ?? undefined,
+        importJobId: audit.importJobId ?? undefined,
+      });
+
+      const creates = batch.filter((item) => item.report.action === 'create');
+      if (creates.length) {
+        const result = await repo.insert(
+          creates.map((item) =>
+            repo.create({
+              ...item.product!,
+              createdById: actorId,
+              updatedById: actorId,
+            }),
+          ),
+        );
+        result.identifiers.forEach((identifier, index) => {
+          const product = creates[index].product!;
+          ids.set(product.article, identifier.id);
+          entries.push({
+            ...audit,
+            action: 'create',
+            productId: identifier.id,
+            article: product.article,
+            changes: productChanges(null, product),
+          });
+          prices.push(priceEntry(identifier.id, product, null));
+        });
+      }
+
+      for (const item of batch) {
+        if (item.report.action === 'update') {
+          const id = ids.get(item.product!.article)!;
+          await repo.update(id, { ...item.changes!, ...updatedBy });
+          if (
+            item.changes!.price !== undefined ||
+            item.changes!.currency !== undefined
+          ) {
+            prices.push(
+              priceEntry(id, { ...item.before, ...item.changes }, item.before!),
+            );
+          }
+          entries.push({
+            ...audit,
+            action: 'update',
+            productId: id,
+            article: item.product!.article,
+            changes: productChanges(item.before!, {
+              ...item.before,
+              ...item.changes,
+            }),
+          });
+        }
+      }
+
+      await this.auditService.record(entries, manager);
+      await this.pricesService.record(prices, manager);
+      await hooks.onProgress?.(Math.min(offset + BATCH_SIZE, rows.length));
+    }
+  }
+
+  // Остатки создаваемых и обновляемых товаров, в том числе строк без
+  // других изменений. Товары, которые импорт не трогает (duplicate,
+  // missing, trashed), остаются при своих остатках
+  private async applyStock(
+    manager: EntityManager,
+    rows: PlannedRow[],
+    ids: Map<string, number>,
+    warehouseId: number,
+    audit: AuditEntry,
+  ): Promise<number> {
+    const counts: StockCount[] = rows
+      .filter(
+        (item) =>
+          item.stock !== undefined &&
+          ['create', 'update', 'unchanged'].includes(item.report.action),
+      )
+      .map((item) => ({
+        productId: ids.get(item.product!.article)!,
+        quantity: item.stock!,
+      }));
+    return this.stockService.applyCounts(manager, warehouseId, counts, {
+      actorId: audit.actorId ?? undefined,
+      importJobId: audit.importJobId ?? undefined,
+    });
+  }
+
+  // Изображения строк, как и остатки, — только у записанных товаров.
+  // Уже скачанные ссылки пропускаются, ошибка одной ссылки не мешает
+  // остальным. Ссылки сверх MAX_IMPORT_IMAGES и оставшиеся после отмены
+  // не скачиваются и попадают в imageErrors
+  private async applyImages(
+    rows: PlannedRow[],
+    ids: Map<string, number>,
+    hooks: ImportHooks,
+  ): Promise<Pick<ImportResult, 'imagesAdded' | 'imageErrors'>> {
+    const downloads = rows
+      .filter(
+        (item) =>
+          item.images &&
+          ['create', 'update', 'unchanged'].includes(item.report.action),
+      )
+      .flatMap((item) =>
+        item.images!.map((url) => ({
+          article: item.product!.article,
+          productId: ids.get(item.product!.article)!,
+          url,
+        })),
+      );
+    const queued = downloads.slice(0, MAX_IMPORT_IMAGES);
+    let imagesAdded = 0;
+    let started = 0;
+    let cancelled = false;
+    // По индексу ссылки: порядок ошибок не зависит от порядка загрузок
+    const failures: string[] = [];
+
+    const worker = async () => {
+      while (started < queued.length) {
+        if (hooks.isCancelled?.()) {
+          cancelled = true;
+          return;
+        }
+        const index = started++;
+        const { article, productId, url } = queued[index];
+        try {
+          const { created } = await this.imagesService.addFromUrl(
+            productId,
+            url,
+          );
+          if (created) imagesAdded++;
+        } catch (err) {
+          failures[index] = `Артикул ${article}: ${url} — ${
+            err instanceof HttpException ? err.message : err
+          }`;
+        }
+      }
+    };
+    await Promise.all(
+      Array.from({ length: IMAGE_DOWNLOAD_CONCURRENCY }, worker),
+    );
+
+    const imageErrors = failures.filter(Boolean);
+    const skipped = downloads.length - started;
+    if (skipped) {
+      imageErrors.push(
+        cancelled
+          ? `Импорт отменён, ссылок на изображения не скачано: ${skipped}`
+          : `За один импорт скачивается не больше ${MAX_IMPORT_IMAGES} изображений, ссылок не скачано: ${skipped}`,
+      );
+    }
+    return {
+      imagesAdded,
+      imageErrors: imageErrors.length ? imageErrors : undefined,
+    };
+  }
+
+  private async countAbsent(
+    repo: Repository<ProductEntity>,
+    rows: PlannedRow[],
+  ): Promise<number> {
+    return repo
+      .createQueryBuilder('product')
+      .where('product.article != ALL(:articles)', {
+        articles: rows.map((item) => item.product!.article),
+      })
+      .getCount();
+  }
+
+  // replaceAll удалил бы товары, чьи строки в файле с ошибками: такой файл
+  // загружается только в dryRun, чтобы показать ошибки. Товар с вариантами
+  // не удаляется, как и через DELETE /products/:id: варианты в корзине
+  // тоже считаются
+  private async assertReplaceable(
+    repo: Repository<ProductEntity>,
+    planned: PlannedRow[],
+    rows: PlannedRow[],
+    dryRun: boolean,
+  ): Promise<void> {
+    const invalid = planned.filter(
+      (item) => item.report.action === 'invalid',
+    ).length;
+    if (invalid && !dryRun) {
+      throw new InvalidImportFileException(
+        `Строк с ошибками: ${invalid}. В режиме replaceAll файл загружается только без ошибок, каталог не изменён`,
+      );
+    }
+
+    const parents = await repo
+      .createQueryBuilder('product')
+      .where('product.article != ALL(:articles)', {
+        articles: rows.map((item) => item.product!.article),
+      })
+      .andWhere(
+        'EXISTS (SELECT 1 FROM products variant WHERE variant."parentId" = product.id)',
+      )
+      .orderBy('product.article', 'ASC')
+      .limit(10)
+      .getMany();
+    if (parents.length) {
+      throw new ConflictException(
+        `Товары с вариантами не удаляются через replaceAll (${parents
+          .map((product) => product.article)
+          .join(
+            ', ',
+          )}): добавьте их в файл или сначала удалите варианты окончательно`,
+      );
+    }
+  }
+
+  // Отсутствующие в файле товары перемещаются в корзину; строки
+  // возвращаются из UPDATE, чтобы сохранить их в журнале
+  private async deleteAbsent(
+    manager: EntityManager,
+    rows: PlannedRow[],
+    audit: AuditEntry,
+  ): Promise<number> {
+    const result = await manager
+      .getRepository(ProductEntity)
+      .createQueryBuilder()
+      .softDelete()
+      .where('article != ALL(:articles)', {
+        articles: rows.map((item) => item.product!.article),
+      })
+      .andWhere('deletedAt IS NULL')
+      .returning('*')
+      .execute();
+    const removed: ProductEntity[] = result.raw ?? [];
+
+    await this.auditService.record(
+      removed.map((product) => ({
+        ...audit,
+        action: 'delete',
+        productId: product.id,
+        article: product.article,
+        changes: productChanges(product, null),
+      })),
+      manager,
+    );
+    return result.affected ?? removed.length;
+  }
+
+  private buildResult(
+    planned: PlannedRow[],
+    mode: ImportMode,
+    dryRun: boolean,
+    deleted: number,
+    categories: string[] = [],
+  ): ImportResult {
+    const count = (action: ImportRowAction) =>
+      planned.filter((item) => item.report.action === action).length;
+    const articlesWith = (action: ImportRowAction) =>
+      planned
+        .filter((item) => item.report.action === action)
+        .map((item) => item.report.article!);
+
+    const created = count('create');
+    const updated = count('update');
+    const errors = this.collectErrors(planned);
+    const duplicates = articlesWith('duplicate').map(
+      (article) => `Продукт с артикулом ${article} уже существует`,
+    );
+    const missing = articlesWith('missing');
+    const trashed = articlesWith('trashed');
+
+    return {
+      mode,
+      dryRun,
+      imported: created + updated,
+      created,
+      updated,
+      unchanged: count('unchanged'),
+      deleted,
+      errors: errors.length ? errors : undefined,
+      duplicates: duplicates.length ? duplicates : undefined,
+      missing: missing.length ? missing : undefined,
+      trashed: trashed.length ? trashed : undefined,
+      categories: categories.length ? categories : undefined,
+      rows: dryRun ? planned.map((item) => item.report) : undefined,
+    };
+  }
+
+  private collectErrors(planned: PlannedRow[]): string[] {
+    return planned
+      .filter((item) => item.report.action === 'invalid')
+      .map(
+        ({ report }) =>
+          `${report.sheet ? `Лист «${report.sheet}», с` : 'С'}трока ${
+            report.row
+          }: ${report.issues
+            .map((issue) => `${issue.column} — ${issue.message}`)
+            .join('; ')}`,
+      );
+  }
+
+  // Один запрос с массивом вместо IN (...), чтобы не упереться в лимит
+  // параметров на больших файлах
+  private async findByArticles(
+    repo: Repository<ProductEntity>,
+    articles: string[],
+  ): Promise<ProductEntity[]> {
+    if (!articles.length) return [];
+    // Артикулы из корзины тоже заняты: уникальный индекс их учитывает
+    return repo
+      .createQueryBuilder('product')
+      .withDeleted()
+      .where('product.article = ANY(:articles)', { articles })
+      .getMany();
+  }
+}
+
+// Изменённые поля; пустая ячейка в файле не затирает существующее значение
+function diffProduct(
+  current: Partial<ProductEntity>,
+  data: CreateProductDto,
+): Partial<ProductEntity> | null {
+  const changes: Partial<ProductEntity> = {};
+
+  for (const field of UPDATABLE_FIELDS) {
+    const value = data[field];
+    if (value === undefined) continue;
+
+    const currentValue =
+      field === 'price' && current.price != null
+        ? Number(current.price)
+        : current[field];
+    if (currentValue !== value) {
+      Object.assign(changes, { [field]: value });
+    }
+  }
+
+  // Атрибуты из файла дополняют текущие, остальные сохраняются
+  const attributes = data.attributes ?? {};
+  if (
+    Object.entries(attributes).some(
+      ([code, value]) => current.attributes?.[code] !== value,
+    )
+  ) {
+    changes.attributes = mergeAttributes(current.attributes, attributes);
+  }
+
+  return Object.keys(changes).length ? changes : null;
+}
+
+// Значения атрибутов категорий, которые не относятся к итоговой категории
+// товара; при смене категории проверяются и уже заданные значения.
+// Категория, которую импорт создал бы при dryRun, ещё без id — такая
+// строка не проверяется
+function scopeIssues(
+  item: PlannedRow,
+  current: Partial<ProductEntity> | undefined,
+  scoped: Map<string, AttributeEntity>,
+  scopes: Map<number, Set<number>>,
+): ImportRowIssue[] {
+  const product = item.product!;
+  if (item.categoryPath && !product.categoryId) return [];
+  const currentCategoryId = current?.categoryId ?? null;
+  const categoryId = product.categoryId ?? currentCategoryId;
+  const values =
+    categoryId === currentCategoryId
+      ? product.attributes ?? {}
+      : mergeAttributes(current?.attributes, product.attributes ?? {});
+  const scope = categoryId ? scopes.get(categoryId) : undefined;
+
+  return Object.entries(values).flatMap(([code, value]) => {
+    const attribute = scoped.get(code);
+    const message = attribute && attributeScopeError(attribute, scope);
+    return message
+      ? [
+          {
+            column: attribute.name,
+            code: 'invalid_attribute',
+            value: typeof value === 'boolean' ? String(value) : value,
+            message,
+          },
+        ]
+      : [];
+  });
+}
@@ -0,0 +1,46 @@
+import { NumberLocale } from '../dto/import-profile.dto';
+
+// Возвращает NaN, если строку не удалось разобрать как число.
+// Без локали разделители определяются по виду строки: «1 299,50»,
+// «1.299,50», «1,299.50» и «1299.5» дают одно и то же число
+export function parseNumber(value: string, locale?: NumberLocale): number {
+  // Пробелы (в т.ч. неразрывные) — разделители тысяч; обозначение валюты
+  // («руб.», «₽», «$») отбрасывается по краям
+  let normalized = value.replace(/\s/g, '').replace(/^[^\d-]+|[^\d]+$/g, '');
+
+  const decimalSeparator = locale
+    ? locale === 'ru'
+      ? ','
+      : '.'
+    : guessDecimalSeparator(normalized);
+  const groupSeparator = decimalSeparator === ',' ? '.' : ',';
+
+  normalized = normalized
+    .split(groupSeparator)
+    .join('')
+    .replace(decimalSeparator, '.');
+
+  if (!/^-?\d+(\.\d+)?$/.test(normalized)) return NaN;
+  return Number(normalized);
+}
+
+function guessDecimalSeparator(value: string): ',' | '.' {
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+
+  // Оба знака: десятичный — тот, что правее
+  if (lastComma !== -1 && lastDot !== -1) {
+    return lastComma > lastDot ? ',' : '.';
+  }
+
+  const separator = lastComma !== -1 ? ',' : '.';
+  // Повторяющийся знак — разделитель тысяч
+  if (value.split(separator).length > 2) {
+    return separator === ',' ? '.' : ',';
+  }
+  // «1,299» — скорее тысячи, «0,299» и «12,5» — дробь
+  if (separator === ',' && /^-?[1-9]\d{0,2},\d{3}$/.test(value)) {
+    return '.';
+  }
+  return separator;
+}
@@ -0,0 +1,364 @@
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { CreateProductDto } from '../dto/create-product.dto';
+import { ImportRowIssue } from '../dto/import-result.dto';
+import {
+  ImportColumnDto,
+  ImportTransform,
+  NumberLocale,
+  ProductImportField,
+} from '../dto/import-profile.dto';
+import { parseNumber } from './number-parser';
+import { AttributeEntity } from '../attributes/attribute.entity';
+import {
+  attributeValueError,
+  parseAttributeCell,
+} from '../attributes/attribute-values';
+import { ProductAttributes } from '../dto/attribute.dto';
+
+// Сопоставление по умолчанию — заголовки, которые исторически понимал импорт
+// и которые использует экспорт
+export const DEFAULT_COLUMN_MAPPING: ImportColumnDto[] = [
+  {
+    field: 'article',
+    headers: ['Артикул', 'артикул', 'Article', 'article', 'SKU', 'sku'],
+  },
+  {
+    field: 'name',
+    headers: [
+      'Название товара',
+      'название товара',
+      'Название',
+      'название',
+      'Name',
+      'name',
+      'Product Name',
+      'product name',
+    ],
+  },
+  { field: 'brand', headers: ['Бренд', 'бренд', 'Brand', 'brand'] },
+  {
+    field: 'price',
+    headers: ['Цена, руб.*', 'Цена', 'цена', 'Price', 'price'],
+  },
+  {
+    field: 'currency',
+    headers: ['Валюта', 'валюта', 'Currency', 'currency'],
+  },
+  { field: 'color', headers: ['Цвет', 'цвет', 'Color', 'color'] },
+  {
+    field: 'country',
+    headers: [
+      'Страна-изготовитель',
+      'страна-изготовитель',
+      'Страна',
+      'страна',
+      'Country',
+      'country',
+    ],
+  },
+  {
+    field: 'category',
+    headers: ['Категория', 'категория', 'Category', 'category'],
+  },
+  {
+    field: 'stock',
+    headers: [
+      'Остаток',
+      'остаток',
+      'Количество',
+      'количество',
+      'Stock',
+      'stock',
+    ],
+  },
+  {
+    field: 'image',
+    headers: [
+      'Изображение',
+      'изображение',
+      'Фото',
+      'фото',
+      'Image',
+      'image',
+      'Images',
+      'images',
+    ],
+  },
+];
+
+export interface ParsedProductRow {
+  // null, если в строке есть ошибки
+  product: CreateProductDto | null;
+  issues: ImportRowIssue[];
+  // Колонка, из которой взята валюта: колонка валюты или колонка цены
+  // с валютой в заголовке («Цена, руб.»)
+  currencyColumn?: string;
+  // «Обувь/Кроссовки» → ['Обувь', 'Кроссовки']; категории по этому пути
+  // находит или создаёт импорт
+  categoryPath?: string[];
+  // Остаток на складе импорта
+  stock?: number;
+  // Ссылки на изображения; скачиваются после записи товаров
+  images?: string[];
+}
+
+// Обозначения валют в заголовке колонки цены
+const HEADER_CURRENCIES: Record<string, string> = {
+  руб: 'RUB',
+  rub: 'RUB',
+  '₽': 'RUB',
+  тенге: 'KZT',
+  тг: 'KZT',
+  kzt: 'KZT',
+  '₸': 'KZT',
+  евро: 'EUR',
+  eur: 'EUR',
+  '€': 'EUR',
+  долл: 'USD',
+  usd: 'USD',
+  $: 'USD',
+};
+
+// «Цена, руб.*» → RUB, «Price (EUR)» → EUR
+export function currencyFromHeader(header: string): string | undefined {
+  const tokens = header.toLowerCase().match(/[a-zа-яё]+|[₽₸€$]/g) ?? [];
+  for (const token of tokens) {
+    if (HEADER_CURRENCIES[token]) return HEADER_CURRENCIES[token];
+  }
+  return undefined;
+}
+
+interface Cell {
+  header: string;
+  value: string;
+  // Числовая ячейка XLSX не требует разбора текста
+  numeric?: number;
+}
+
+// Числовая ячейка XLSX берётся как есть: локаль колонки описывает только
+// текст, и «1299.5» с локалью ru иначе превратилось бы в 12995
+function cellNumber(cell: Cell, locale?: NumberLocale): number {
+  return cell.numeric ?? parseNumber(cell.value, locale);
+}
+
+function applyTransforms(
+  value: string,
+  transforms: ImportTransform[] = ['trim'],
+): string {
+  return transforms.reduce((result, transform) => {
+    if (transform === 'trim') return result.trim();
+    if (transform === 'uppercase') return result.toUpperCase();
+    return result.toLowerCase();
+  }, value);
+}
+
+// Несколько ссылок в ячейке разделяются пробелами, «;» или запятой
+// перед следующей ссылкой
+function splitImageUrls(value: string): string[] {
+  return value
+    .split(/[\s;]+|,(?=\s*https?:\/\/)/i)
+    .map((url) => url.trim())
+    .filter(Boolean);
+}
+
+function isImageUrl(value: string): boolean {
+  if (value.length > 2048) return false;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// Первая непустая ячейка из заголовков колонки, иначе значение по умолчанию
+function pickCell(
+  row: Record<string, unknown>,
+  column: ImportColumnDto,
+): Cell | undefined {
+  for (const header of column.headers) {
+    const raw = row[header];
+    if (raw === undefined || raw === null) continue;
+    const value = applyTransforms(String(raw), column.transforms);
+    if (!value.trim()) continue;
+    return typeof raw === 'number'
+      ? { header, value, numeric: raw }
+      : { header, value };
+  }
+  if (column.default !== undefined && column.default !== '') {
+    return { header: column.headers[0], value: column.default };
+  }
+  return undefined;
+}
+
+// Колонки вне сопоставления, заголовок которых совпадает с названием или
+// кодом атрибута без учёта регистра: «Размер» → attributes.size
+function pickAttributes(
+  row: Record<string, unknown>,
+  mapping: ImportColumnDto[],
+  attributes: AttributeEntity[],
+  issues: ImportRowIssue[],
+): ProductAttributes | undefined {
+  const mapped = new Set(mapping.flatMap((column) => column.headers));
+  const byHeader = new Map<string, AttributeEntity>();
+  for (const attribute of attributes) {
+    byHeader.set(attribute.code.toLowerCase(), attribute);
+    byHeader.set(attribute.name.trim().toLowerCase(), attribute);
+  }
+
+  const values: ProductAttributes = {};
+  for (const [header, raw] of Object.entries(row)) {
+    if (mapped.has(header) || raw === undefined || raw === null) continue;
+    const attribute = byHeader.get(header.trim().toLowerCase());
+    const cell = String(raw).trim();
+    if (!attribute || !cell) continue;
+
+    const value = parseAttributeCell(attribute, cell);
+    const error = attributeValueError(attribute, value);
+    if (error) {
+      issues.push({
+        column: header,
+        code: 'invalid_attribute',
+        value: cell,
+        message: error,
+      });
+      continue;
+    }
+    values[attribute.code] = value;
+  }
+  return Object.keys(values).length ? values : undefined;
+}
+
+// attributes — описания атрибутов, значения которых ищутся в
+// оставшихся колонках
+export function parseProductRow(
+  row: Record<string, unknown>,
+  mapping: ImportColumnDto[] = DEFAULT_COLUMN_MAPPING,
+  attributes: AttributeEntity[] = [],
+): ParsedProductRow {
+  const issues: ImportRowIssue[] = [];
+  const columns = new Map(mapping.map((column) => [column.field, column]));
+  const cells = {} as Partial<Record<ProductImportField, Cell>>;
+  for (const column of mapping) {
+    cells[column.field] = pickCell(row, column);
+  }
+  const headerOf = (field: ProductImportField) =>
+    cells[field]?.header ?? columns.get(field)?.headers[0] ?? field;
+
+  for (const field of ['article', 'name'] as const) {
+    if (!cells[field]) {
+      issues.push({
+        column: headerOf(field),
+        code: 'required',
+        value: null,
+        message: 'Обязательное поле не заполнено',
+      });
+    }
+  }
+
+  let price: number | undefined;
+  if (cells.price) {
+    price = cellNumber(cells.price, columns.get('price')?.numberLocale);
+    if (isNaN(price)) {
+      issues.push({
+        column: cells.price.header,
+        code: 'invalid_number',
+        value: cells.price.value,
+        message: 'Цена не является числом',
+      });
+      price = undefined;
+    } else if (price < 0) {
+      issues.push({
+        column: cells.price.header,
+        code: 'invalid_number',
+        value: cells.price.value,
+        message: 'Цена не может быть отрицательной',
+      });
+      price = undefined;
+    }
+  }
+
+  let stock: number | undefined;
+  if (cells.stock) {
+    stock = cellNumber(cells.stock, columns.get('stock')?.numberLocale);
+    if (!Number.isInteger(stock) || stock < 0) {
+      issues.push({
+        column: cells.stock.header,
+        code: 'invalid_number',
+        value: cells.stock.value,
+        message: 'Остаток не является целым неотрицательным числом',
+      });
+      stock = undefined;
+    }
+  }
+
+  const images = cells.image && splitImageUrls(cells.image.value);
+  for (const url of images ?? []) {
+    if (!isImageUrl(url)) {
+      issues.push({
+        column: cells.image!.header,
+        code: 'invalid_url',
+        value: url,
+        message:
+          'Ссылка на изображение должна начинаться с http:// или https://',
+      });
+    }
+  }
+
+  const categoryPath = cells.category?.value
+    .split('/')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  if (categoryPath?.some((name) => name.length > 100)) {
+    issues.push({
+      column: cells.category!.header,
+      code: 'invalid_category',
+      value: cells.category!.value,
+      message: 'Название категории длиннее 100 символов',
+    });
+  }
+
+  const attributeValues = pickAttributes(row, mapping, attributes, issues);
+
+  if (issues.length) {
+    return { product: null, issues };
+  }
+
+  // Колонка валюты важнее валюты из заголовка цены
+  const headerCurrency = cells.price && currencyFromHeader(cells.price.header);
+  const currencyColumn =
+    cells.currency?.header ??
+    (headerCurrency ? cells.price!.header : undefined);
+
+  const product = plainToInstance(CreateProductDto, {
+    article: cells.article?.value,
+    name: cells.name?.value,
+    brand: cells.brand?.value,
+    price,
+    currency: cells.currency?.value ?? headerCurrency,
+    color: cells.color?.value,
+    country: cells.country?.value,
+    attributes: attributeValues,
+  });
+
+  for (const error of validateSync(product)) {
+    const field = error.property as ProductImportField;
+    for (const [code, message] of Object.entries(error.constraints ?? {})) {
+      issues.push({
+        column: headerOf(field),
+        code,
+        value: cells[field]?.value ?? error.value ?? null,
+        message,
+      });
+    }
+  }
+
+  return {
+    product: issues.length ? null : product,
+    issues,
+    currencyColumn,
+    categoryPath: categoryPath?.length ? categoryPath : undefined,
+    stock,
+    images: images?.length ? [...new Set(images)] : undefined,
+  };
+}
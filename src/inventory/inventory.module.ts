@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WarehousesService } from './warehouses.service';
+import { StockService } from './stock.service';
+import { WarehousesController } from './warehouses.controller';
+import { StockController } from './stock.controller';
+import { WarehouseEntity } from './warehouse.entity';
+import { StockLevelEntity } from './stock-level.entity';
+import { StockMovementEntity } from './stock-movement.entity';
+import { ProductEntity } from '../products/product.entity';
+
+// Склады, остатки и движения товаров; остатки товара —
+// GET /products/:id/stock
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      WarehouseEntity,
+      StockLevelEntity,
+      StockMovementEntity,
+      ProductEntity,
+    ]),
+  ],
+  providers: [WarehousesService, StockService],
+  controllers: [WarehousesController, StockController],
+  exports: [WarehousesService, StockService],
+})
+export class InventoryModule {}
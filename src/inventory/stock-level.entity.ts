@@ -0,0 +1,35 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  UpdateDateColumn,
+  Index,
+  Check,
+} from 'typeorm';
+
+// Остаток товара на складе. Строка появляется с первым движением;
+// меняет её только StockService вместе с записью движения
+@Entity('stock_levels')
+@Index(['productId', 'warehouseId'], { unique: true })
+@Check('"quantity" >= 0 AND "reserved" >= 0')
+export class StockLevelEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'int' })
+  productId: number;
+
+  @Column({ type: 'int' })
+  @Index()
+  warehouseId: number;
+
+  @Column({ type: 'int', default: 0 })
+  quantity: number;
+
+  // Отложено под заказы: продать можно quantity - reserved
+  @Column({ type: 'int', default: 0 })
+  reserved: number;
+
+  @UpdateDateColumn({ precision: 3 })
+  updatedAt: Date;
+}
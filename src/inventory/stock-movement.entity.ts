@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { AuditSource } from '../dto/audit.dto';
+import { StockMovementType } from '../dto/inventory.dto';
+
+// Журнал движений товара; остатки в stock_levels — их итог
+@Entity('stock_movements')
+@Index(['productId', 'createdAt'])
+export class StockMovementEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', length: 20 })
+  type: StockMovementType;
+
+  @Column({ type: 'int' })
+  productId: number;
+
+  @Column({ type: 'int' })
+  @Index()
+  warehouseId: number;
+
+  // Склад-получатель перемещения
+  @Column({ type: 'int', nullable: true })
+  targetWarehouseId?: number | null;
+
+  // Изменение остатка на складе warehouseId: у прихода больше нуля, у
+  // продажи и перемещения меньше. Перемещение прибавляет столько же
+  // на targetWarehouseId
+  @Column({ type: 'int' })
+  quantity: number;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  comment?: string | null;
+
+  @Column({ type: 'varchar', length: 20, default: 'api' })
+  source: AuditSource;
+
+  @Column({ type: 'int', nullable: true })
+  @Index()
+  importJobId?: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  actorId?: number | null;
+
+  @CreateDateColumn({ precision: 3 })
+  createdAt: Date;
+}
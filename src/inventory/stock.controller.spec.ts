@@ -0,0 +1,90 @@
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { StockController } from './stock.controller';
+import { StockService } from './stock.service';
+import { authAs, createControllerApp } from '../testing/controller-app';
+
+describe('StockController', () => {
+  let app: INestApplication;
+  let stockService: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    stockService = {
+      findMovements: jest.fn().mockResolvedValue({ items: [], total: 0 }),
+      move: jest.fn(async (data) => ({ id: 1, ...data })),
+      release: jest.fn().mockResolvedValue({ quantity: 5, reserved: 0 }),
+    };
+    app = await createControllerApp(StockController, [
+      { provide: StockService, useValue: stockService },
+    ]);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const receipt = {
+    type: 'receipt',
+    productId: 7,
+    warehouseId: 1,
+    quantity: 5,
+  };
+
+  it('records a movement on behalf of the editor', async () => {
+    const server = app.getHttpServer();
+    await request(server)
+      .post('/stock/movements')
+      .set(authAs('viewer'))
+      .send(receipt)
+      .expect(403);
+    await request(server)
+      .post('/stock/movements')
+      .set(authAs('editor'))
+      .send(receipt)
+      .expect(201);
+
+    expect(stockService.move).toHaveBeenCalledTimes(1);
+    expect(stockService.move).toHaveBeenCalledWith(
+      receipt,
+      expect.objectContaining({ role: 'editor' }),
+    );
+  });
+
+  it('rejects movements of zero or of an unknown type', async () => {
+    const server = app.getHttpServer();
+    for (const body of [
+      { ...receipt, quantity: 0 },
+      { ...receipt, type: 'gift' },
+    ]) {
+      await request(server)
+        .post('/stock/movements')
+        .set(authAs('editor'))
+        .send(body)
+        .expect(400);
+    }
+
+    expect(stockService.move).not.toHaveBeenCalled();
+  });
+
+  it('releases a reservation with 200 and filters movements by query', async () => {
+    const server = app.getHttpServer();
+    await request(server)
+      .post('/stock/reservations/release')
+      .set(authAs('editor'))
+      .send({ productId: 7, warehouseId: 1, quantity: 2 })
+      .expect(200);
+    await request(server)
+      .get('/stock/movements?productId=7&type=sale')
+      .set(authAs('viewer'))
+      .expect(200);
+
+    expect(stockService.release).toHaveBeenCalledWith({
+      productId: 7,
+      warehouseId: 1,
+      quantity: 2,
+    });
+    expect(stockService.findMovements).toHaveBeenCalledWith(
+      expect.objectContaining({ productId: 7, type: 'sale', page: 1 }),
+    );
+  });
+});
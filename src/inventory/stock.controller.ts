@@ -0,0 +1,56 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { StockService } from './stock.service';
+import { StockMovementEntity } from './stock-movement.entity';
+import {
+  CreateStockMovementDto,
+  StockMovementQueryDto,
+  StockReservationDto,
+  WarehouseStock,
+} from '../dto/inventory.dto';
+import { PaginatedResult } from '../dto/paginated-result.dto';
+import { Roles } from '../auth/roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { AuthUser } from '../dto/auth.dto';
+
+// Движения и резервы; остатки товара — GET /products/:id/stock
+@Controller('stock')
+export class StockController {
+  constructor(private readonly stockService: StockService) {}
+
+  @Get('movements')
+  async getMovements(
+    @Query() query: StockMovementQueryDto,
+  ): Promise<PaginatedResult<StockMovementEntity>> {
+    return this.stockService.findMovements(query);
+  }
+
+  @Roles('editor')
+  @Post('movements')
+  async move(
+    @Body() data: CreateStockMovementDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<StockMovementEntity> {
+    return this.stockService.move(data, user);
+  }
+
+  @Roles('editor')
+  @Post('reservations')
+  async reserve(@Body() data: StockReservationDto): Promise<WarehouseStock> {
+    return this.stockService.reserve(data);
+  }
+
+  @Roles('editor')
+  @Post('reservations/release')
+  @HttpCode(HttpStatus.OK)
+  async release(@Body() data: StockReservationDto): Promise<WarehouseStock> {
+    return this.stockService.release(data);
+  }
+}
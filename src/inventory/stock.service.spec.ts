@@ -0,0 +1,233 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { StockService } from './stock.service';
+import { StockLevelEntity } from './stock-level.entity';
+import { StockMovementEntity } from './stock-movement.entity';
+import { WarehousesService } from './warehouses.service';
+import { ProductEntity } from '../products/product.entity';
+import {
+  InsufficientStockException,
+  ProductNotFoundException,
+} from '../errors/domain.exceptions';
+
+describe('StockService', () => {
+  let service: StockService;
+  // Остатки по складу: warehouseId → { quantity, reserved }
+  let levels: Map<number, { id: number; quantity: number; reserved: number }>;
+  let levelsRepo: Record<string, jest.Mock>;
+  let movementsRepo: Record<string, jest.Mock>;
+  let productsRepo: { existsBy: jest.Mock };
+  let warehousesService: { findOne: jest.Mock; findByIds: jest.Mock };
+
+  beforeEach(async () => {
+    levels = new Map([
+      [1, { id: 11, quantity: 10, reserved: 4 }],
+      [2, { id: 12, quantity: 0, reserved: 0 }],
+    ]);
+    const insertQuery = {
+      insert: jest.fn().mockReturnThis(),
+      values: jest.fn().mockReturnThis(),
+      orIgnore: jest.fn().mockReturnThis(),
+      execute: jest.fn(),
+    };
+    levelsRepo = {
+      find: jest.fn(async () =>
+        [...levels].map(([warehouseId, level]) => ({
+          ...level,
+          productId: 7,
+          warehouseId,
+        })),
+      ),
+      findOne: jest.fn(async ({ where }) => ({
+        ...levels.get(where.warehouseId),
+        ...where,
+      })),
+      update: jest.fn(),
+      upsert: jest.fn(),
+      delete: jest.fn(),
+      createQueryBuilder: jest.fn(() => insertQuery),
+    };
+    movementsRepo = {
+      create: jest.fn((data) => data),
+      save: jest.fn(async (data) => ({ id: 1, ...data })),
+      insert: jest.fn(),
+    };
+    const manager = {
+      transaction: jest.fn((work) => work(manager)),
+      getRepository: (entity: unknown) =>
+        entity === StockLevelEntity ? levelsRepo : movementsRepo,
+    };
+    productsRepo = { existsBy: jest.fn().mockResolvedValue(true) };
+    warehousesService = {
+      findOne: jest.fn(async (id) => ({ id, code: `W${id}`, name: 'Склад' })),
+      findByIds: jest.fn(
+        async (ids: number[]) =>
+          new Map(ids.map((id) => [id, { id, code: `W${id}`, name: 'Склад' }])),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockService,
+        {
+          provide: getRepositoryToken(StockLevelEntity),
+          useValue: { ...levelsRepo, manager },
+        },
+        {
+          provide: getRepositoryToken(StockMovementEntity),
+          useValue: movementsRepo,
+        },
+        { provide: getRepositoryToken(ProductEntity), useValue: productsRepo },
+        { provide: WarehousesService, useValue: warehousesService },
+      ],
+    }).compile();
+
+    service = module.get<StockService>(StockService);
+  });
+
+  it('sums stock of a product over warehouses', async () => {
+    await expect(service.findForProduct(7)).resolves.toEqual({
+      productId: 7,
+      quantity: 10,
+      reserved: 4,
+      available: 6,
+      warehouses: [
+        {
+          warehouseId: 1,
+          code: 'W1',
+          name: 'Склад',
+          quantity: 10,
+          reserved: 4,
+          available: 6,
+        },
+        {
+          warehouseId: 2,
+          code: 'W2',
+          name: 'Склад',
+          quantity: 0,
+          reserved: 0,
+          available: 0,
+        },
+      ],
+    });
+
+    productsRepo.existsBy.mockResolvedValue(false);
+    await expect(service.findForProduct(8)).rejects.toBeInstanceOf(
+      ProductNotFoundException,
+    );
+  });
+
+  it('records a sale as a negative movement', async () => {
+    const movement = await service.move(
+      { type: 'sale', productId: 7, warehouseId: 1, quantity: 2 },
+      { id: 5 } as never,
+    );
+
+    expect(levelsRepo.findOne).toHaveBeenCalledWith({
+      where: { productId: 7, warehouseId: 1 },
+      lock: { mode: 'pessimistic_write' },
+    });
+    expect(levelsRepo.update).toHaveBeenCalledWith(11, {
+      quantity: 8,
+      reserved: 4,
+    });
+    expect(movement).toMatchObject({ type: 'sale', quantity: -2, actorId: 5 });
+  });
+
+  it('does not sell reserved stock unless the sale is from the reserve', async () => {
+    await expect(
+      service.move({ type: 'sale', productId: 7, warehouseId: 1, quantity: 7 }),
+    ).rejects.toBeInstanceOf(InsufficientStockException);
+
+    await service.move({
+      type: 'sale',
+      productId: 7,
+      warehouseId: 1,
+      quantity: 4,
+      fromReserve: true,
+    });
+    expect(levelsRepo.update).toHaveBeenCalledWith(11, {
+      quantity: 6,
+      reserved: 0,
+    });
+  });
+
+  it('moves stock between warehouses', async () => {
+    const movement = await service.move({
+      type: 'transfer',
+      productId: 7,
+      warehouseId: 1,
+      targetWarehouseId: 2,
+      quantity: 5,
+    });
+
+    expect(levelsRepo.update).toHaveBeenCalledWith(11, {
+      quantity: 5,
+      reserved: 4,
+    });
+    expect(levelsRepo.update).toHaveBeenCalledWith(12, {
+      quantity: 5,
+      reserved: 0,
+    });
+    expect(movement).toMatchObject({ targetWarehouseId: 2, quantity: -5 });
+
+    await expect(
+      service.move({
+        type: 'transfer',
+        productId: 7,
+        warehouseId: 1,
+        quantity: 1,
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('reserves only available stock', async () => {
+    await expect(
+      service.reserve({ productId: 7, warehouseId: 1, quantity: 6 }),
+    ).resolves.toMatchObject({ quantity: 10, reserved: 10, available: 0 });
+
+    await expect(
+      service.reserve({ productId: 7, warehouseId: 1, quantity: 7 }),
+    ).rejects.toBeInstanceOf(InsufficientStockException);
+    await expect(
+      service.release({ productId: 7, warehouseId: 2, quantity: 1 }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('replaces imported counts and logs the difference', async () => {
+    const manager = {
+      getRepository: (entity: unknown) =>
+        entity === StockLevelEntity ? levelsRepo : movementsRepo,
+    };
+    levelsRepo.find.mockResolvedValue([
+      { productId: 7, warehouseId: 1, quantity: 10, reserved: 4 },
+      { productId: 8, warehouseId: 1, quantity: 3, reserved: 0 },
+    ]);
+
+    const changed = await service.applyCounts(
+      manager as never,
+      1,
+      [
+        { productId: 7, quantity: 12 },
+        { productId: 8, quantity: 3 },
+        { productId: 9, quantity: 1 },
+        { productId: 9, quantity: 2 },
+      ],
+      { actorId: 5, importJobId: 4 },
+    );
+
+    expect(changed).toBe(2);
+    expect(levelsRepo.upsert).toHaveBeenCalledWith(
+      [
+        { productId: 7, warehouseId: 1, quantity: 12 },
+        { productId: 9, warehouseId: 1, quantity: 2 },
+      ],
+      ['productId', 'warehouseId'],
+    );
+    expect(movementsRepo.insert).toHaveBeenCalledWith([
+      expect.objectContaining({ productId: 7, quantity: 2, source: 'import' }),
+      expect.objectContaining({ productId: 9, quantity: 2, importJobId: 4 }),
+    ]);
+  });
+});
@@ -0,0 +1,342 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { StockLevelEntity } from './stock-level.entity';
+import { StockMovementEntity } from './stock-movement.entity';
+import { WarehousesService } from './warehouses.service';
+import { ProductEntity } from '../products/product.entity';
+import { AuthUser } from '../dto/auth.dto';
+import { PaginatedResult } from '../dto/paginated-result.dto';
+import {
+  CreateStockMovementDto,
+  ProductStock,
+  StockBalance,
+  StockMovementQueryDto,
+  StockReservationDto,
+  WarehouseStock,
+} from '../dto/inventory.dto';
+import {
+  InsufficientStockException,
+  ProductNotFoundException,
+} from '../errors/domain.exceptions';
+
+// Остатки из файла импорта на одном складе
+export interface StockCount {
+  productId: number;
+  quantity: number;
+}
+
+const BATCH_SIZE = 500;
+
+function balance({
+  quantity,
+  reserved,
+}: Pick<StockLevelEntity, 'quantity' | 'reserved'>): StockBalance {
+  return { quantity, reserved, available: Math.max(quantity - reserved, 0) };
+}
+
+@Injectable()
+export class StockService {
+  constructor(
+    @InjectRepository(StockLevelEntity)
+    private readonly levelsRepo: Repository<StockLevelEntity>,
+    @InjectRepository(StockMovementEntity)
+    private readonly movementsRepo: Repository<StockMovementEntity>,
+    @InjectRepository(ProductEntity)
+    private readonly productsRepo: Repository<ProductEntity>,
+    private readonly warehousesService: WarehousesService,
+  ) {}
+
+  // Остатки товара по складам и в сумме; склады, где товара не было,
+  // не показываются
+  async findForProduct(productId: number): Promise<ProductStock> {
+    await this.assertProductExists(productId);
+    const levels = await this.levelsRepo.find({
+      where: { productId },
+      order: { warehouseId: 'ASC' },
+    });
+    const warehouses = await this.warehousesService.findByIds(
+      levels.map((level) => level.warehouseId),
+    );
+
+    const items: WarehouseStock[] = levels.map((level) => ({
+      warehouseId: level.warehouseId,
+      code: warehouses.get(level.warehouseId)?.code ?? '',
+      name: warehouses.get(level.warehouseId)?.name ?? '',
+      ...balance(level),
+    }));
+    const total = items.reduce(
+      (sum, item) => ({
+        quantity: sum.quantity + item.quantity,
+        reserved: sum.reserved + item.reserved,
+        available: sum.available + item.available,
+      }),
+      { quantity: 0, reserved: 0, available: 0 },
+    );
+    return { productId, ...total, warehouses: items };
+  }
+
+  async findMovements(
+    query: StockMovementQueryDto,
+  ): Promise<PaginatedResult<StockMovementEntity>> {
+    const { page, limit } = query;
+    const queryBuilder = this.movementsRepo.createQueryBuilder('movement');
+
+    for (const field of ['productId', 'type'] as const) {
+      if (query[field] !== undefined) {
+        queryBuilder.andWhere(`movement.${field} = :${field}`, {
+          [field]: query[field],
+        });
+      }
+    }
+    if (query.warehouseId !== undefined) {
+      queryBuilder.andWhere(
+        '(movement.warehouseId = :warehouseId OR movement.targetWarehouseId = :warehouseId)',
+        { warehouseId: query.warehouseId },
+      );
+    }
+    if (query.from) {
+      queryBuilder.andWhere('movement.createdAt >= :from', {
+        from: query.from,
+      });
+    }
+    if (query.to) {
+      queryBuilder.andWhere('movement.createdAt <= :to', { to: query.to });
+    }
+
+    const [items, total] = await queryBuilder
+      .orderBy('movement.createdAt', 'DESC')
+      .addOrderBy('movement.id', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      items,
+      total,
+      page,
+      pageCount: Math.ceil(total / limit),
+      nextCursor: null,
+    };
+  }
+
+  // Меняет остаток и записывает движение в одной транзакции
+  async move(
+    data: CreateStockMovementDto,
+    actor?: AuthUser,
+  ): Promise<StockMovementEntity> {
+    const { type, productId, warehouseId, targetWarehouseId, quantity } = data;
+    if (type !== 'adjustment' && quantity < 0) {
+      throw new BadRequestException(
+        'Количество должно быть больше нуля; со знаком задаётся только adjustment',
+      );
+    }
+    if (type === 'transfer') {
+      if (!targetWarehouseId) {
+        throw new BadRequestException(
+          'Укажите склад-получатель (targetWarehouseId)',
+        );
+      }
+      if (targetWarehouseId === warehouseId) {
+        throw new BadRequestException('Склад-получатель совпадает со складом');
+      }
+    } else if (targetWarehouseId) {
+      throw new BadRequestException(
+        'targetWarehouseId задаётся только для transfer',
+      );
+    }
+    if (data.fromReserve && type !== 'sale') {
+      throw new BadRequestException('fromReserve задаётся только для sale');
+    }
+    await this.assertProductExists(productId);
+    await this.warehousesService.findOne(warehouseId);
+    if (targetWarehouseId) {
+      await this.warehousesService.findOne(targetWarehouseId);
+    }
+
+    const change =
+      type === 'receipt' || type === 'adjustment' ? quantity : -quantity;
+    return this.levelsRepo.manager.transaction(async (manager) => {
+      // Строки перемещения блокируются в порядке id склада, чтобы
+      // встречные перемещения не ждали друг друга
+      const changes = [
+        { warehouseId, change },
+        ...(targetWarehouseId
+          ? [{ warehouseId: targetWarehouseId, change: quantity }]
+          : []),
+      ].sort((a, b) => a.warehouseId - b.warehouseId);
+      for (const item of changes) {
+        await this.changeLevel(
+          manager,
+          productId,
+          item.warehouseId,
+          item.change,
+          data.fromReserve && item.warehouseId === warehouseId ? change : 0,
+        );
+      }
+
+      const repo = manager.getRepository(StockMovementEntity);
+      return repo.save(
+        repo.create({
+          type,
+          productId,
+          warehouseId,
+          targetWarehouseId: targetWarehouseId ?? null,
+          quantity: change,
+          comment: data.comment ?? null,
+          actorId: actor?.id,
+        }),
+      );
+    });
+  }
+
+  // Резерв не двигает товар и в журнал движений не пишется
+  async reserve(data: StockReservationDto): Promise<WarehouseStock> {
+    return this.changeReserve(data, data.quantity);
+  }
+
+  async release(data: StockReservationDto): Promise<WarehouseStock> {
+    return this.changeReserve(data, -data.quantity);
+  }
+
+  // Остатки из файла поставщика заменяют текущие; разница записывается
+  // как adjustment. Резерв не меняется, даже если остаток стал меньше
+  // него. Возвращает число товаров, остаток которых изменился
+  async applyCounts(
+    manager: EntityManager,
+    warehouseId: number,
+    counts: StockCount[],
+    source: { actorId?: number; importJobId?: number } = {},
+  ): Promise<number> {
+    // Повтор товара в файле: действует последняя строка
+    const latest = [
+      ...new Map(counts.map((count) => [count.productId, count])).values(),
+    ];
+    const levels = manager.getRepository(StockLevelEntity);
+    const movements = manager.getRepository(StockMovementEntity);
+    let changed = 0;
+
+    for (let offset = 0; offset < latest.length; offset += BATCH_SIZE) {
+      const batch = latest.slice(offset, offset + BATCH_SIZE);
+      const current = await levels.find({
+        where: {
+          warehouseId,
+          productId: In(batch.map((count) => count.productId)),
+        },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const quantities = new Map(
+        current.map((level) => [level.productId, level.quantity]),
+      );
+      const updates = batch.filter(
+        (count) => (quantities.get(count.productId) ?? 0) !== count.quantity,
+      );
+      if (!updates.length) continue;
+
+      await levels.upsert(
+        updates.map(({ productId, quantity }) => ({
+          productId,
+          warehouseId,
+          quantity,
+        })),
+        ['productId', 'warehouseId'],
+      );
+      await movements.insert(
+        updates.map(({ productId, quantity }) => ({
+          type: 'adjustment' as const,
+          productId,
+          warehouseId,
+          quantity: quantity - (quantities.get(productId) ?? 0),
+          comment: 'Остатки из файла импорта',
+          source: 'import' as const,
+          actorId: source.actorId,
+          importJobId: source.importJobId,
+        })),
+      );
+      changed += updates.length;
+    }
+    return changed;
+  }
+
+  // Остатки окончательно удалённых товаров; движения остаются в журнале
+  async removeForProducts(
+    productIds: number[],
+    manager?: EntityManager,
+  ): Promise<void> {
+    if (!productIds.length) return;
+    const repo = manager
+      ? manager.getRepository(StockLevelEntity)
+      : this.levelsRepo;
+    await repo.delete({ productId: In(productIds) });
+  }
+
+  private async changeReserve(
+    { productId, warehouseId }: StockReservationDto,
+    change: number,
+  ): Promise<WarehouseStock> {
+    await this.assertProductExists(productId);
+    const warehouse = await this.warehousesService.findOne(warehouseId);
+
+    const level = await this.levelsRepo.manager.transaction((manager) =>
+      this.changeLevel(manager, productId, warehouseId, 0, change),
+    );
+    return {
+      warehouseId,
+      code: warehouse.code,
+      name: warehouse.name,
+      ...balance(level),
+    };
+  }
+
+  // Строка остатка блокируется до конца транзакции: параллельные продажи
+  // не уведут остаток в минус. Продать и зарезервировать можно только
+  // свободный от резерва товар, если продажа не из резерва
+  private async changeLevel(
+    manager: EntityManager,
+    productId: number,
+    warehouseId: number,
+    change: number,
+    reserveChange = 0,
+  ): Promise<StockLevelEntity> {
+    const repo = manager.getRepository(StockLevelEntity);
+    await repo
+      .createQueryBuilder()
+      .insert()
+      .values({ productId, warehouseId })
+      .orIgnore()
+      .execute();
+    const level = (await repo.findOne({
+      where: { productId, warehouseId },
+      lock: { mode: 'pessimistic_write' },
+    }))!;
+
+    const quantity = level.quantity + change;
+    const reserved = level.reserved + reserveChange;
+    if (reserved < 0) {
+      throw new BadRequestException(
+        `В резерве на складе только ${level.reserved} шт.`,
+      );
+    }
+    // После импорта остаток может оказаться меньше резерва: приход в
+    // такой ситуации разрешён, а уменьшение свободного остатка — нет
+    const available = level.quantity - level.reserved;
+    if (
+      quantity < 0 ||
+      (quantity < reserved && quantity - reserved < available)
+    ) {
+      throw new InsufficientStockException(
+        Math.max(available, 0),
+        Math.max(-change, reserveChange),
+      );
+    }
+
+    await repo.update(level.id, { quantity, reserved });
+    return { ...level, quantity, reserved };
+  }
+
+  private async assertProductExists(productId: number): Promise<void> {
+    if (!(await this.productsRepo.existsBy({ id: productId }))) {
+      throw new ProductNotFoundException({ id: productId });
+    }
+  }
+}
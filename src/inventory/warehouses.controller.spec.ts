@@ -0,0 +1,62 @@
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { WarehousesController } from './warehouses.controller';
+import { WarehousesService } from './warehouses.service';
+import { authAs, createControllerApp } from '../testing/controller-app';
+
+describe('WarehousesController', () => {
+  let app: INestApplication;
+  let warehousesService: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    warehousesService = {
+      findAll: jest.fn().mockResolvedValue([]),
+      create: jest.fn(async (data) => ({ id: 2, ...data })),
+      update: jest.fn(async (id, data) => ({ id, ...data })),
+    };
+    app = await createControllerApp(WarehousesController, [
+      { provide: WarehousesService, useValue: warehousesService },
+    ]);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('lets viewers list warehouses but not create them', async () => {
+    const server = app.getHttpServer();
+    await request(server).get('/warehouses').set(authAs('viewer')).expect(200);
+    await request(server)
+      .post('/warehouses')
+      .set(authAs('viewer'))
+      .send({ code: 'MSK', name: 'Москва' })
+      .expect(403);
+
+    expect(warehousesService.create).not.toHaveBeenCalled();
+  });
+
+  it('validates warehouse codes and keeps the code unchangeable', async () => {
+    const server = app.getHttpServer();
+    await request(server)
+      .post('/warehouses')
+      .set(authAs('editor'))
+      .send({ code: 'Склад 1', name: 'Москва' })
+      .expect(400);
+    await request(server)
+      .patch('/warehouses/2')
+      .set(authAs('editor'))
+      .send({ code: 'SPB' })
+      .expect(400);
+    await request(server)
+      .patch('/warehouses/2')
+      .set(authAs('editor'))
+      .send({ address: null })
+      .expect(200);
+
+    expect(warehousesService.create).not.toHaveBeenCalled();
+    expect(warehousesService.update).toHaveBeenCalledTimes(1);
+    expect(warehousesService.update).toHaveBeenCalledWith(2, {
+      address: null,
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { WarehousesService } from './warehouses.service';
+import { WarehouseEntity } from './warehouse.entity';
+import { CreateWarehouseDto, UpdateWarehouseDto } from '../dto/inventory.dto';
+import { Roles } from '../auth/roles.decorator';
+
+@Controller('warehouses')
+export class WarehousesController {
+  constructor(private readonly warehousesService: WarehousesService) {}
+
+  @Get()
+  async getAll(): Promise<WarehouseEntity[]> {
+    return this.warehousesService.findAll();
+  }
+
+  @Get(':id')
+  async getOne(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<WarehouseEntity> {
+    return this.warehousesService.findOne(id);
+  }
+
+  @Roles('editor')
+  @Post()
+  async create(@Body() data: CreateWarehouseDto): Promise<WarehouseEntity> {
+    return this.warehousesService.create(data);
+  }
+
+  @Roles('editor')
+  @Patch(':id')
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() data: UpdateWarehouseDto,
+  ): Promise<WarehouseEntity> {
+    return this.warehousesService.update(id, data);
+  }
+
+  // Только склад без остатков и резервов
+  @Roles('editor')
+  @Delete(':id')
+  async remove(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<{ message: string }> {
+    await this.warehousesService.remove(id);
+    return { message: 'Склад удалён' };
+  }
+}
@@ -0,0 +1,93 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConflictException } from '@nestjs/common';
+import { WarehousesService } from './warehouses.service';
+import { WarehouseEntity } from './warehouse.entity';
+import { StockLevelEntity } from './stock-level.entity';
+import {
+  DuplicateWarehouseException,
+  InvalidImportFileException,
+  WarehouseNotFoundException,
+} from '../errors/domain.exceptions';
+
+describe('WarehousesService', () => {
+  const moscow = { id: 1, code: 'MSK', name: 'Москва' };
+
+  let service: WarehousesService;
+  let warehousesRepo: Record<string, jest.Mock>;
+  let queryBuilder: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    queryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getCount: jest.fn().mockResolvedValue(0),
+    };
+    warehousesRepo = {
+      find: jest.fn().mockResolvedValue([moscow]),
+      findOneBy: jest.fn(async (where) =>
+        Object.entries(where).every(
+          ([key, value]) => moscow[key as keyof typeof moscow] === value,
+        )
+          ? moscow
+          : null,
+      ),
+      countBy: jest.fn().mockResolvedValue(0),
+      create: jest.fn((data) => data),
+      save: jest.fn(async (data) => ({ id: 2, ...data })),
+      delete: jest.fn(),
+    };
+    const manager = {
+      transaction: jest.fn((work) =>
+        work({ getRepository: () => warehousesRepo }),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WarehousesService,
+        {
+          provide: getRepositoryToken(WarehouseEntity),
+          useValue: { ...warehousesRepo, manager },
+        },
+        {
+          provide: getRepositoryToken(StockLevelEntity),
+          useValue: { createQueryBuilder: () => queryBuilder },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WarehousesService>(WarehousesService);
+  });
+
+  it('rejects a duplicate code', async () => {
+    warehousesRepo.countBy.mockResolvedValue(1);
+
+    await expect(
+      service.create({ code: 'MSK', name: 'Москва' }),
+    ).rejects.toBeInstanceOf(DuplicateWarehouseException);
+  });
+
+  it('picks the import warehouse by code or the only one', async () => {
+    await expect(service.findForImport('MSK')).resolves.toBe(moscow);
+    await expect(service.findForImport()).resolves.toBe(moscow);
+    await expect(service.findForImport('SPB')).rejects.toBeInstanceOf(
+      WarehouseNotFoundException,
+    );
+
+    warehousesRepo.find.mockResolvedValue([moscow, { id: 2 }]);
+    await expect(service.findForImport()).rejects.toBeInstanceOf(
+      InvalidImportFileException,
+    );
+  });
+
+  it('deletes only a warehouse without stock', async () => {
+    queryBuilder.getCount.mockResolvedValue(3);
+    await expect(service.remove(1)).rejects.toBeInstanceOf(ConflictException);
+    expect(warehousesRepo.delete).not.toHaveBeenCalled();
+
+    queryBuilder.getCount.mockResolvedValue(0);
+    await service.remove(1);
+    expect(warehousesRepo.delete).toHaveBeenCalledWith(1);
+  });
+});
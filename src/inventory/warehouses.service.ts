@@ -0,0 +1,97 @@
+import { ConflictException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { WarehouseEntity } from './warehouse.entity';
+import { StockLevelEntity } from './stock-level.entity';
+import { CreateWarehouseDto, UpdateWarehouseDto } from '../dto/inventory.dto';
+import {
+  DuplicateWarehouseException,
+  InvalidImportFileException,
+  WarehouseNotFoundException,
+} from '../errors/domain.exceptions';
+
+@Injectable()
+export class WarehousesService {
+  constructor(
+    @InjectRepository(WarehouseEntity)
+    private readonly warehousesRepo: Repository<WarehouseEntity>,
+    @InjectRepository(StockLevelEntity)
+    private readonly levelsRepo: Repository<StockLevelEntity>,
+  ) {}
+
+  async findAll(): Promise<WarehouseEntity[]> {
+    return this.warehousesRepo.find({ order: { code: 'ASC' } });
+  }
+
+  async findOne(id: number): Promise<WarehouseEntity> {
+    const warehouse = await this.warehousesRepo.findOneBy({ id });
+    if (!warehouse) {
+      throw new WarehouseNotFoundException({ id });
+    }
+    return warehouse;
+  }
+
+  async findByIds(ids: number[]): Promise<Map<number, WarehouseEntity>> {
+    const warehouses = ids.length
+      ? await this.warehousesRepo.findBy({ id: In(ids) })
+      : [];
+    return new Map(warehouses.map((warehouse) => [warehouse.id, warehouse]));
+  }
+
+  // Склад для колонки остатков импорта: по коду, а если код не задан —
+  // единственный склад
+  async findForImport(code?: string): Promise<WarehouseEntity> {
+    if (code) {
+      const warehouse = await this.warehousesRepo.findOneBy({ code });
+      if (!warehouse) {
+        throw new WarehouseNotFoundException({ code });
+      }
+      return warehouse;
+    }
+
+    const warehouses = await this.warehousesRepo.find({ take: 2 });
+    if (warehouses.length !== 1) {
+      throw new InvalidImportFileException(
+        warehouses.length
+          ? 'В файле есть колонка остатков: укажите склад (warehouse)'
+          : 'В файле есть колонка остатков, но не создано ни одного склада',
+      );
+    }
+    return warehouses[0];
+  }
+
+  async create(data: CreateWarehouseDto): Promise<WarehouseEntity> {
+    if (await this.warehousesRepo.countBy({ code: data.code })) {
+      throw new DuplicateWarehouseException(data.code);
+    }
+    return this.warehousesRepo.save(this.warehousesRepo.create(data));
+  }
+
+  async update(id: number, data: UpdateWarehouseDto): Promise<WarehouseEntity> {
+    await this.findOne(id);
+    if (Object.keys(data).length) {
+      await this.warehousesRepo.update(id, data);
+    }
+    return this.findOne(id);
+  }
+
+  // Удаляется только пустой склад; журнал движений по нему сохраняется
+  async remove(id: number): Promise<void> {
+    const warehouse = await this.findOne(id);
+    const stocked = await this.levelsRepo
+      .createQueryBuilder('level')
+      .where('level.warehouseId = :id', { id })
+      .andWhere('(level.quantity > 0 OR level.reserved > 0)')
+      .getCount();
+    if (stocked) {
+      throw new ConflictException(
+        `На складе ${warehouse.name} есть остатки ${stocked} товаров`,
+      );
+    }
+
+    await this.warehousesRepo.manager.transaction(async (manager) => {
+      await manager.getRepository(StockLevelEntity).delete({ warehouseId: id });
+      await manager.getRepository(WarehouseEntity).delete(id);
+    });
+  }
+}
@@ -1,9 +1,17 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { ValidationPipe } from '@nestjs/common';
+import { resolve } from 'path';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // PATCH /products/:id принимает и JSON Merge Patch; парсер json
+  // заменяет стандартный, поэтому application/json указан явно
+  app.useBodyParser('json', {
+    type: ['application/json', 'application/merge-patch+json'],
+  });
 
   // Включаем CORS для фронтенда
   app.enableCors({
@@ -11,6 +19,12 @@ async function bootstrap() {
     credentials: true,
   });
 
+  // Изображения товаров из локального хранилища (MEDIA_DIR)
+  app.useStaticAssets(resolve(process.env.MEDIA_DIR ?? 'uploads'), {
+    prefix: '/media',
+    index: false,
+  });
+
   // Глобальная валидация
   app.useGlobalPipes(
     new ValidationPipe({
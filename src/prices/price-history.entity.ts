@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { AuditSource } from '../dto/audit.dto';
+import { BASE_CURRENCY } from '../dto/currency.dto';
+
+// Каждое изменение цены или её валюты; previousPrice и previousCurrency
+// хранятся рядом, чтобы отчёт по импорту не искал предыдущую запись
+@Entity('product_prices')
+@Index(['productId', 'changedAt'])
+export class PriceHistoryEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'int' })
+  productId: number;
+
+  // null — цену убрали
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  price?: number | null;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  previousPrice?: number | null;
+
+  @Column({ type: 'varchar', length: 3, default: BASE_CURRENCY })
+  currency: string;
+
+  // null — запись о создании товара
+  @Column({ type: 'varchar', length: 3, nullable: true })
+  previousCurrency?: string | null;
+
+  @Column({ type: 'varchar', length: 20, default: 'api' })
+  source: AuditSource;
+
+  @Column({ type: 'int', nullable: true })
+  @Index()
+  importJobId?: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  actorId?: number | null;
+
+  @CreateDateColumn({ precision: 3 })
+  changedAt: Date;
+}
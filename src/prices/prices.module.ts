@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PricesService } from './prices.service';
+import { PriceHistoryEntity } from './price-history.entity';
+import { ImportJobEntity } from '../import/import-job.entity';
+
+// История цен; маршруты — GET /products/:id/prices и
+// GET /products/price-changes
+@Module({
+  imports: [TypeOrmModule.forFeature([PriceHistoryEntity, ImportJobEntity])],
+  providers: [PricesService],
+  exports: [PricesService],
+})
+export class PricesModule {}
@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { PricesService } from './prices.service';
+import { PriceHistoryEntity } from './price-history.entity';
+import { ImportJobEntity } from '../import/import-job.entity';
+import { PriceChangesQueryDto } from '../dto/price-history.dto';
+
+describe('PricesService', () => {
+  let service: PricesService;
+  let pricesRepo: Record<string, jest.Mock>;
+  let jobsRepo: { findOne: jest.Mock };
+
+  beforeEach(async () => {
+    pricesRepo = {
+      insert: jest.fn(),
+      query: jest.fn().mockResolvedValue([
+        {
+          productId: 1,
+          article: 'A-1',
+          name: 'Кеды',
+          brand: null,
+          oldPrice: '100.00',
+          newPrice: '125.00',
+          currency: 'RUB',
+          changePercent: '25.00',
+        },
+      ]),
+    };
+    jobsRepo = { findOne: jest.fn().mockResolvedValue({ id: 42 }) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PricesService,
+        {
+          provide: getRepositoryToken(PriceHistoryEntity),
+          useValue: pricesRepo,
+        },
+        { provide: getRepositoryToken(ImportJobEntity), useValue: jobsRepo },
+      ],
+    }).compile();
+
+    service = module.get<PricesService>(PricesService);
+  });
+
+  it('skips entries where neither the price nor its currency changed', async () => {
+    const rub = { currency: 'RUB', previousCurrency: 'RUB' };
+    await service.record([
+      {
+        productId: 1,
+        price: 100,
+        previousPrice: '100.00' as unknown as number,
+        ...rub,
+      },
+      { productId: 2, price: null, previousPrice: null, ...rub },
+      { productId: 3, price: 120, previousPrice: 100, ...rub },
+      {
+        productId: 4,
+        price: 100,
+        previousPrice: 100,
+        currency: 'EUR',
+        previousCurrency: 'RUB',
+      },
+      {
+        productId: 5,
+        price: null,
+        previousPrice: null,
+        currency: 'EUR',
+        previousCurrency: 'RUB',
+      },
+    ]);
+
+    expect(pricesRepo.insert).toHaveBeenCalledWith([
+      { productId: 3, price: 120, previousPrice: 100, ...rub },
+      {
+        productId: 4,
+        price: 100,
+        previousPrice: 100,
+        currency: 'EUR',
+        previousCurrency: 'RUB',
+      },
+    ]);
+  });
+
+  it('reports price moves of the last completed import', async () => {
+    const report = await service.findChanges(
+      Object.assign(new PriceChangesQueryDto(), {
+        lastImport: true,
+        minChangePercent: 20,
+      }),
+    );
+
+    expect(pricesRepo.query).toHaveBeenCalledWith(
+      expect.stringContaining('"importJobId" = $1'),
+      [42, 20, 100],
+    );
+    // Суммы в разных валютах не сравниваются
+    expect(pricesRepo.query).toHaveBeenCalledWith(
+      expect.stringContaining('c."oldCurrency" = c."newCurrency"'),
+      expect.anything(),
+    );
+    expect(report).toEqual({
+      importJobId: 42,
+      minChangePercent: 20,
+      items: [
+        {
+          productId: 1,
+          article: 'A-1',
+          name: 'Кеды',
+          brand: null,
+          oldPrice: 100,
+          newPrice: 125,
+          currency: 'RUB',
+          changePercent: 25,
+        },
+      ],
+    });
+  });
+
+  it('requires a period or an import', async () => {
+    await expect(
+      service.findChanges(new PriceChangesQueryDto()),
+    ).rejects.toMatchObject({ status: 400 });
+
+    jobsRepo.findOne.mockResolvedValue(null);
+    await expect(
+      service.findChanges(
+        Object.assign(new PriceChangesQueryDto(), { lastImport: true }),
+      ),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
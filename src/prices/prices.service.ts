@@ -0,0 +1,180 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { PriceHistoryEntity } from './price-history.entity';
+import { ImportJobEntity } from '../import/import-job.entity';
+import { AuditSource } from '../dto/audit.dto';
+import {
+  PriceChange,
+  PriceChangeReport,
+  PriceChangesQueryDto,
+  PricePoint,
+} from '../dto/price-history.dto';
+
+export interface PriceEntry {
+  productId: number;
+  price: number | null;
+  previousPrice: number | null;
+  currency: string;
+  previousCurrency: string | null;
+  source?: AuditSource;
+  actorId?: number;
+  importJobId?: number;
+}
+
+const INSERT_BATCH_SIZE = 500;
+
+// decimal из pg приходит строкой
+const toPrice = (value: unknown): number | null =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+@Injectable()
+export class PricesService {
+  constructor(
+    @InjectRepository(PriceHistoryEntity)
+    private readonly pricesRepo: Repository<PriceHistoryEntity>,
+    @InjectRepository(ImportJobEntity)
+    private readonly jobsRepo: Repository<ImportJobEntity>,
+  ) {}
+
+  // Записи без изменения цены отбрасываются; смена валюты записывается,
+  // если у товара есть цена. manager — транзакция, в которой изменён товар
+  async record(entries: PriceEntry[], manager?: EntityManager): Promise<void> {
+    const changed = entries.filter(
+      (entry) =>
+        toPrice(entry.price) !== toPrice(entry.previousPrice) ||
+        (toPrice(entry.price) !== null &&
+          entry.previousCurrency !== null &&
+          entry.currency !== entry.previousCurrency),
+    );
+    const repo = manager
+      ? manager.getRepository(PriceHistoryEntity)
+      : this.pricesRepo;
+    for (let offset = 0; offset < changed.length; offset += INSERT_BATCH_SIZE) {
+      await repo.insert(changed.slice(offset, offset + INSERT_BATCH_SIZE));
+    }
+  }
+
+  async findForProduct(productId: number): Promise<PricePoint[]> {
+    const history = await this.pricesRepo.find({
+      where: { productId },
+      order: { changedAt: 'ASC', id: 'ASC' },
+    });
+    return history.map((entry) => ({
+      price: toPrice(entry.price),
+      previousPrice: toPrice(entry.previousPrice),
+      currency: entry.currency,
+      previousCurrency: entry.previousCurrency ?? null,
+      source: entry.source,
+      importJobId: entry.importJobId ?? null,
+      changedAt: entry.changedAt,
+    }));
+  }
+
+  async findChanges(query: PriceChangesQueryDto): Promise<PriceChangeReport> {
+    const { minChangePercent, limit } = query;
+
+    if (query.importJobId !== undefined || query.lastImport) {
+      const importJobId = query.importJobId ?? (await this.lastImportJobId());
+      // Повтор артикула в файле даёт несколько записей: берём цену до
+      // первой и после последней
+      const items = await this.queryChanges(
+        `SELECT "productId",
+           (array_agg("previousPrice" ORDER BY id))[1] AS "oldPrice",
+           (array_agg("previousCurrency" ORDER BY id))[1] AS "oldCurrency",
+           (array_agg(price ORDER BY id DESC))[1] AS "newPrice",
+           (array_agg(currency ORDER BY id DESC))[1] AS "newCurrency"
+         FROM product_prices
+         WHERE "importJobId" = $1
+         GROUP BY "productId"`,
+        [importJobId],
+        minChangePercent,
+        limit,
+      );
+      return { importJobId, minChangePercent, items };
+    }
+
+    if (!query.from) {
+      throw new BadRequestException(
+        'Укажите период (from, to), importJobId или lastImport=true',
+      );
+    }
+    const { from, to = new Date() } = query;
+    if (from > to) {
+      throw new BadRequestException('Дата from должна быть раньше to');
+    }
+
+    // Цена на момент from — последняя запись не позже from
+    const items = await this.queryChanges(
+      `SELECT "productId",
+         (array_agg(price ORDER BY "changedAt" DESC, id DESC)
+           FILTER (WHERE "changedAt" <= $1))[1] AS "oldPrice",
+         (array_agg(currency ORDER BY "changedAt" DESC, id DESC)
+           FILTER (WHERE "changedAt" <= $1))[1] AS "oldCurrency",
+         (array_agg(price ORDER BY "changedAt" DESC, id DESC))[1] AS "newPrice",
+         (array_agg(currency ORDER BY "changedAt" DESC, id DESC))[1]
+           AS "newCurrency"
+       FROM product_prices
+       WHERE "changedAt" <= $2
+       GROUP BY "productId"`,
+      [from, to],
+      minChangePercent,
+      limit,
+    );
+    return { from, to, minChangePercent, items };
+  }
+
+  private async lastImportJobId(): Promise<number> {
+    const job = await this.jobsRepo.findOne({
+      where: { status: 'completed' },
+      order: { finishedAt: 'DESC' },
+    });
+    if (!job) {
+      throw new NotFoundException('Завершённых импортов пока нет');
+    }
+    return job.id;
+  }
+
+  // changesSql возвращает productId, oldPrice, oldCurrency, newPrice и
+  // newCurrency. Суммы в разных валютах не сравниваются: товары со сменой
+  // валюты, как и товары без прежней цены и из корзины, в отчёт не попадают
+  private async queryChanges(
+    changesSql: string,
+    params: unknown[],
+    minChangePercent: number,
+    limit: number,
+  ): Promise<PriceChange[]> {
+    const thresholdParam = params.length + 1;
+    const rows: Record<string, string | number | null>[] =
+      await this.pricesRepo.query(
+        `SELECT p.id AS "productId", p.article, p.name, p.brand,
+           c."oldPrice", c."newPrice", c."newCurrency" AS currency,
+           ROUND((c."newPrice" - c."oldPrice") / c."oldPrice" * 100, 2)
+             AS "changePercent"
+         FROM (${changesSql}) c
+         JOIN products p ON p.id = c."productId" AND p."deletedAt" IS NULL
+         WHERE c."oldPrice" > 0 AND c."newPrice" IS NOT NULL
+           AND c."oldCurrency" = c."newCurrency"
+           AND ABS(c."newPrice" - c."oldPrice") / c."oldPrice" * 100
+             >= $${thresholdParam}
+         ORDER BY ABS(c."newPrice" - c."oldPrice") / c."oldPrice" DESC, p.id
+         LIMIT $${thresholdParam + 1}`,
+        [...params, minChangePercent, limit],
+      );
+
+    return rows.map((row) => ({
+      productId: Number(row.productId),
+      article: String(row.article),
+      name: String(row.name),
+      brand: row.brand === null ? null : String(row.brand),
+      oldPrice: Number(row.oldPrice),
+      newPrice: Number(row.newPrice),
+      currency: String(row.currency),
+      changePercent: Number(row.changePercent),
+    }));
+  }
+}
@@ -0,0 +1,15 @@
+import { BadRequestException, Injectable, PipeTransform } from '@nestjs/common';
+
+// Артикул из пути: не пустой и не длиннее колонки products.article
+@Injectable()
+export class ParseArticlePipe implements PipeTransform<string, string> {
+  transform(value: string): string {
+    if (!value.trim()) {
+      throw new BadRequestException('Артикул не указан');
+    }
+    if (value.length > 100) {
+      throw new BadRequestException('Артикул длиннее 100 символов');
+    }
+    return value;
+  }
+}
@@ -0,0 +1,61 @@
+import { BadRequestException } from '@nestjs/common';
+import { ProductSortField } from '../dto/product-query.dto';
+
+// Позиция последнего элемента страницы: значение колонки сортировки + id.
+// Для sortBy=price — ещё и валюта, в которой сравнивались цены
+export interface ProductCursor {
+  sortBy: ProductSortField;
+  value: string | number | null;
+  id: number;
+  currency?: string | null;
+}
+
+export function encodeCursor(cursor: ProductCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(
+  raw: string,
+  sortBy: ProductSortField,
+  currency?: string,
+): ProductCursor {
+  let cursor: ProductCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf-8'));
+  } catch {
+    throw new BadRequestException('Некорректный курсор');
+  }
+
+  if (
+    !cursor ||
+    typeof cursor.id !== 'number' ||
+    !('value' in cursor) ||
+    cursor.sortBy !== sortBy ||
+    (sortBy === 'price' && (cursor.currency ?? null) !== (currency ?? null))
+  ) {
+    throw new BadRequestException(
+      'Курсор не соответствует параметрам сортировки',
+    );
+  }
+  return cursor;
+}
+
+export function cursorValue(value: unknown): string | number | null {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return formatTimestamp(value);
+  return value as string | number;
+}
+
+// Даты хранятся в TIMESTAMP(3) без часового пояса, и pg читает их как
+// местное время процесса. Курсор хранит то же значение, что в колонке:
+// ISO-строку с Z база сравнила бы без учёта пояса, со сдвигом на разницу
+// с UTC
+function formatTimestamp(date: Date): string {
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate(),
+  )} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(
+    date.getSeconds(),
+  )}.${pad(date.getMilliseconds(), 3)}`;
+}
@@ -0,0 +1,15 @@
+import { ProductEntity } from './product.entity';
+
+// ETag товара — его версия: меняется при каждом изменении
+export function productETag(product: Pick<ProductEntity, 'version'>): string {
+  return `"${product.version}"`;
+}
+
+// Версии из If-Match; undefined — заголовка нет или он равен «*»
+export function parseIfMatch(header?: string): number[] | undefined {
+  if (!header || header.trim() === '*') return undefined;
+  return header
+    .split(',')
+    .map((tag) => Number(tag.trim().replace(/^W\//, '').replace(/"/g, '')))
+    .filter((version) => Number.isInteger(version));
+}
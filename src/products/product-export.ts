@@ -0,0 +1,78 @@
+import * as Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { Readable } from 'stream';
+import { ProductEntity } from './product.entity';
+import { ProductExportFormat } from '../dto/product-query.dto';
+
+// Заголовки совпадают с теми, что распознаёт импорт, чтобы выгрузку
+// можно было загрузить обратно через POST /import
+export const PRODUCT_EXPORT_COLUMNS: {
+  header: string;
+  field: keyof ProductEntity;
+}[] = [
+  { header: 'Артикул', field: 'article' },
+  { header: 'Название товара', field: 'name' },
+  { header: 'Бренд', field: 'brand' },
+  { header: 'Цена, руб.*', field: 'price' },
+  { header: 'Валюта', field: 'currency' },
+  { header: 'Цвет', field: 'color' },
+  { header: 'Страна-изготовитель', field: 'country' },
+];
+
+export const EXPORT_CONTENT_TYPES: Record<ProductExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  tsv: 'text/tab-separated-values; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+function toRow(product: ProductEntity): (string | number)[] {
+  return PRODUCT_EXPORT_COLUMNS.map(({ field }) => {
+    const value = product[field];
+    return value === null || value === undefined ? '' : (value as string);
+  });
+}
+
+// CSV/TSV отдаются потоком: каждая пачка из БД сразу уходит клиенту
+export function toDelimitedStream(
+  batches: AsyncIterable<ProductEntity[]>,
+  delimiter: string,
+): Readable {
+  async function* chunks() {
+    const header = PRODUCT_EXPORT_COLUMNS.map(({ header }) => header);
+    yield Buffer.from(Papa.unparse([header], { delimiter }) + '\r\n');
+
+    for await (const batch of batches) {
+      yield Buffer.from(Papa.unparse(batch.map(toRow), { delimiter }) + '\r\n');
+    }
+  }
+  return Readable.from(chunks());
+}
+
+// XLSX — zip-архив, поэтому книга собирается в памяти; строки при этом
+// всё равно читаются из БД пачками
+export async function toXlsxBuffer(
+  batches: AsyncIterable<ProductEntity[]>,
+): Promise<Buffer> {
+  const priceIndex = PRODUCT_EXPORT_COLUMNS.findIndex(
+    ({ field }) => field === 'price',
+  );
+  const rows: (string | number)[][] = [
+    PRODUCT_EXPORT_COLUMNS.map(({ header }) => header),
+  ];
+  for await (const batch of batches) {
+    for (const product of batch) {
+      const row = toRow(product);
+      // Цена из decimal приходит строкой, в Excel нужна числом
+      if (row[priceIndex] !== '') row[priceIndex] = Number(row[priceIndex]);
+      rows.push(row);
+    }
+  }
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet(rows),
+    'Products',
+  );
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
@@ -4,11 +4,26 @@ import {
   Column,
   CreateDateColumn,
   UpdateDateColumn,
+  DeleteDateColumn,
+  VersionColumn,
   Index,
 } from 'typeorm';
+import { BASE_CURRENCY } from '../dto/currency.dto';
+import { ProductAttributes } from '../dto/attribute.dto';
 
+export const PRODUCT_SEARCH_INDEXES = {
+  searchVector: 'IDX_products_search_vector',
+  articleTrigram: 'IDX_products_article_trgm',
+  nameTrigram: 'IDX_products_name_trgm',
+};
+
+// GIN-индексы для поиска создаются миграцией вручную: TypeORM не умеет
+// ни GIN, ни классы операторов pg_trgm, и migration:generate их не трогает
 @Entity('products')
 @Index(['article'], { unique: true })
+@Index(PRODUCT_SEARCH_INDEXES.searchVector, { synchronize: false })
+@Index(PRODUCT_SEARCH_INDEXES.articleTrigram, { synchronize: false })
+@Index(PRODUCT_SEARCH_INDEXES.nameTrigram, { synchronize: false })
 export class ProductEntity {
   @PrimaryGeneratedColumn()
   id: number;
@@ -21,20 +36,71 @@ export class ProductEntity {
 
   @Column({ type: 'varchar', length: 100, nullable: true })
   @Index()
-  brand?: string;
+  brand?: string | null;
 
   @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
-  price?: number;
+  price?: number | null;
+
+  // Валюта цены, курс — в currency_rates
+  @Column({ type: 'varchar', length: 3, default: BASE_CURRENCY })
+  currency: string;
 
   @Column({ type: 'varchar', length: 50, nullable: true })
-  color?: string;
+  color?: string | null;
 
   @Column({ type: 'varchar', length: 100, nullable: true })
-  country?: string;
+  country?: string | null;
+
+  // Категория из дерева categories; null — без категории
+  @Column({ type: 'int', nullable: true })
+  @Index()
+  categoryId?: number | null;
+
+  // Основной товар, если это вариант со своим артикулом и ценой
+  @Column({ type: 'int', nullable: true })
+  @Index()
+  parentId?: number | null;
+
+  // Значения атрибутов по коду; описания атрибутов — в attributes
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  attributes!: ProductAttributes;
 
-  @CreateDateColumn()
+  // Пользователи, создавшие и последними изменившие продукт
+  @Column({ type: 'int', nullable: true })
+  createdById?: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  updatedById?: number | null;
+
+  // Миллисекундная точность, чтобы значение курсора совпадало с БД
+  @CreateDateColumn({ precision: 3 })
   createdAt: Date;
 
-  @UpdateDateColumn()
+  @UpdateDateColumn({ precision: 3 })
   updatedAt: Date;
+
+  // Растёт при каждом изменении; отдаётся как ETag и проверяется по
+  // If-Match, чтобы не затереть чужие правки
+  @VersionColumn({ default: 1 })
+  version: number;
+
+  // Поисковый вектор: название — с русской и английской морфологией,
+  // артикул и бренд — как есть. Считается базой, в ответы не попадает
+  @Column({
+    type: 'tsvector',
+    select: false,
+    insert: false,
+    update: false,
+    generatedType: 'STORED',
+    asExpression: `setweight(to_tsvector('russian', coalesce(name, '')), 'A')
+      || setweight(to_tsvector('english', coalesce(name, '')), 'A')
+      || setweight(to_tsvector('simple', coalesce(article, '')), 'A')
+      || setweight(to_tsvector('simple', coalesce(brand, '')), 'B')`,
+  })
+  searchVector?: string;
+
+  // Товар в корзине: скрыт из каталога, но его можно восстановить
+  @DeleteDateColumn({ precision: 3 })
+  @Index()
+  deletedAt?: Date | null;
 }
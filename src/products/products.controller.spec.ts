@@ -1,18 +1,130 @@
-import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
 import { ProductsController } from './products.controller';
+import { ProductsService } from './products.service';
+import { AuditService } from '../audit/audit.service';
+import { PricesService } from '../prices/prices.service';
+import { StockService } from '../inventory/stock.service';
+import { ImagesService } from '../images/images.service';
+import { authAs, createControllerApp } from '../testing/controller-app';
 
 describe('ProductsController', () => {
-  let controller: ProductsController;
+  let app: INestApplication;
+  let productsService: Record<string, jest.Mock>;
+  const product = { id: 7, article: 'A-1', name: 'Кеды', version: 3 };
+  const image = { id: 1, url: '/media/a.jpg', isPrimary: true };
 
   beforeEach(async () => {
-    const module: TestingModule = await Test.createTestingModule({
-      controllers: [ProductsController],
-    }).compile();
+    productsService = {
+      findOne: jest.fn(async (id) => (id === product.id ? product : null)),
+      update: jest.fn(async () => ({ ...product, version: 4 })),
+      bulk: jest.fn(async () => ({ results: [] })),
+    };
+    const imagesService = {
+      attachTo: jest.fn(async (products) =>
+        products.map((item: object) => ({ ...item, images: [image] })),
+      ),
+    };
+    app = await createControllerApp(ProductsController, [
+      { provide: ProductsService, useValue: productsService },
+      { provide: AuditService, useValue: {} },
+      { provide: PricesService, useValue: {} },
+      { provide: StockService, useValue: {} },
+      { provide: ImagesService, useValue: imagesService },
+    ]);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('returns a product with its gallery and version as ETag', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/products/7')
+      .set(authAs('viewer'))
+      .expect(200);
+
+    expect(response.headers.etag).toBe('"3"');
+    expect(response.body).toEqual({ ...product, images: [image] });
+
+    await request(app.getHttpServer())
+      .get('/products/9')
+      .set(authAs('viewer'))
+      .expect(404);
+  });
+
+  it('passes If-Match versions to updates and returns the new ETag', async () => {
+    const server = app.getHttpServer();
+    await request(server)
+      .patch('/products/7')
+      .set(authAs('viewer'))
+      .send({ name: 'Кроссовки' })
+      .expect(403);
+    const response = await request(server)
+      .patch('/products/7')
+      .set({ ...authAs('editor'), 'If-Match': 'W/"3", "2"' })
+      .send({ name: 'Кроссовки' })
+      .expect(200);
+
+    expect(response.headers.etag).toBe('"4"');
+    expect(productsService.update).toHaveBeenCalledTimes(1);
+    expect(productsService.update).toHaveBeenCalledWith(
+      7,
+      { name: 'Кроссовки' },
+      expect.objectContaining({ role: 'editor' }),
+      [3, 2],
+    );
+  });
+
+  it('lets only admins delete products in a bulk request', async () => {
+    const server = app.getHttpServer();
+    const body = {
+      operations: [
+        { op: 'update', id: 7, data: { name: 'Кроссовки' } },
+        { op: 'delete', id: 7 },
+      ],
+    };
+    await request(server)
+      .post('/products/bulk')
+      .set(authAs('editor'))
+      .send(body)
+      .expect(403);
+    expect(productsService.bulk).not.toHaveBeenCalled();
 
-    controller = module.get<ProductsController>(ProductsController);
+    await request(server)
+      .post('/products/bulk')
+      .set(authAs('admin'))
+      .send(body)
+      .expect(200);
+    expect(productsService.bulk).toHaveBeenCalledTimes(1);
   });
 
-  it('should be defined', () => {
-    expect(controller).toBeDefined();
+  describe('roles of bulk operations', () => {
+    const operations = {
+      create: { op: 'create', data: { article: 'A-2', name: 'Кеды' } },
+      update: { op: 'update', id: 7, data: { name: 'Кроссовки' } },
+      delete: { op: 'delete', id: 7 },
+    };
+
+    it.each([
+      ['viewer', 'create', 403],
+      ['viewer', 'update', 403],
+      ['viewer', 'delete', 403],
+      ['editor', 'create', 200],
+      ['editor', 'update', 200],
+      ['editor', 'delete', 403],
+      ['admin', 'create', 200],
+      ['admin', 'update', 200],
+      ['admin', 'delete', 200],
+    ] as const)('%s: %s → %i', async (role, op, status) => {
+      await request(app.getHttpServer())
+        .post('/products/bulk')
+        .set(authAs(role))
+        .send({ operations: [operations[op]] })
+        .expect(status);
+      expect(productsService.bulk).toHaveBeenCalledTimes(
+        status === 200 ? 1 : 0,
+      );
+    });
   });
 });
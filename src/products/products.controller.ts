@@ -3,252 +3,399 @@ import {
   Get,
   Post,
   Put,
+  Patch,
   Delete,
+  ForbiddenException,
   Param,
   Body,
-  UseInterceptors,
-  UploadedFile,
   ParseIntPipe,
-  HttpException,
+  Headers,
+  HttpCode,
   HttpStatus,
   Query,
+  Res,
+  StreamableFile,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { ProductsService } from './products.service';
 import { ProductEntity } from './product.entity';
+import { ProductNotFoundException } from '../errors/domain.exceptions';
 import { CreateProductDto } from '../dto/create-product.dto';
-import { UpdateProductDto } from '../dto/update-product.dto';
-import { FileInterceptor } from '@nestjs/platform-express';
-import * as Papa from 'papaparse';
-import * as XLSX from 'xlsx';
+import { PatchProductDto } from '../dto/patch-product.dto';
+import { ReplaceProductDto } from '../dto/replace-product.dto';
+import { CreateVariantDto } from '../dto/product-variant.dto';
+import {
+  ProductExportQueryDto,
+  ProductFacetsQueryDto,
+  ProductFilterDto,
+  ProductQueryDto,
+  ProductTrashQueryDto,
+} from '../dto/product-query.dto';
+import { ProductFacets } from '../dto/product-facets.dto';
+import {
+  ProductLookupDto,
+  ProductLookupResult,
+} from '../dto/product-lookup.dto';
+import {
+  BulkPatchDto,
+  BulkPatchResult,
+  BulkProductsDto,
+  BulkProductsResult,
+} from '../dto/product-bulk.dto';
+import { PaginatedResult } from '../dto/paginated-result.dto';
+import {
+  EXPORT_CONTENT_TYPES,
+  toDelimitedStream,
+  toXlsxBuffer,
+} from './product-export';
+import { ParseArticlePipe } from './parse-article.pipe';
+import { parseIfMatch, productETag } from './product-etag';
+import { Roles, hasRole } from '../auth/roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { AuthUser } from '../dto/auth.dto';
+import { AuditService } from '../audit/audit.service';
+import { AuditLogEntity } from '../audit/audit-log.entity';
+import { PricesService } from '../prices/prices.service';
+import { StockService } from '../inventory/stock.service';
+import { ImagesService } from '../images/images.service';
+import { ProductStock } from '../dto/inventory.dto';
+import {
+  PriceChangeReport,
+  PriceChangesQueryDto,
+  PricePoint,
+} from '../dto/price-history.dto';
 
 // Контроллер CRUD для продуктов
 @Controller('products')
 export class ProductsController {
-  constructor(private readonly productsService: ProductsService) {}
+  constructor(
+    private readonly productsService: ProductsService,
+    private readonly auditService: AuditService,
+    private readonly pricesService: PricesService,
+    private readonly stockService: StockService,
+    private readonly imagesService: ImagesService,
+  ) {}
 
   @Get()
   async getAll(
-    @Query('search') search?: string,
-    @Query('brand') brand?: string,
-    @Query('sortBy') sortBy: string = 'createdAt',
-    @Query('sortOrder') sortOrder: 'ASC' | 'DESC' = 'DESC',
-  ): Promise<ProductEntity[]> {
-    return this.productsService.findWithFilters(
-      search,
-      brand,
-      sortBy,
-      sortOrder,
+    @Query() query: ProductQueryDto,
+  ): Promise<PaginatedResult<ProductEntity>> {
+    return this.productsService.findWithFilters(query);
+  }
+
+  @Get('facets')
+  async getFacets(
+    @Query() query: ProductFacetsQueryDto,
+  ): Promise<ProductFacets> {
+    return this.productsService.getFacets(query);
+  }
+
+  @Get('export')
+  async export(@Query() query: ProductExportQueryDto): Promise<StreamableFile> {
+    const { format } = query;
+    const batches = this.productsService.iterateWithFilters(query);
+    const options = {
+      type: EXPORT_CONTENT_TYPES[format],
+      disposition: `attachment; filename="products-${new Date()
+        .toISOString()
+        .slice(0, 10)}.${format}"`,
+    };
+
+    if (format === 'xlsx') {
+      return new StreamableFile(await toXlsxBuffer(batches), options);
+    }
+    return new StreamableFile(
+      toDelimitedStream(batches, format === 'tsv' ? '\t' : ','),
+      options,
     );
   }
 
+  // Все товары перемещаются в корзину
+  @Roles('admin')
   @Delete('clear')
-  async clearTable() {
-    await this.productsService.clearTable();
-    return { message: 'Products table cleared' };
+  async clearTable(@CurrentUser() user: AuthUser) {
+    const deleted = await this.productsService.clearTable(user);
+    return { message: 'Products table cleared', deleted };
+  }
+
+  // Пакет операций create/update/delete в одной транзакции с результатом
+  // по каждой операции. Пакет с delete — массовое удаление, только для
+  // администраторов
+  @Roles('editor')
+  @Post('bulk')
+  @HttpCode(HttpStatus.OK)
+  async bulk(
+    @Body() bulkDto: BulkProductsDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<BulkProductsResult> {
+    if (
+      bulkDto.operations.some((operation) => operation.op === 'delete') &&
+      !hasRole(user, 'admin')
+    ) {
+      throw new ForbiddenException(
+        'Удаление товаров в пакете доступно только администраторам',
+      );
+    }
+    return this.productsService.bulk(bulkDto, user);
+  }
+
+  // Массовое изменение товаров под фильтром; фильтры — как у GET /products
+  @Roles('editor')
+  @Patch()
+  async patchByFilter(
+    @Query() filters: ProductFilterDto,
+    @Body() patchDto: BulkPatchDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<BulkPatchResult> {
+    return this.productsService.patchByFilter(filters, patchDto, user);
+  }
+
+  // Товары, цена которых изменилась больше чем на minChangePercent
+  // за период или в импорте
+  @Get('price-changes')
+  async getPriceChanges(
+    @Query() query: PriceChangesQueryDto,
+  ): Promise<PriceChangeReport> {
+    return this.pricesService.findChanges(query);
+  }
+
+  @Get('trash')
+  async getTrash(
+    @Query() query: ProductTrashQueryDto,
+  ): Promise<PaginatedResult<ProductEntity>> {
+    return this.productsService.findTrash(query);
+  }
+
+  @Roles('admin')
+  @Delete('trash')
+  async emptyTrash(
+    @CurrentUser() user: AuthUser,
+  ): Promise<{ message: string; purged: number }> {
+    const purged = await this.productsService.emptyTrash(user);
+    return { message: 'Корзина очищена', purged };
+  }
+
+  // Поиск пачки товаров по артикулам для интеграций
+  @Post('lookup')
+  @HttpCode(HttpStatus.OK)
+  async lookup(
+    @Body() { articles }: ProductLookupDto,
+  ): Promise<ProductLookupResult<ProductEntity>> {
+    return this.productsService.lookupByArticles(articles);
+  }
+
+  // Маршруты по артикулу; спецсимволы в артикуле кодируются в URL
+  // (A/1 → A%2F1), Express декодирует параметр
+  @Get('by-article/:article')
+  async getByArticle(
+    @Param('article', ParseArticlePipe) article: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ProductEntity> {
+    const product = await this.productsService.getByArticle(article);
+    const [withImages] = await this.imagesService.attachTo([product]);
+    return withETag(res, withImages);
+  }
+
+  @Roles('editor')
+  @Put('by-article/:article')
+  async replaceByArticle(
+    @Param('article', ParseArticlePipe) article: string,
+    @Body() replaceProductDto: ReplaceProductDto,
+    @Headers('if-match') ifMatch: string | undefined,
+    @CurrentUser() user: AuthUser,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ProductEntity> {
+    const { id } = await this.productsService.getByArticle(article);
+    return withETag(
+      res,
+      await this.productsService.replace(
+        id,
+        replaceProductDto,
+        user,
+        parseIfMatch(ifMatch),
+      ),
+    );
   }
 
+  @Roles('editor')
+  @Patch('by-article/:article')
+  async patchByArticle(
+    @Param('article', ParseArticlePipe) article: string,
+    @Body() patchProductDto: PatchProductDto,
+    @Headers('if-match') ifMatch: string | undefined,
+    @CurrentUser() user: AuthUser,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ProductEntity> {
+    const { id } = await this.productsService.getByArticle(article);
+    return withETag(
+      res,
+      await this.productsService.update(
+        id,
+        patchProductDto,
+        user,
+        parseIfMatch(ifMatch),
+      ),
+    );
+  }
+
+  @Roles('editor')
+  @Delete('by-article/:article')
+  async removeByArticle(
+    @Param('article', ParseArticlePipe) article: string,
+    @Headers('if-match') ifMatch: string | undefined,
+    @CurrentUser() user: AuthUser,
+  ): Promise<{ message: string }> {
+    const { id } = await this.productsService.getByArticle(article);
+    await this.productsService.remove(id, user, parseIfMatch(ifMatch));
+    return { message: 'Продукт перемещен в корзину' };
+  }
+
+  // ETag — версия товара; её передают в If-Match при изменении.
+  // Изображения — в поле images, главное первым
   @Get(':id')
-  async getOne(@Param('id', ParseIntPipe) id: number): Promise<ProductEntity> {
+  async getOne(
+    @Param('id', ParseIntPipe) id: number,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ProductEntity> {
     const product = await this.productsService.findOne(id);
     if (!product) {
-      throw new HttpException('Продукт не найден', HttpStatus.NOT_FOUND);
+      throw new ProductNotFoundException({ id });
     }
-    return product;
+    const [withImages] = await this.imagesService.attachTo([product]);
+    return withETag(res, withImages);
+  }
+
+  // Журнал изменений товара, в том числе после его удаления
+  @Get(':id/history')
+  async getHistory(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<AuditLogEntity[]> {
+    return this.auditService.findForProduct(id);
   }
 
+  // История цены для графика, от старых записей к новым
+  @Get(':id/prices')
+  async getPrices(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<PricePoint[]> {
+    return this.pricesService.findForProduct(id);
+  }
+
+  // Остатки по складам: всего, в резерве и доступно к продаже
+  @Get(':id/stock')
+  async getStock(@Param('id', ParseIntPipe) id: number): Promise<ProductStock> {
+    return this.stockService.findForProduct(id);
+  }
+
+  @Get(':id/variants')
+  async getVariants(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<ProductEntity[]> {
+    return this.productsService.findVariants(id);
+  }
+
+  // Вариант наследует у товара незаданные поля и атрибуты
+  @Roles('editor')
+  @Post(':id/variants')
+  async createVariant(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createVariantDto: CreateVariantDto,
+    @CurrentUser() user: AuthUser,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ProductEntity> {
+    return withETag(
+      res,
+      await this.productsService.createVariant(id, createVariantDto, user),
+    );
+  }
+
+  @Roles('editor')
+  @Post(':id/restore')
+  async restore(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: AuthUser,
+  ): Promise<ProductEntity> {
+    return this.productsService.restore(id, user);
+  }
+
+  @Roles('admin')
+  @Delete(':id/purge')
+  async purge(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: AuthUser,
+  ): Promise<{ message: string }> {
+    await this.productsService.purge(id, user);
+    return { message: 'Продукт удален окончательно' };
+  }
+
+  @Roles('editor')
   @Post()
   async create(
     @Body() createProductDto: CreateProductDto,
+    @CurrentUser() user: AuthUser,
+    @Res({ passthrough: true }) res: Response,
   ): Promise<ProductEntity> {
-    try {
-      return await this.productsService.create(createProductDto);
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('duplicate')) {
-        throw new HttpException(
-          'Продукт с таким артикулом уже существует',
-          HttpStatus.CONFLICT,
-        );
-      }
-      throw new HttpException(
-        'Ошибка создания продукта',
-        HttpStatus.INTERNAL_SERVER_ERROR,
-      );
-    }
+    return withETag(
+      res,
+      await this.productsService.create(createProductDto, user),
+    );
   }
 
+  // Полная замена товара; устаревший If-Match — 412, version — 409
+  @Roles('editor')
   @Put(':id')
-  async update(
+  async replace(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() replaceProductDto: ReplaceProductDto,
+    @Headers('if-match') ifMatch: string | undefined,
+    @CurrentUser() user: AuthUser,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ProductEntity> {
+    return withETag(
+      res,
+      await this.productsService.replace(
+        id,
+        replaceProductDto,
+        user,
+        parseIfMatch(ifMatch),
+      ),
+    );
+  }
+
+  // JSON Merge Patch: null очищает brand, price, color и country
+  @Roles('editor')
+  @Patch(':id')
+  async patch(
     @Param('id', ParseIntPipe) id: number,
-    @Body() updateProductDto: UpdateProductDto,
+    @Body() patchProductDto: PatchProductDto,
+    @Headers('if-match') ifMatch: string | undefined,
+    @CurrentUser() user: AuthUser,
+    @Res({ passthrough: true }) res: Response,
   ): Promise<ProductEntity> {
-    return this.productsService.update(id, updateProductDto);
+    return withETag(
+      res,
+      await this.productsService.update(
+        id,
+        patchProductDto,
+        user,
+        parseIfMatch(ifMatch),
+      ),
+    );
   }
 
+  @Roles('editor')
   @Delete(':id')
   async remove(
     @Param('id', ParseIntPipe) id: number,
+    @Headers('if-match') ifMatch: string | undefined,
+    @CurrentUser() user: AuthUser,
   ): Promise<{ message: string }> {
-    await this.productsService.remove(id);
-    return { message: 'Продукт успешно удален' };
+    await this.productsService.remove(id, user, parseIfMatch(ifMatch));
+    return { message: 'Продукт перемещен в корзину' };
   }
 }
 
-// Контроллер импорта CSV файлов
-@Controller('import')
-export class ImportController {
-  constructor(private readonly productsService: ProductsService) {}
-
-  @Post()
-  @UseInterceptors(FileInterceptor('file'))
-  async importFile(@UploadedFile() file: Express.Multer.File) {
-    if (!file || !file.buffer) {
-      throw new HttpException('Файл не загружен', HttpStatus.BAD_REQUEST);
-    }
-
-    const allowedMimeTypes = [
-      'text/csv',
-      'text/tab-separated-values',
-      'application/vnd.ms-excel',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    ];
-
-    if (
-      !allowedMimeTypes.includes(file.mimetype) &&
-      !file.originalname.match(/\.(csv|tsv|xls|xlsx)$/i)
-    ) {
-      throw new HttpException(
-        'Неподдерживаемый формат файла. Поддерживаются: CSV, TSV, XLS, XLSX',
-        HttpStatus.BAD_REQUEST,
-      );
-    }
-
-    let rows: Record<string, string>[] = [];
-
-    try {
-      if (file.originalname.match(/\.(csv|tsv)$/i)) {
-        // CSV/TSV
-        const separator = file.originalname.toLowerCase().includes('.tsv')
-          ? '\t'
-          : ',';
-        const text = file.buffer.toString('utf-8');
-        const parsed = Papa.parse<Record<string, string>>(text, {
-          header: true,
-          skipEmptyLines: true,
-        });
-        rows = parsed.data;
-      } else {
-        // XLS/XLSX
-        const workbook = XLSX.read(file.buffer, { type: 'buffer' });
-        const sheetName = workbook.SheetNames[0];
-        const sheet = workbook.Sheets[sheetName];
-        rows = XLSX.utils.sheet_to_json(sheet, { defval: '' }) as Record<
-          string,
-          string
-        >[];
-      }
-    } catch (err) {
-      throw new HttpException(
-        `Ошибка чтения файла: ${err}`,
-        HttpStatus.BAD_REQUEST,
-      );
-    }
-
-    const results: CreateProductDto[] = [];
-    const errors: string[] = [];
-    const duplicates: string[] = [];
-
-    for (const row of rows) {
-      try {
-        const article = (
-          row['Артикул'] ||
-          row['артикул'] ||
-          row['Article'] ||
-          row['article'] ||
-          row['SKU'] ||
-          row['sku']
-        )
-          ?.toString()
-          .trim();
-
-        const name = (
-          row['Название товара'] ||
-          row['название товара'] ||
-          row['Название'] ||
-          row['название'] ||
-          row['Name'] ||
-          row['name'] ||
-          row['Product Name'] ||
-          row['product name']
-        )
-          ?.toString()
-          .trim();
-
-        if (!article || !name) {
-          errors.push(
-            `Пропущена строка: отсутствует артикул или название - ${JSON.stringify(
-              row,
-            )}`,
-          );
-          continue;
-        }
-
-        const priceStr = (
-          row['Цена, руб.*'] ||
-          row['Цена'] ||
-          row['цена'] ||
-          row['Price'] ||
-          row['price']
-        )
-          ?.toString()
-          .replace(/[^\d.,]/g, '')
-          .replace(',', '.');
-
-        const price =
-          priceStr && !isNaN(Number(priceStr)) ? Number(priceStr) : undefined;
-
-        const productData: CreateProductDto = {
-          article,
-          name,
-          brand:
-            (row['Бренд'] || row['бренд'] || row['Brand'] || row['brand'])
-              ?.toString()
-              .trim() || undefined,
-          price,
-          color:
-            (row['Цвет'] || row['цвет'] || row['Color'] || row['color'])
-              ?.toString()
-              .trim() || undefined,
-          country:
-            (
-              row['Страна-изготовитель'] ||
-              row['страна-изготовитель'] ||
-              row['Страна'] ||
-              row['страна'] ||
-              row['Country'] ||
-              row['country']
-            )
-              ?.toString()
-              .trim() || undefined,
-        };
-
-        // Проверяем на дубликаты
-        const existing = await this.productsService.findByArticle(article);
-        if (existing) {
-          duplicates.push(`Продукт с артикулом ${article} уже существует`);
-          continue;
-        }
-
-        await this.productsService.create(productData);
-        results.push(productData);
-      } catch (err) {
-        errors.push(`Ошибка строки ${JSON.stringify(row)}: ${err}`);
-      }
-    }
-
-    return {
-      imported: results.length,
-      errors: errors.length ? errors : undefined,
-      duplicates: duplicates.length ? duplicates : undefined,
-    };
-  }
+function withETag(res: Response, product: ProductEntity): ProductEntity {
+  res.setHeader('ETag', productETag(product));
+  return product;
 }
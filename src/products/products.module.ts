@@ -1,12 +1,28 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ProductsService } from './products.service';
-import { ProductsController, ImportController } from './products.controller';
+import { ProductsController } from './products.controller';
 import { ProductEntity } from './product.entity';
+import { AuditModule } from '../audit/audit.module';
+import { PricesModule } from '../prices/prices.module';
+import { CurrenciesModule } from '../currencies/currencies.module';
+import { CategoriesModule } from '../categories/categories.module';
+import { AttributesModule } from '../attributes/attributes.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { ImagesModule } from '../images/images.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([ProductEntity])],
+  imports: [
+    TypeOrmModule.forFeature([ProductEntity]),
+    AuditModule,
+    PricesModule,
+    CurrenciesModule,
+    CategoriesModule,
+    AttributesModule,
+    InventoryModule,
+    ImagesModule,
+  ],
   providers: [ProductsService],
-  controllers: [ProductsController, ImportController],
+  controllers: [ProductsController],
 })
 export class ProductsModule {}
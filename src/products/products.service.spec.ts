@@ -1,12 +1,129 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
 import { ProductsService } from './products.service';
+import { ProductEntity } from './product.entity';
+import {
+  ProductFacetsQueryDto,
+  ProductQueryDto,
+} from '../dto/product-query.dto';
+import { encodeCursor } from './product-cursor';
+import { AuditService } from '../audit/audit.service';
+import { PricesService } from '../prices/prices.service';
+import { CurrenciesService } from '../currencies/currencies.service';
+import { CategoriesService } from '../categories/categories.service';
+import { AttributesService } from '../attributes/attributes.service';
+import { StockService } from '../inventory/stock.service';
+import { ImagesService } from '../images/images.service';
+import {
+  ArticleInTrashException,
+  ProductNotFoundException,
+  StaleVersionException,
+} from '../errors/domain.exceptions';
+
+function createQueryBuilderMock(rows: Partial<ProductEntity>[], total = 0) {
+  const queryBuilder: Record<string, jest.Mock> = {};
+  for (const method of [
+    'andWhere',
+    'where',
+    'orderBy',
+    'addOrderBy',
+    'limit',
+    'offset',
+    'setParameter',
+    'leftJoin',
+    'addSelect',
+    'select',
+    'groupBy',
+    'setParameters',
+  ]) {
+    queryBuilder[method] = jest.fn().mockReturnValue(queryBuilder);
+  }
+  queryBuilder.getCount = jest.fn().mockResolvedValue(total);
+  queryBuilder.getMany = jest.fn().mockResolvedValue(rows);
+  queryBuilder.getRawAndEntities = jest
+    .fn()
+    .mockResolvedValue({ entities: rows, raw: [] });
+  return queryBuilder;
+}
 
 describe('ProductsService', () => {
   let service: ProductsService;
+  let productsRepo: {
+    createQueryBuilder: jest.Mock;
+    findOne: jest.Mock;
+    findOneBy: jest.Mock;
+    find: jest.Mock;
+    existsBy: jest.Mock;
+    count: jest.Mock;
+    update: jest.Mock;
+    softDelete: jest.Mock;
+    restore: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+    manager: { transaction: jest.Mock };
+  };
+  let auditService: { record: jest.Mock };
+  let pricesService: { record: jest.Mock };
+  let currenciesService: { getRate: jest.Mock; assertKnown: jest.Mock };
+  let categoriesService: { assertExists: jest.Mock };
+  let attributesService: { validateValues: jest.Mock };
+  let stockService: { removeForProducts: jest.Mock };
+  let imagesService: {
+    attachTo: jest.Mock;
+    removeForProducts: jest.Mock;
+    deleteFiles: jest.Mock;
+  };
 
   beforeEach(async () => {
+    productsRepo = {
+      createQueryBuilder: jest.fn(),
+      findOne: jest.fn(),
+      findOneBy: jest.fn(),
+      find: jest.fn(),
+      existsBy: jest.fn(),
+      count: jest.fn().mockResolvedValue(0),
+      update: jest.fn(),
+      softDelete: jest.fn(),
+      restore: jest.fn(),
+      create: jest.fn((data) => data),
+      save: jest.fn(async (data) => ({ id: 10, ...data })),
+      manager: {
+        transaction: jest.fn((work) =>
+          work({ getRepository: () => productsRepo }),
+        ),
+      },
+    };
+    auditService = { record: jest.fn() };
+    pricesService = { record: jest.fn() };
+    currenciesService = {
+      getRate: jest.fn().mockResolvedValue(100),
+      assertKnown: jest.fn(),
+    };
+    categoriesService = { assertExists: jest.fn() };
+    attributesService = { validateValues: jest.fn() };
+    stockService = { removeForProducts: jest.fn() };
+    imagesService = {
+      attachTo: jest.fn(async (products) => products),
+      removeForProducts: jest.fn().mockResolvedValue([]),
+      deleteFiles: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ProductsService],
+      providers: [
+        ProductsService,
+        {
+          provide: getRepositoryToken(ProductEntity),
+          useValue: productsRepo,
+        },
+        { provide: AuditService, useValue: auditService },
+        { provide: PricesService, useValue: pricesService },
+        { provide: CurrenciesService, useValue: currenciesService },
+        { provide: CategoriesService, useValue: categoriesService },
+        { provide: AttributesService, useValue: attributesService },
+        { provide: StockService, useValue: stockService },
+        { provide: ImagesService, useValue: imagesService },
+      ],
     }).compile();
 
     service = module.get<ProductsService>(ProductsService);
@@ -15,4 +132,1027 @@ describe('ProductsService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('findWithFilters', () => {
+    it('returns a page envelope with nextCursor when more rows exist', async () => {
+      const rows = [
+        { id: 3, name: 'C' },
+        { id: 2, name: 'B' },
+        { id: 1, name: 'A' },
+      ];
+      const queryBuilder = createQueryBuilderMock(rows, 3);
+      productsRepo.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      const query = Object.assign(new ProductQueryDto(), {
+        sortBy: 'name',
+        limit: 2,
+        page: 1,
+      });
+      const result = await service.findWithFilters(query);
+
+      expect(queryBuilder.limit).toHaveBeenCalledWith(3);
+      expect(queryBuilder.offset).toHaveBeenCalledWith(0);
+      expect(result.items).toHaveLength(2);
+      expect(imagesService.attachTo).toHaveBeenCalledWith(rows.slice(0, 2));
+      expect(result).toMatchObject({ total: 3, page: 1, pageCount: 2 });
+      expect(result.nextCursor).toBe(
+        encodeCursor({ sortBy: 'name', value: 'B', id: 2 }),
+      );
+    });
+
+    it('applies a keyset condition instead of offset in cursor mode', async () => {
+      const queryBuilder = createQueryBuilderMock([{ id: 1, name: 'A' }], 3);
+      productsRepo.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      const query = Object.assign(new ProductQueryDto(), {
+        sortBy: 'name',
+        limit: 2,
+        cursor: encodeCursor({ sortBy: 'name', value: 'B', id: 2 }),
+      });
+      const result = await service.findWithFilters(query);
+
+      expect(queryBuilder.offset).not.toHaveBeenCalled();
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('product.id < :cursorId'),
+        { cursorValue: 'B', cursorId: 2 },
+      );
+      expect(result).toMatchObject({ page: null, nextCursor: null });
+    });
+
+    it('keeps timestamps in the cursor as the column stores them', async () => {
+      // Местное время: так pg отдаёт TIMESTAMP без пояса
+      const createdAt = new Date(2026, 0, 2, 3, 4, 5, 6);
+      const rows = [
+        { id: 2, createdAt },
+        { id: 1, createdAt: new Date(2026, 0, 1) },
+      ];
+      productsRepo.createQueryBuilder.mockReturnValue(
+        createQueryBuilderMock(rows, 2),
+      );
+
+      const result = await service.findWithFilters(
+        Object.assign(new ProductQueryDto(), { sortBy: 'createdAt', limit: 1 }),
+      );
+
+      expect(result.nextCursor).toBe(
+        encodeCursor({
+          sortBy: 'createdAt',
+          value: '2026-01-02 03:04:05.006',
+          id: 2,
+        }),
+      );
+    });
+
+    it('composes multi-value, range and price-presence filters', async () => {
+      const queryBuilder = createQueryBuilderMock([], 0);
+      productsRepo.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      const query = Object.assign(new ProductQueryDto(), {
+        search: '50%_off',
+        brand: ['Nike', 'Adidas'],
+        country: ['Китай'],
+        match: 'exact',
+        priceMin: 100,
+        hasPrice: false,
+      });
+      await service.findWithFilters(query);
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('product.searchVector @@'),
+        {
+          search: '50%_off',
+          searchLike: '%50\\%\\_off%',
+          tsQuery: '50:* & off:*',
+        },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'product.brand IN (:...brand)',
+        { brand: ['Nike', 'Adidas'] },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'product.country IN (:...country)',
+        { country: ['Китай'] },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'product.price >= :priceMin',
+        { priceMin: 100 },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'product.price IS NULL',
+      );
+    });
+
+    it('filters by category slug with or without subcategories', async () => {
+      const queryBuilder = createQueryBuilderMock([], 0);
+      productsRepo.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      await service.findWithFilters(
+        Object.assign(new ProductQueryDto(), { category: 'obuv' }),
+      );
+      await service.findWithFilters(
+        Object.assign(new ProductQueryDto(), {
+          category: 'obuv',
+          includeDescendants: true,
+        }),
+      );
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'product.categoryId IN (SELECT root.id FROM categories root WHERE root.slug = :category)',
+        { category: 'obuv' },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining("descendant.path LIKE root.path || '/%'"),
+        { category: 'obuv' },
+      );
+    });
+
+    it('filters by attribute values and hides variants on request', async () => {
+      const queryBuilder = createQueryBuilderMock([], 0);
+      productsRepo.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      await service.findWithFilters(
+        Object.assign(new ProductQueryDto(), {
+          attributes: { size: ['42', '43'] },
+          variants: false,
+        }),
+      );
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        '(product.attributes ->> :attributeCode0) IN (:...attributeValues0)',
+        { attributeCode0: 'size', attributeValues0: ['42', '43'] },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'product.parentId IS NULL',
+      );
+    });
+
+    it('filters products available on any warehouse', async () => {
+      const queryBuilder = createQueryBuilderMock([], 0);
+      productsRepo.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      await service.findWithFilters(
+        Object.assign(new ProductQueryDto(), { inStock: true }),
+      );
+      await service.findWithFilters(
+        Object.assign(new ProductQueryDto(), { inStock: false }),
+      );
+
+      const inStock =
+        'EXISTS (SELECT 1 FROM stock_levels stock WHERE stock."productId" = product.id AND stock.quantity > stock.reserved)';
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(inStock);
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(`NOT ${inStock}`);
+    });
+
+    it('filters, sorts and returns prices in the requested currency', async () => {
+      const queryBuilder = createQueryBuilderMock([], 1);
+      queryBuilder.getRawAndEntities.mockResolvedValue({
+        entities: [{ id: 7, price: '9000.00', currency: 'RUB' }],
+        raw: [{ product_id: 7, converted_price: '90.00' }],
+      });
+      productsRepo.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      const query = Object.assign(new ProductQueryDto(), {
+        currency: 'EUR',
+        sortBy: 'price',
+        priceMax: 100,
+      });
+      const result = await service.findWithFilters(query);
+
+      const converted = 'ROUND(product.price * rate.rate / :targetRate, 2)';
+      expect(currenciesService.getRate).toHaveBeenCalledWith('EUR');
+      expect(queryBuilder.setParameter).toHaveBeenCalledWith('targetRate', 100);
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        `${converted} <= :priceMax`,
+        { priceMax: 100 },
+      );
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith(
+        converted,
+        'DESC',
+        'NULLS LAST',
+      );
+      expect(result.items).toEqual([
+        {
+          id: 7,
+          price: 90,
+          currency: 'EUR',
+          originalPrice: 9000,
+          originalCurrency: 'RUB',
+        },
+      ]);
+    });
+
+    it('ranks search results by relevance and highlights matches', async () => {
+      const queryBuilder = createQueryBuilderMock([], 2);
+      queryBuilder.getRawAndEntities.mockResolvedValue({
+        entities: [
+          { id: 4, name: 'Кроссовки беговые', brand: null },
+          { id: 9, name: 'Кроссовки', brand: 'Nike' },
+        ],
+        raw: [
+          {
+            product_id: 4,
+            relevance: '0.833333',
+            highlight_name: '<mark>Кроссовки</mark> беговые',
+            highlight_brand: null,
+          },
+          {
+            product_id: 9,
+            relevance: '0.1',
+            highlight_name: '<mark>Кроссовки</mark>',
+            highlight_brand: 'Nike',
+          },
+        ],
+      });
+      productsRepo.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      const query = Object.assign(new ProductQueryDto(), {
+        search: 'кроссовок',
+        sortBy: 'relevance',
+        limit: 1,
+      });
+      const result = await service.findWithFilters(query);
+
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith(
+        expect.stringContaining('ts_rank_cd(product.searchVector'),
+        'DESC',
+        'NULLS LAST',
+      );
+      expect(result.items).toEqual([
+        {
+          id: 4,
+          name: 'Кроссовки беговые',
+          brand: null,
+          relevance: 0.833333,
+          highlight: { name: '<mark>Кроссовки</mark> беговые', brand: null },
+        },
+      ]);
+      expect(result.nextCursor).toBe(
+        encodeCursor({ sortBy: 'relevance', value: 0.833333, id: 4 }),
+      );
+    });
+
+    it('requires search for relevance sorting', async () => {
+      productsRepo.createQueryBuilder.mockReturnValue(
+        createQueryBuilderMock([]),
+      );
+
+      await expect(
+        service.findWithFilters(
+          Object.assign(new ProductQueryDto(), { sortBy: 'relevance' }),
+        ),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('rejects a cursor issued for a different sort column', async () => {
+      productsRepo.createQueryBuilder.mockReturnValue(
+        createQueryBuilderMock([]),
+      );
+
+      const query = Object.assign(new ProductQueryDto(), {
+        sortBy: 'price',
+        cursor: encodeCursor({ sortBy: 'name', value: 'B', id: 2 }),
+      });
+
+      await expect(service.findWithFilters(query)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    });
+    it('rejects a price cursor issued for another currency', async () => {
+      productsRepo.createQueryBuilder.mockReturnValue(
+        createQueryBuilderMock([]),
+      );
+      const cursor = encodeCursor({
+        sortBy: 'price',
+        value: 90,
+        id: 7,
+        currency: 'EUR',
+      });
+
+      for (const currency of ['USD', undefined]) {
+        const query = Object.assign(new ProductQueryDto(), {
+          sortBy: 'price',
+          currency,
+          cursor,
+        });
+        await expect(service.findWithFilters(query)).rejects.toBeInstanceOf(
+          BadRequestException,
+        );
+      }
+
+      const query = Object.assign(new ProductQueryDto(), {
+        sortBy: 'price',
+        currency: 'EUR',
+        cursor,
+      });
+      await expect(service.findWithFilters(query)).resolves.toMatchObject({
+        page: null,
+      });
+    });
+  });
+
+  describe('getFacets', () => {
+    // Каждый запрос фасета — свой query builder; ответ зависит от того,
+    // что выбирается
+    function mockFacetQueries(data: {
+      values?: Record<string, { value: string; count: string }[]>;
+      stats: { min: string | null; max: string | null; withoutPrice: string };
+      buckets?: { bucket: number; count: string }[];
+      count?: number;
+    }) {
+      const builders: Record<string, jest.Mock>[] = [];
+      productsRepo.createQueryBuilder.mockImplementation(() => {
+        const queryBuilder = createQueryBuilderMock([], data.count ?? 0);
+        let selected = '';
+        queryBuilder.select = jest.fn((expression: string) => {
+          selected = expression;
+          return queryBuilder;
+        });
+        queryBuilder.getRawMany = jest.fn(async () =>
+          selected.startsWith('product.')
+            ? data.values?.[selected.slice('product.'.length)] ?? []
+            : data.buckets ?? [],
+        );
+        queryBuilder.getRawOne = jest.fn(async () => data.stats);
+        builders.push(queryBuilder);
+        return queryBuilder;
+      });
+      return builders;
+    }
+
+    const facetsQuery = (values: Partial<ProductFacetsQueryDto> = {}) =>
+      Object.assign(new ProductFacetsQueryDto(), values);
+
+    it('counts field values and builds a histogram with rounded bounds', async () => {
+      const builders = mockFacetQueries({
+        values: {
+          brand: [
+            { value: 'Nike', count: '3' },
+            { value: 'Adidas', count: '1' },
+          ],
+        },
+        stats: { min: '0.00', max: '1.00', withoutPrice: '2' },
+        // Цена, равная max, попадает в последний интервал
+        buckets: [
+          { bucket: 1, count: '1' },
+          { bucket: 10, count: '2' },
+        ],
+      });
+
+      const facets = await service.getFacets(facetsQuery());
+
+      expect(facets.brand).toEqual([
+        { value: 'Nike', count: 3 },
+        { value: 'Adidas', count: 1 },
+      ]);
+      expect(facets.color).toEqual([]);
+      expect(facets.price).toMatchObject({ min: 0, max: 1, withoutPrice: 2 });
+      expect(facets.price.buckets).toHaveLength(10);
+      expect(facets.price.buckets[2]).toEqual({ from: 0.2, to: 0.3, count: 0 });
+      expect(facets.price.buckets[0].count).toBe(1);
+      expect(facets.price.buckets[9]).toEqual({ from: 0.9, to: 1, count: 2 });
+      expect(
+        builders.some((queryBuilder) =>
+          queryBuilder.select.mock.calls.some(([expression]) =>
+            /^LEAST\(width_bucket\(.*\), :bucketCount\)$/.test(expression),
+          ),
+        ),
+      ).toBe(true);
+    });
+
+    it('returns empty facets for an empty catalog', async () => {
+      mockFacetQueries({
+        stats: { min: null, max: null, withoutPrice: '0' },
+      });
+
+      const facets = await service.getFacets(facetsQuery());
+
+      expect(facets).toEqual({
+        brand: [],
+        color: [],
+        country: [],
+        price: { min: null, max: null, withoutPrice: 0, buckets: [] },
+      });
+    });
+
+    it('puts every price into one bucket when all prices are equal', async () => {
+      mockFacetQueries({
+        stats: { min: '500.00', max: '500.00', withoutPrice: '1' },
+        count: 3,
+      });
+
+      const facets = await service.getFacets(facetsQuery());
+
+      expect(facets.price).toEqual({
+        min: 500,
+        max: 500,
+        withoutPrice: 1,
+        buckets: [{ from: 500, to: 500, count: 3 }],
+      });
+    });
+  });
+
+  describe('iterateWithFilters', () => {
+    it('walks the catalog in keyset batches until a short batch', async () => {
+      const first = createQueryBuilderMock([
+        { id: 5, name: 'E' },
+        { id: 4, name: 'D' },
+      ]);
+      const second = createQueryBuilderMock([{ id: 3, name: 'C' }]);
+      productsRepo.createQueryBuilder
+        .mockReturnValueOnce(first)
+        .mockReturnValueOnce(second);
+
+      const query = Object.assign(new ProductQueryDto(), { sortBy: 'name' });
+      const batches: Partial<ProductEntity>[][] = [];
+      for await (const batch of service.iterateWithFilters(query, 2)) {
+        batches.push(batch);
+      }
+
+      expect(batches.map((batch) => batch.length)).toEqual([2, 1]);
+      expect(second.andWhere).toHaveBeenCalledWith(expect.any(String), {
+        cursorValue: 'D',
+        cursorId: 4,
+      });
+    });
+  });
+
+  describe('audit', () => {
+    const editor = {
+      id: 4,
+      email: 'editor@example.com',
+      role: 'editor' as const,
+    };
+
+    it('records changed fields of an update with the acting user', async () => {
+      productsRepo.findOneBy
+        .mockResolvedValueOnce({
+          id: 1,
+          article: 'A-1',
+          name: 'Кеды',
+          price: '100.00',
+          currency: 'RUB',
+        })
+        .mockResolvedValueOnce({
+          id: 1,
+          article: 'A-1',
+          name: 'Кеды',
+          price: '120.00',
+          currency: 'RUB',
+        });
+
+      await service.update(1, { price: 120 }, editor);
+
+      expect(productsRepo.update).toHaveBeenCalledWith(1, {
+        price: 120,
+        updatedById: 4,
+      });
+      expect(pricesService.record).toHaveBeenCalledWith(
+        [
+          {
+            productId: 1,
+            price: 120,
+            previousPrice: 100,
+            currency: 'RUB',
+            previousCurrency: 'RUB',
+            actorId: 4,
+          },
+        ],
+        expect.anything(),
+      );
+      expect(auditService.record).toHaveBeenCalledWith(
+        [
+          {
+            action: 'update',
+            productId: 1,
+            article: 'A-1',
+            changes: { price: { before: 100, after: 120 } },
+            actorId: 4,
+          },
+        ],
+        expect.anything(),
+      );
+    });
+
+    it('records a currency change in the price history', async () => {
+      const product = {
+        id: 1,
+        article: 'A-1',
+        name: 'Кеды',
+        price: '100.00',
+        currency: 'RUB',
+      };
+      productsRepo.findOneBy
+        .mockResolvedValueOnce(product)
+        .mockResolvedValueOnce({ ...product, currency: 'EUR' });
+
+      await service.update(1, { currency: 'EUR' }, editor);
+
+      expect(pricesService.record).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            price: 100,
+            previousPrice: 100,
+            currency: 'EUR',
+            previousCurrency: 'RUB',
+          }),
+        ],
+        expect.anything(),
+      );
+    });
+
+    it('keeps the last state of a deleted product', async () => {
+      productsRepo.findOneBy.mockResolvedValueOnce({
+        id: 2,
+        article: 'B-2',
+        name: 'Шапка',
+      });
+
+      await service.remove(2, editor);
+
+      expect(productsRepo.softDelete).toHaveBeenCalledWith(2);
+      expect(auditService.record).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            action: 'delete',
+            changes: {
+              article: { before: 'B-2', after: null },
+              name: { before: 'Шапка', after: null },
+            },
+          }),
+        ],
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('trash', () => {
+    it('refuses to create an article that waits in the trash', async () => {
+      productsRepo.findOne.mockResolvedValue({
+        id: 2,
+        article: 'B-2',
+        deletedAt: new Date(),
+      });
+
+      await expect(
+        service.create({ article: 'B-2', name: 'Шапка' }),
+      ).rejects.toBeInstanceOf(ArticleInTrashException);
+      expect(productsRepo.findOne).toHaveBeenCalledWith({
+        where: { article: 'B-2' },
+        withDeleted: true,
+      });
+    });
+
+    it('restores only trashed products', async () => {
+      productsRepo.findOne.mockResolvedValueOnce({ id: 2, deletedAt: null });
+      await expect(service.restore(2)).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+
+      productsRepo.findOne.mockResolvedValueOnce({
+        id: 2,
+        article: 'B-2',
+        deletedAt: new Date(),
+      });
+      productsRepo.findOneBy.mockResolvedValueOnce({ id: 2, article: 'B-2' });
+      await service.restore(2);
+
+      expect(productsRepo.restore).toHaveBeenCalledWith(2);
+      expect(auditService.record).toHaveBeenCalledWith(
+        [expect.objectContaining({ action: 'restore', productId: 2 })],
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('versions', () => {
+    const product = {
+      id: 1,
+      article: 'A-1',
+      name: 'Кеды',
+      brand: 'Nike',
+      price: 100,
+      currency: 'RUB',
+      attributes: { size: '42', waterproof: true },
+      version: 3,
+    };
+
+    it('rejects a stale If-Match with 412 and a stale body version with 409', async () => {
+      productsRepo.findOneBy.mockResolvedValue(product);
+
+      await expect(
+        service.update(1, { name: 'Кроссовки' }, undefined, [2]),
+      ).rejects.toMatchObject({ code: 'STALE_VERSION', status: 412 });
+      await expect(
+        service.update(1, { name: 'Кроссовки', version: 2 }),
+      ).rejects.toMatchObject({ code: 'STALE_VERSION', status: 409 });
+      expect(productsRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('guards the write with the checked version', async () => {
+      productsRepo.findOneBy.mockResolvedValue(product);
+      productsRepo.update.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.update(1, { brand: null }, undefined, [3]),
+      ).rejects.toBeInstanceOf(StaleVersionException);
+      expect(productsRepo.update).toHaveBeenCalledWith(
+        { id: 1, version: 3 },
+        { brand: null },
+      );
+    });
+
+    it('clears fields missing from a full replacement', async () => {
+      productsRepo.findOneBy.mockResolvedValue(product);
+
+      await service.replace(1, {
+        article: 'A-1',
+        name: 'Кеды',
+        attributes: { size: '43' },
+      });
+
+      expect(productsRepo.update).toHaveBeenCalledWith(1, {
+        article: 'A-1',
+        name: 'Кеды',
+        brand: null,
+        price: null,
+        currency: 'RUB',
+        color: null,
+        country: null,
+        categoryId: null,
+        attributes: { size: '43' },
+      });
+    });
+  });
+
+  describe('attributes and variants', () => {
+    const parent = {
+      id: 1,
+      article: 'A-1',
+      name: 'Кеды',
+      brand: 'Nike',
+      price: 100,
+      currency: 'RUB',
+      parentId: null,
+      attributes: { size: '42', waterproof: true },
+      version: 1,
+    };
+
+    it('validates and merges patched attribute values', async () => {
+      productsRepo.findOneBy.mockResolvedValue(parent);
+
+      await service.update(1, {
+        attributes: { size: '43', waterproof: null },
+      });
+
+      expect(attributesService.validateValues).toHaveBeenCalledWith(
+        { size: '43', waterproof: null },
+        null,
+      );
+      expect(productsRepo.update).toHaveBeenCalledWith(1, {
+        attributes: { size: '43' },
+      });
+    });
+
+    it('revalidates current attribute values when the category changes', async () => {
+      productsRepo.findOneBy.mockResolvedValue(parent);
+
+      await service.update(1, { categoryId: 7, attributes: { size: '43' } });
+
+      expect(attributesService.validateValues).toHaveBeenCalledWith(
+        { size: '43', waterproof: true },
+        7,
+      );
+    });
+
+    it('creates a variant with fields inherited from the parent', async () => {
+      productsRepo.findOneBy.mockResolvedValue(parent);
+      productsRepo.findOne.mockResolvedValue(null);
+
+      const variant = await service.createVariant(1, {
+        article: 'A-1-43',
+        price: 120,
+        attributes: { size: '43' },
+      });
+
+      expect(variant).toMatchObject({
+        article: 'A-1-43',
+        name: 'Кеды',
+        brand: 'Nike',
+        price: 120,
+        currency: 'RUB',
+        parentId: 1,
+        attributes: { size: '43', waterproof: true },
+      });
+    });
+
+    it('does not create variants of a variant', async () => {
+      productsRepo.findOneBy.mockResolvedValue({ ...parent, parentId: 5 });
+
+      await expect(
+        service.createVariant(1, { article: 'A-1-43' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(productsRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('refuses to delete a product that has variants, even trashed ones', async () => {
+      productsRepo.findOneBy.mockResolvedValue(parent);
+      productsRepo.count.mockResolvedValue(2);
+
+      await expect(service.remove(1)).rejects.toBeInstanceOf(ConflictException);
+      expect(productsRepo.count).toHaveBeenCalledWith({
+        where: { parentId: 1 },
+        withDeleted: true,
+      });
+      expect(productsRepo.softDelete).not.toHaveBeenCalled();
+    });
+
+    it('does not restore a variant whose parent is gone', async () => {
+      productsRepo.findOne.mockResolvedValue({
+        id: 3,
+        parentId: 1,
+        deletedAt: new Date(),
+      });
+      productsRepo.existsBy.mockResolvedValue(false);
+
+      await expect(service.restore(3)).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+      expect(productsRepo.existsBy).toHaveBeenCalledWith({ id: 1 });
+      expect(productsRepo.restore).not.toHaveBeenCalled();
+    });
+
+    it('lists variants of an existing product', async () => {
+      productsRepo.existsBy.mockResolvedValue(false);
+
+      await expect(service.findVariants(1)).rejects.toBeInstanceOf(
+        ProductNotFoundException,
+      );
+      expect(productsRepo.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('by article', () => {
+    it('looks up articles in request order and lists missing ones', async () => {
+      const queryBuilder = createQueryBuilderMock([
+        { id: 2, article: 'B/2' },
+        { id: 1, article: 'A-1' },
+      ]);
+      productsRepo.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      const result = await service.lookupByArticles([
+        'A-1',
+        'Z-9',
+        'B/2',
+        'A-1',
+      ]);
+
+      expect(queryBuilder.where).toHaveBeenCalledWith(
+        'product.article = ANY(:articles)',
+        { articles: ['A-1', 'Z-9', 'B/2'] },
+      );
+      expect(result).toEqual({
+        items: [
+          { id: 1, article: 'A-1' },
+          { id: 2, article: 'B/2' },
+        ],
+        missing: ['Z-9'],
+      });
+    });
+
+    it('does not return trashed products by article', async () => {
+      productsRepo.findOneBy.mockResolvedValue(null);
+
+      await expect(service.getByArticle('A-1')).rejects.toBeInstanceOf(
+        ProductNotFoundException,
+      );
+      expect(productsRepo.findOneBy).toHaveBeenCalledWith({ article: 'A-1' });
+    });
+  });
+
+  describe('bulk', () => {
+    const editor = {
+      id: 4,
+      email: 'editor@example.com',
+      role: 'editor' as const,
+    };
+
+    it('reports every operation and rolls back an atomic batch on errors', async () => {
+      productsRepo.findOne.mockResolvedValue(null);
+      productsRepo.findOneBy.mockImplementation(async ({ id, article }) =>
+        article === 'A-1' || id === 1
+          ? { id: 1, article: 'A-1', name: 'Кеды' }
+          : null,
+      );
+
+      const result = await service.bulk(
+        {
+          atomic: true,
+          operations: [
+            { op: 'create', data: { article: 'N-1', name: 'Шапка' } },
+            { op: 'create', data: { name: 'Без артикула' } },
+            { op: 'update', article: 'A-1', data: { country: 'Китай' } },
+            { op: 'delete', id: 99 },
+          ],
+        },
+        editor,
+      );
+
+      expect(result).toMatchObject({ applied: false, succeeded: 2, failed: 2 });
+      expect(result.results).toEqual([
+        { index: 0, op: 'create', status: 'ok', id: 10, article: 'N-1' },
+        expect.objectContaining({
+          index: 1,
+          status: 'error',
+          statusCode: 400,
+          code: 'BAD_REQUEST',
+        }),
+        { index: 2, op: 'update', status: 'ok', id: 1, article: 'A-1' },
+        {
+          index: 3,
+          op: 'delete',
+          status: 'error',
+          id: 99,
+          statusCode: 404,
+          code: 'PRODUCT_NOT_FOUND',
+          error: 'Продукт с ID 99 не найден',
+        },
+      ]);
+      expect(productsRepo.update).toHaveBeenCalledWith(1, {
+        country: 'Китай',
+        updatedById: 4,
+      });
+    });
+    it('rejects negative, overflowing and sub-kopeck prices on create', async () => {
+      productsRepo.findOne.mockResolvedValue(null);
+
+      const result = await service.bulk(
+        {
+          atomic: false,
+          operations: [-1, 100000000, 10.005].map((price, index) => ({
+            op: 'create' as const,
+            data: { article: `P-${index}`, name: 'Шапка', price },
+          })),
+        },
+        editor,
+      );
+
+      expect(result).toMatchObject({ succeeded: 0, failed: 3 });
+      for (const item of result.results) {
+        expect(item).toMatchObject({ status: 'error', statusCode: 400 });
+        expect(item.error).toMatch(/price/);
+      }
+      expect(productsRepo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('patchByFilter', () => {
+    it('refuses to patch the whole catalog', async () => {
+      for (const filters of [
+        {},
+        { hasPrice: true },
+        { inStock: true },
+        { priceMin: 0 },
+        { createdAfter: new Date('2000-01-01') },
+      ]) {
+        await expect(
+          service.patchByFilter(Object.assign(new ProductQueryDto(), filters), {
+            set: { country: 'Китай' },
+            dryRun: true,
+          }),
+        ).rejects.toBeInstanceOf(BadRequestException);
+      }
+
+      productsRepo.createQueryBuilder.mockReturnValue(
+        createQueryBuilderMock([], 0),
+      );
+      await expect(
+        service.patchByFilter(
+          Object.assign(new ProductQueryDto(), { priceMin: 0, priceMax: 100 }),
+          { set: { country: 'Китай' }, dryRun: true },
+        ),
+      ).resolves.toEqual({ dryRun: true, matched: 0, updated: 0 });
+    });
+
+    it('loads matching products in id batches', async () => {
+      const selectQuery = createQueryBuilderMock([]);
+      const full = Array.from({ length: 1000 }, (_, index) => ({
+        id: index + 1,
+        country: 'Китай',
+      }));
+      selectQuery.getMany
+        .mockResolvedValueOnce(full)
+        .mockResolvedValueOnce([{ id: 1001, country: 'Китай' }]);
+      const updateQuery: Record<string, jest.Mock> = {};
+      for (const method of [
+        'update',
+        'set',
+        'where',
+        'setParameter',
+        'returning',
+      ]) {
+        updateQuery[method] = jest.fn().mockReturnValue(updateQuery);
+      }
+      updateQuery.execute = jest.fn().mockResolvedValue({ raw: [] });
+      productsRepo.createQueryBuilder.mockImplementation((alias?: string) =>
+        alias ? selectQuery : updateQuery,
+      );
+
+      const result = await service.patchByFilter(
+        Object.assign(new ProductQueryDto(), { brand: ['Nike'] }),
+        { set: { country: 'Китай' }, dryRun: false },
+      );
+
+      expect(result).toEqual({ dryRun: false, matched: 1001, updated: 0 });
+      expect(selectQuery.getMany).toHaveBeenCalledTimes(2);
+      expect(selectQuery.limit).toHaveBeenCalledWith(1000);
+      expect(selectQuery.andWhere).toHaveBeenCalledWith(
+        'product.id > :afterId',
+        {
+          afterId: 0,
+        },
+      );
+      expect(selectQuery.andWhere).toHaveBeenCalledWith(
+        'product.id > :afterId',
+        {
+          afterId: 1000,
+        },
+      );
+      expect(updateQuery.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('raises prices under a filter and logs each changed product', async () => {
+      const selectQuery = createQueryBuilderMock([
+        { id: 1, article: 'A-1', name: 'Кеды', price: 100, currency: 'RUB' },
+        { id: 2, article: 'B-2', name: 'Шапка', currency: 'RUB' },
+      ]);
+      const updateQuery: Record<string, jest.Mock> = {};
+      for (const method of [
+        'update',
+        'set',
+        'where',
+        'setParameter',
+        'returning',
+      ]) {
+        updateQuery[method] = jest.fn().mockReturnValue(updateQuery);
+      }
+      updateQuery.execute = jest.fn().mockResolvedValue({
+        raw: [
+          {
+            id: 1,
+            article: 'A-1',
+            name: 'Кеды',
+            price: '105.00',
+            currency: 'RUB',
+          },
+          {
+            id: 2,
+            article: 'B-2',
+            name: 'Шапка',
+            price: null,
+            currency: 'RUB',
+          },
+        ],
+      });
+      productsRepo.createQueryBuilder.mockImplementation((alias?: string) =>
+        alias ? selectQuery : updateQuery,
+      );
+
+      const result = await service.patchByFilter(
+        Object.assign(new ProductQueryDto(), { brand: ['Nike'] }),
+        { priceChangePercent: 5, dryRun: false },
+      );
+
+      expect(result).toEqual({ dryRun: false, matched: 2, updated: 1 });
+      expect(updateQuery.where).toHaveBeenCalledWith('id = ANY(:ids)', {
+        ids: [1, 2],
+      });
+      expect(updateQuery.setParameter).toHaveBeenCalledWith(
+        'priceFactor',
+        1.05,
+      );
+      expect(pricesService.record).toHaveBeenCalledWith(
+        [
+          {
+            productId: 1,
+            price: 105,
+            previousPrice: 100,
+            currency: 'RUB',
+            previousCurrency: 'RUB',
+            actorId: undefined,
+          },
+        ],
+        expect.anything(),
+      );
+      expect(auditService.record).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            action: 'update',
+            productId: 1,
+            changes: { price: { before: 100, after: 105 } },
+          }),
+        ],
+        expect.anything(),
+      );
+    });
+  });
 });
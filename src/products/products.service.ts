@@ -1,15 +1,137 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  Injectable,
+} from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Like, ILike } from 'typeorm';
+import { EntityManager, IsNull, Repository, SelectQueryBuilder } from 'typeorm';
 import { ProductEntity } from './product.entity';
 import { CreateProductDto } from '../dto/create-product.dto';
-import { UpdateProductDto } from '../dto/update-product.dto';
+import { PatchProductDto } from '../dto/patch-product.dto';
+import { ReplaceProductDto } from '../dto/replace-product.dto';
+import { CreateVariantDto } from '../dto/product-variant.dto';
+import { BASE_CURRENCY } from '../dto/currency.dto';
+import {
+  ProductFacetsQueryDto,
+  ProductFilterDto,
+  ProductQueryDto,
+  ProductSortField,
+  ProductTrashQueryDto,
+} from '../dto/product-query.dto';
+import { ProductSearchMatch } from '../dto/product-search.dto';
+import { FacetBucket, ProductFacets } from '../dto/product-facets.dto';
+import { PaginatedResult } from '../dto/paginated-result.dto';
+import { ProductLookupResult } from '../dto/product-lookup.dto';
+import { AuthUser } from '../dto/auth.dto';
+import {
+  BulkOperationResult,
+  BulkPatchDto,
+  BulkPatchResult,
+  BulkProductOperationDto,
+  BulkProductsDto,
+  BulkProductsResult,
+} from '../dto/product-bulk.dto';
+import {
+  AuditEntry,
+  AuditService,
+  productChanges,
+} from '../audit/audit.service';
+import { PriceEntry, PricesService } from '../prices/prices.service';
+import {
+  ArticleInTrashException,
+  DuplicateArticleException,
+  ProductNotFoundException,
+  StaleVersionException,
+  errorCode,
+} from '../errors/domain.exceptions';
+import { CurrenciesService } from '../currencies/currencies.service';
+import { CategoriesService } from '../categories/categories.service';
+import { AttributesService } from '../attributes/attributes.service';
+import { mergeAttributes } from '../attributes/attribute-values';
+import { StockService } from '../inventory/stock.service';
+import { ImagesService } from '../images/images.service';
+import { CurrencyRateEntity } from '../currencies/currency-rate.entity';
+import {
+  ProductCursor,
+  cursorValue,
+  decodeCursor,
+  encodeCursor,
+} from './product-cursor';
+
+// Экранирует спецсимволы шаблона ILIKE в пользовательском вводе
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function roundPrice(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Слова запроса как префиксы для to_tsquery: «кроссов» найдёт
+// «кроссовки». Спецсимволы tsquery в слова не попадают
+function toPrefixQuery(search: string): string {
+  const words = search.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.map((word) => `${word}:*`).join(' & ');
+}
+
+// Валюта, в которую пересчитываются цены, и её курс к базовой
+interface PriceConversion {
+  currency: string;
+  rate: number;
+}
+
+// Цена товара в валюте запроса; rate — курс валюты товара к базовой
+const CONVERTED_PRICE = 'ROUND(product.price * rate.rate / :targetRate, 2)';
+
+// Поисковый запрос в обеих конфигурациях, как и searchVector
+const TS_QUERY =
+  "(to_tsquery('russian', :tsQuery) || to_tsquery('english', :tsQuery))";
+
+// Ранг полнотекстового совпадения плюс похожесть артикула: точный артикул
+// поднимается наверх. Округление — чтобы значение в курсоре совпадало с БД
+const RELEVANCE = `ROUND((ts_rank_cd(product.searchVector, ${TS_QUERY}) + similarity(product.article, :search))::numeric, 6)`;
+
+const HIGHLIGHT_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+
+// Массовое изменение требует фильтра по значениям или закрытого
+// диапазона. Это защита от забытого фильтра, а не гарантия: hasPrice,
+// inStock и открытые границы совпадают почти со всем каталогом и
+// сами по себе не считаются
+const NARROWING_FILTERS: (keyof ProductFilterDto)[] = [
+  'search',
+  'category',
+  'attributes',
+  'brand',
+  'color',
+  'country',
+];
+const NARROWING_RANGES: [keyof ProductFilterDto, keyof ProductFilterDto][] = [
+  ['priceMin', 'priceMax'],
+  ['createdAfter', 'createdBefore'],
+  ['updatedAfter', 'updatedBefore'],
+];
+
+// Размер пачки UPDATE при массовом изменении
+const PATCH_BATCH_SIZE = 1000;
+
+// Откатывает транзакцию пакета, в котором есть ошибочные операции
+class BulkRollback extends Error {}
 
 @Injectable()
 export class ProductsService {
   constructor(
     @InjectRepository(ProductEntity)
     private readonly productsRepo: Repository<ProductEntity>,
+    private readonly auditService: AuditService,
+    private readonly pricesService: PricesService,
+    private readonly currenciesService: CurrenciesService,
+    private readonly categoriesService: CategoriesService,
+    private readonly attributesService: AttributesService,
+    private readonly stockService: StockService,
+    private readonly imagesService: ImagesService,
   ) {}
 
   async findAll(): Promise<ProductEntity[]> {
@@ -22,89 +144,1141 @@ export class ProductsService {
     return this.productsRepo.findOneBy({ id });
   }
 
+  // Артикул уникален с учётом корзины, поэтому ищем и среди удалённых
   async findByArticle(article: string): Promise<ProductEntity | null> {
-    return this.productsRepo.findOneBy({ article });
+    return this.productsRepo.findOne({ where: { article }, withDeleted: true });
+  }
+
+  // Товар каталога по артикулу; товар из корзины не возвращается
+  async getByArticle(article: string): Promise<ProductEntity> {
+    const product = await this.productsRepo.findOneBy({ article });
+    if (!product) {
+      throw new ProductNotFoundException({ article });
+    }
+    return product;
+  }
+
+  // Найденные товары в порядке запроса и список ненайденных артикулов
+  async lookupByArticles(
+    articles: string[],
+  ): Promise<ProductLookupResult<ProductEntity>> {
+    const unique = [...new Set(articles)];
+    const products = await this.productsRepo
+      .createQueryBuilder('product')
+      .where('product.article = ANY(:articles)', { articles: unique })
+      .getMany();
+    const byArticle = new Map(
+      products.map((product) => [product.article, product]),
+    );
+
+    return {
+      items: unique
+        .map((article) => byArticle.get(article))
+        .filter((product): product is ProductEntity => !!product),
+      missing: unique.filter((article) => !byArticle.has(article)),
+    };
   }
 
   async findWithFilters(
-    search?: string,
-    brand?: string,
-    sortBy: string = 'createdAt',
-    sortOrder: 'ASC' | 'DESC' = 'DESC',
-  ): Promise<ProductEntity[]> {
-    const queryBuilder = this.productsRepo.createQueryBuilder('product');
+    query: ProductQueryDto,
+  ): Promise<PaginatedResult<ProductEntity>> {
+    const { sortBy, page, limit, cursor } = query;
+    const conversion = await this.resolveConversion(query.currency);
+    const total = await this.createFilteredQuery(query, conversion).getCount();
+
+    const queryBuilder = this.createSortedQuery(
+      query,
+      conversion,
+      cursor ? decodeCursor(cursor, sortBy, query.currency) : undefined,
+    ).limit(limit + 1);
+    if (!cursor) {
+      queryBuilder.offset((page - 1) * limit);
+    }
+
+    const rows = await this.loadProducts(
+      queryBuilder,
+      conversion,
+      query.search,
+    );
+    const items = await this.imagesService.attachTo(rows.slice(0, limit));
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      total,
+      page: cursor ? null : page,
+      pageCount: Math.ceil(total / limit),
+      nextCursor:
+        rows.length > limit && last
+          ? encodeCursor(this.cursorFor(last, sortBy, query.currency))
+          : null,
+    };
+  }
+
+  // Обходит весь отфильтрованный каталог пачками по keyset-курсору,
+  // не загружая его в память целиком
+  async *iterateWithFilters(
+    query: ProductQueryDto,
+    batchSize = 1000,
+  ): AsyncGenerator<ProductEntity[]> {
+    const conversion = await this.resolveConversion(query.currency);
+    let cursor: ProductCursor | undefined;
+
+    while (true) {
+      const batch = await this.loadProducts(
+        this.createSortedQuery(query, conversion, cursor).limit(batchSize),
+        conversion,
+        query.search,
+      );
+      if (batch.length) yield batch;
+      if (batch.length < batchSize) return;
+
+      cursor = this.cursorFor(
+        batch[batch.length - 1],
+        query.sortBy,
+        query.currency,
+      );
+    }
+  }
+
+  // Фасеты считаются без собственного фильтра, чтобы выбранное значение
+  // не скрывало остальные варианты
+  async getFacets(query: ProductFacetsQueryDto): Promise<ProductFacets> {
+    const conversion = await this.resolveConversion(query.currency);
+    const [brand, color, country, price] = await Promise.all([
+      this.getFieldFacet(query, 'brand', conversion),
+      this.getFieldFacet(query, 'color', conversion),
+      this.getFieldFacet(query, 'country', conversion),
+      this.getPriceFacet(query, conversion),
+    ]);
+    return { brand, color, country, price };
+  }
+
+  private async getFieldFacet(
+    query: ProductFacetsQueryDto,
+    field: 'brand' | 'color' | 'country',
+    conversion?: PriceConversion,
+  ): Promise<FacetBucket[]> {
+    const rows = await this.createFilteredQuery(
+      { ...query, [field]: undefined },
+      conversion,
+    )
+      .select(`product.${field}`, 'value')
+      .addSelect('COUNT(*)', 'count')
+      .andWhere(`product.${field} IS NOT NULL`)
+      .andWhere(`product.${field} != :empty`, { empty: '' })
+      .groupBy(`product.${field}`)
+      .orderBy('COUNT(*)', 'DESC')
+      .addOrderBy(`product.${field}`, 'ASC')
+      .limit(query.facetLimit)
+      .getRawMany<{ value: string; count: string }>();
+
+    return rows.map((row) => ({ value: row.value, count: Number(row.count) }));
+  }
+
+  private async getPriceFacet(
+    query: ProductFacetsQueryDto,
+    conversion?: PriceConversion,
+  ): Promise<ProductFacets['price']> {
+    const price = conversion ? CONVERTED_PRICE : 'product.price';
+    const filters = {
+      ...query,
+      priceMin: undefined,
+      priceMax: undefined,
+      hasPrice: undefined,
+    };
+
+    const stats = await this.createFilteredQuery(filters, conversion)
+      .select(`MIN(${price})`, 'min')
+      .addSelect(`MAX(${price})`, 'max')
+      .addSelect('COUNT(*) - COUNT(product.price)', 'withoutPrice')
+      .getRawOne<{
+        min: string | null;
+        max: string | null;
+        withoutPrice: string;
+      }>();
+
+    const min = stats?.min != null ? Number(stats.min) : null;
+    const max = stats?.max != null ? Number(stats.max) : null;
+    const withoutPrice = Number(stats?.withoutPrice ?? 0);
+
+    if (min === null || max === null) {
+      return { min, max, withoutPrice, buckets: [] };
+    }
+
+    if (min === max) {
+      const count = await this.createFilteredQuery(filters, conversion)
+        .andWhere('product.price IS NOT NULL')
+        .getCount();
+      return {
+        min,
+        max,
+        withoutPrice,
+        buckets: [{ from: min, to: max, count }],
+      };
+    }
+
+    // width_bucket возвращает n + 1 для значения, равного max
+    const bucketCount = query.priceBuckets;
+    const rows = await this.createFilteredQuery(filters, conversion)
+      .select(
+        `LEAST(width_bucket(${price}, :min, :max, :bucketCount), :bucketCount)`,
+        'bucket',
+      )
+      .addSelect('COUNT(*)', 'count')
+      .andWhere('product.price IS NOT NULL')
+      .setParameters({ min, max, bucketCount })
+      .groupBy('bucket')
+      .getRawMany<{ bucket: number; count: string }>();
+
+    const counts = new Map(
+      rows.map((row) => [Number(row.bucket), Number(row.count)]),
+    );
+    // Границы округляются до копеек: min + step * index даёт 0.30000000000000004
+    const step = (max - min) / bucketCount;
+    const bound = (index: number) =>
+      index === bucketCount ? max : roundPrice(min + step * index);
+    const buckets = Array.from({ length: bucketCount }, (_, index) => ({
+      from: bound(index),
+      to: bound(index + 1),
+      count: counts.get(index + 1) ?? 0,
+    }));
+
+    return { min, max, withoutPrice, buckets };
+  }
+
+  // Курс валюты запроса; без валюты цены не пересчитываются
+  private async resolveConversion(
+    currency?: string,
+  ): Promise<PriceConversion | undefined> {
+    if (!currency) return undefined;
+    return { currency, rate: await this.currenciesService.getRate(currency) };
+  }
+
+  // Базовый запрос с фильтрами, без сортировки и пагинации. С conversion
+  // фильтры по цене работают с ценой в валюте запроса
+  private createFilteredQuery(
+    filters: ProductFilterDto,
+    conversion?: PriceConversion,
+    repo: Repository<ProductEntity> = this.productsRepo,
+  ): SelectQueryBuilder<ProductEntity> {
+    const queryBuilder = repo.createQueryBuilder('product');
+    const { search, match = 'partial' } = filters;
+    const price = conversion ? CONVERTED_PRICE : 'product.price';
+
+    if (conversion) {
+      queryBuilder
+        .leftJoin(CurrencyRateEntity, 'rate', 'rate.code = product.currency')
+        .setParameter('targetRate', conversion.rate);
+    }
 
+    // Полнотекстовое совпадение, подстрока артикула или слово, похожее
+    // на запрос, в артикуле или названии (<% — pg_trgm)
     if (search) {
-      queryBuilder.where(
-        '(product.name ILIKE :search OR product.article ILIKE :search OR product.brand ILIKE :search)',
-        { search: `%${search}%` },
+      queryBuilder.andWhere(
+        `(product.searchVector @@ ${TS_QUERY} OR product.article ILIKE :searchLike OR :search <% product.article OR :search <% product.name)`,
+        {
+          search,
+          searchLike: `%${escapeLike(search)}%`,
+          tsQuery: toPrefixQuery(search),
+        },
       );
     }
 
-    if (brand) {
-      if (search) {
-        queryBuilder.andWhere('product.brand ILIKE :brand', {
-          brand: `%${brand}%`,
+    // Категория по slug; с includeDescendants — и все категории, путь
+    // которых продолжает её путь
+    if (filters.category) {
+      queryBuilder.andWhere(
+        filters.includeDescendants
+          ? `product.categoryId IN (SELECT descendant.id FROM categories descendant JOIN categories root ON descendant.id = root.id OR descendant.path LIKE root.path || '/%' WHERE root.slug = :category)`
+          : 'product.categoryId IN (SELECT root.id FROM categories root WHERE root.slug = :category)',
+        { category: filters.category },
+      );
+    }
+
+    // Значение атрибута сравнивается как текст: attributes[size]=42
+    // найдёт и строку «42», и число 42
+    Object.entries(filters.attributes ?? {}).forEach(
+      ([code, values], index) => {
+        if (!values?.length) return;
+        queryBuilder.andWhere(
+          `(product.attributes ->> :attributeCode${index}) IN (:...attributeValues${index})`,
+          {
+            [`attributeCode${index}`]: code,
+            [`attributeValues${index}`]: values,
+          },
+        );
+      },
+    );
+    if (filters.variants === false) {
+      queryBuilder.andWhere('product.parentId IS NULL');
+    }
+
+    for (const field of ['brand', 'color', 'country'] as const) {
+      const values = filters[field];
+      if (!values?.length) continue;
+
+      if (match === 'exact') {
+        queryBuilder.andWhere(`product.${field} IN (:...${field})`, {
+          [field]: values,
         });
-      } else {
-        queryBuilder.where('product.brand ILIKE :brand', {
-          brand: `%${brand}%`,
+        continue;
+      }
+
+      const conditions = values.map((value, index) => {
+        queryBuilder.setParameter(`${field}${index}`, `%${escapeLike(value)}%`);
+        return `product.${field} ILIKE :${field}${index}`;
+      });
+      queryBuilder.andWhere(`(${conditions.join(' OR ')})`);
+    }
+
+    if (filters.priceMin !== undefined) {
+      queryBuilder.andWhere(`${price} >= :priceMin`, {
+        priceMin: filters.priceMin,
+      });
+    }
+    if (filters.priceMax !== undefined) {
+      queryBuilder.andWhere(`${price} <= :priceMax`, {
+        priceMax: filters.priceMax,
+      });
+    }
+    if (filters.hasPrice !== undefined) {
+      queryBuilder.andWhere(
+        filters.hasPrice
+          ? 'product.price IS NOT NULL'
+          : 'product.price IS NULL',
+      );
+    }
+
+    if (filters.inStock !== undefined) {
+      queryBuilder.andWhere(
+        `${
+          filters.inStock ? '' : 'NOT '
+        }EXISTS (SELECT 1 FROM stock_levels stock WHERE stock."productId" = product.id AND stock.quantity > stock.reserved)`,
+      );
+    }
+
+    if (filters.createdAfter) {
+      queryBuilder.andWhere('product.createdAt >= :createdAfter', {
+        createdAfter: filters.createdAfter,
+      });
+    }
+    if (filters.createdBefore) {
+      queryBuilder.andWhere('product.createdAt <= :createdBefore', {
+        createdBefore: filters.createdBefore,
+      });
+    }
+    if (filters.updatedAfter) {
+      queryBuilder.andWhere('product.updatedAt >= :updatedAfter', {
+        updatedAfter: filters.updatedAfter,
+      });
+    }
+    if (filters.updatedBefore) {
+      queryBuilder.andWhere('product.updatedAt <= :updatedBefore', {
+        updatedBefore: filters.updatedBefore,
+      });
+    }
+
+    return queryBuilder;
+  }
+
+  private createSortedQuery(
+    query: ProductQueryDto,
+    conversion?: PriceConversion,
+    cursor?: ProductCursor,
+  ): SelectQueryBuilder<ProductEntity> {
+    const { sortBy, sortOrder, search } = query;
+    if (sortBy === 'relevance' && !search) {
+      throw new BadRequestException(
+        'Сортировка по релевантности возможна только с параметром search',
+      );
+    }
+
+    const queryBuilder = this.createFilteredQuery(query, conversion);
+    const sortColumn =
+      sortBy === 'relevance'
+        ? RELEVANCE
+        : conversion && sortBy === 'price'
+        ? CONVERTED_PRICE
+        : `product.${sortBy}`;
+
+    if (conversion) {
+      queryBuilder.addSelect(CONVERTED_PRICE, 'converted_price');
+    }
+    if (search) {
+      queryBuilder
+        .addSelect(RELEVANCE, 'relevance')
+        .addSelect(
+          `ts_headline('russian', product.name, ${TS_QUERY}, :highlightOptions)`,
+          'highlight_name',
+        )
+        .addSelect(
+          `ts_headline('simple', product.brand, ${TS_QUERY}, :highlightOptions)`,
+          'highlight_brand',
+        )
+        .setParameter('highlightOptions', HIGHLIGHT_OPTIONS);
+    }
+    queryBuilder
+      .orderBy(sortColumn, sortOrder, 'NULLS LAST')
+      .addOrderBy('product.id', sortOrder);
+
+    if (cursor) {
+      this.applyCursor(queryBuilder, sortColumn, cursor, sortOrder);
+    }
+    return queryBuilder;
+  }
+
+  // Без conversion и search — обычный getMany. С conversion цена
+  // заменяется пересчитанной из converted_price, исходная остаётся
+  // в originalPrice/originalCurrency; с search добавляются relevance
+  // и highlight
+  private async loadProducts(
+    queryBuilder: SelectQueryBuilder<ProductEntity>,
+    conversion?: PriceConversion,
+    search?: string,
+  ): Promise<(ProductEntity & Partial<ProductSearchMatch>)[]> {
+    if (!conversion && !search) return queryBuilder.getMany();
+
+    const { entities, raw } = await queryBuilder.getRawAndEntities<{
+      product_id: number;
+      converted_price?: string | null;
+      relevance?: string;
+      highlight_name?: string;
+      highlight_brand?: string | null;
+    }>();
+    const rows = new Map(raw.map((row) => [Number(row.product_id), row]));
+    return entities.map((product) => {
+      const row = rows.get(product.id);
+      if (conversion) {
+        const price = row?.converted_price;
+        Object.assign(product, {
+          price: price == null ? null : Number(price),
+          currency: conversion.currency,
+          originalPrice: product.price == null ? null : Number(product.price),
+          originalCurrency: product.currency,
         });
       }
+      if (!search) return product;
+
+      return Object.assign(product, {
+        relevance: Number(row?.relevance ?? 0),
+        highlight: {
+          name: row?.highlight_name ?? product.name,
+          brand: row?.highlight_brand ?? null,
+        },
+      });
+    });
+  }
+
+  private cursorFor(
+    product: ProductEntity & Partial<ProductSearchMatch>,
+    sortBy: ProductSortField,
+    currency?: string,
+  ): ProductCursor {
+    const cursor: ProductCursor = {
+      sortBy,
+      value: cursorValue(product[sortBy]),
+      id: product.id,
+    };
+    if (sortBy === 'price') {
+      cursor.currency = currency ?? null;
+    }
+    return cursor;
+  }
+
+  // Keyset-условие «после курсора» с учётом NULLS LAST
+  private applyCursor(
+    queryBuilder: SelectQueryBuilder<ProductEntity>,
+    column: string,
+    cursor: ProductCursor,
+    sortOrder: 'ASC' | 'DESC',
+  ): void {
+    const op = sortOrder === 'ASC' ? '>' : '<';
+
+    if (cursor.value === null) {
+      queryBuilder.andWhere(
+        `(${column} IS NULL AND product.id ${op} :cursorId)`,
+        { cursorId: cursor.id },
+      );
+      return;
+    }
+
+    queryBuilder.andWhere(
+      `(${column} ${op} :cursorValue OR (${column} = :cursorValue AND product.id ${op} :cursorId) OR ${column} IS NULL)`,
+      { cursorValue: cursor.value, cursorId: cursor.id },
+    );
+  }
+
+  async create(
+    data: CreateProductDto,
+    actor?: AuthUser,
+  ): Promise<ProductEntity> {
+    return this.productsRepo.manager.transaction((manager) =>
+      this.createIn(manager, data, actor),
+    );
+  }
+
+  // ifMatch — версии из заголовка If-Match; несовпадение — 412
+  async update(
+    id: number,
+    data: PatchProductDto,
+    actor?: AuthUser,
+    ifMatch?: number[],
+  ): Promise<ProductEntity> {
+    return this.productsRepo.manager.transaction(async (manager) => {
+      const existingProduct = await this.findExisting(manager, id);
+      return this.updateIn(manager, existingProduct, data, actor, ifMatch);
+    });
+  }
+
+  async replace(
+    id: number,
+    data: ReplaceProductDto,
+    actor?: AuthUser,
+    ifMatch?: number[],
+  ): Promise<ProductEntity> {
+    return this.productsRepo.manager.transaction(async (manager) => {
+      const existingProduct = await this.findExisting(manager, id);
+      // Атрибуты, которых нет в новом наборе, удаляются
+      const clearedAttributes = Object.fromEntries(
+        Object.keys(existingProduct.attributes ?? {}).map((code) => [
+          code,
+          null,
+        ]),
+      );
+      return this.updateIn(
+        manager,
+        existingProduct,
+        {
+          article: data.article,
+          name: data.name,
+          brand: data.brand ?? null,
+          price: data.price ?? null,
+          currency: data.currency ?? BASE_CURRENCY,
+          color: data.color ?? null,
+          country: data.country ?? null,
+          categoryId: data.categoryId ?? null,
+          attributes: { ...clearedAttributes, ...data.attributes },
+          version: data.version,
+        },
+        actor,
+        ifMatch,
+      );
+    });
+  }
+
+  // Варианты товара в порядке артикулов
+  async findVariants(id: number): Promise<ProductEntity[]> {
+    if (!(await this.productsRepo.existsBy({ id }))) {
+      throw new ProductNotFoundException({ id });
+    }
+    return this.productsRepo.find({
+      where: { parentId: id },
+      order: { article: 'ASC' },
+    });
+  }
+
+  // Вариант — отдельный товар со своим артикулом и ценой.
+  // Не переданные поля берутся у основного товара, атрибуты
+  // дополняются переданными, null убирает унаследованный
+  async createVariant(
+    parentId: number,
+    data: CreateVariantDto,
+    actor?: AuthUser,
+  ): Promise<ProductEntity> {
+    return this.productsRepo.manager.transaction(async (manager) => {
+      const parent = await this.findExisting(manager, parentId);
+      if (parent.parentId) {
+        throw new BadRequestException(
+          `Продукт с ID ${parentId} сам является вариантом`,
+        );
+      }
+      const fields = Object.fromEntries(
+        Object.entries(data).filter(([, value]) => value !== undefined),
+      ) as CreateVariantDto;
+      return this.createIn(
+        manager,
+        {
+          name: parent.name,
+          brand: parent.brand ?? undefined,
+          price: parent.price ?? undefined,
+          currency: parent.currency,
+          color: parent.color ?? undefined,
+          country: parent.country ?? undefined,
+          categoryId: parent.categoryId ?? undefined,
+          ...fields,
+          attributes: mergeAttributes(parent.attributes, data.attributes ?? {}),
+        },
+        actor,
+        parent.id,
+      );
+    });
+  }
+
+  async remove(
+    id: number,
+    actor?: AuthUser,
+    ifMatch?: number[],
+  ): Promise<void> {
+    await this.productsRepo.manager.transaction(async (manager) => {
+      const product = await this.findExisting(manager, id);
+      assertCurrentVersion(product, undefined, ifMatch);
+      await this.removeIn(manager, product, actor);
+    });
+  }
+
+  // Операции выполняются по порядку в одной транзакции, поэтому каждая
+  // видит результат предыдущих. Ошибка операции не прерывает пакет:
+  // она попадает в results, а при atomic откатывается весь пакет
+  async bulk(
+    { operations, atomic }: BulkProductsDto,
+    actor?: AuthUser,
+  ): Promise<BulkProductsResult> {
+    const results: BulkOperationResult[] = [];
+    try {
+      await this.productsRepo.manager.transaction(async (manager) => {
+        for (const [index, operation] of operations.entries()) {
+          results.push(
+            await this.applyOperation(manager, index, operation, actor),
+          );
+        }
+        if (atomic && results.some((result) => result.status === 'error')) {
+          throw new BulkRollback();
+        }
+      });
+    } catch (err) {
+      if (!(err instanceof BulkRollback)) throw err;
+    }
+
+    const failed = results.filter((result) => result.status === 'error').length;
+    return {
+      applied: !(atomic && failed),
+      succeeded: results.length - failed,
+      failed,
+      results,
+    };
+  }
+
+  // Ошибки проверок (HttpException) возникают до записи и не ломают
+  // транзакцию; остальные ошибки прерывают весь пакет
+  private async applyOperation(
+    manager: EntityManager,
+    index: number,
+    operation: BulkProductOperationDto,
+    actor?: AuthUser,
+  ): Promise<BulkOperationResult> {
+    const { op, data } = operation;
+    try {
+      let product: ProductEntity;
+      if (op === 'create') {
+        product = await this.createIn(manager, toCreateProductDto(data), actor);
+      } else {
+        product = await this.findForOperation(manager, operation);
+        if (op === 'update') {
+          if (!data || !Object.keys(data).length) {
+            throw new BadRequestException('Не указаны изменяемые поля (data)');
+          }
+          product = await this.updateIn(manager, product, data, actor);
+        } else {
+          await this.removeIn(manager, product, actor);
+        }
+      }
+      return {
+        index,
+        op,
+        status: 'ok',
+        id: product.id,
+        article: product.article,
+      };
+    } catch (err) {
+      if (!(err instanceof HttpException)) throw err;
+      return {
+        index,
+        op,
+        status: 'error',
+        id: operation.id,
+        article: operation.article ?? data?.article,
+        statusCode: err.getStatus(),
+        code: errorCode(err),
+        error: err.message,
+      };
+    }
+  }
+
+  private async findExisting(
+    manager: EntityManager,
+    id: number,
+  ): Promise<ProductEntity> {
+    const product = await manager
+      .getRepository(ProductEntity)
+      .findOneBy({ id });
+    if (!product) {
+      throw new ProductNotFoundException({ id });
+    }
+    return product;
+  }
+
+  private async findForOperation(
+    manager: EntityManager,
+    { id, article }: BulkProductOperationDto,
+  ): Promise<ProductEntity> {
+    if ((id === undefined) === (article === undefined)) {
+      throw new BadRequestException('Укажите id или article товара');
+    }
+    const product = await manager
+      .getRepository(ProductEntity)
+      .findOneBy(id !== undefined ? { id } : { article });
+    if (!product) {
+      throw new ProductNotFoundException(
+        id !== undefined ? { id } : { article: article! },
+      );
+    }
+    return product;
+  }
+
+  // Задаёт поля set и/или меняет цену на процент у всех товаров под
+  // фильтром. Каждый изменённый товар попадает в журнал и историю цен
+  async patchByFilter(
+    filters: ProductFilterDto,
+    { set = {}, priceChangePercent, dryRun }: BulkPatchDto,
+    actor?: AuthUser,
+  ): Promise<BulkPatchResult> {
+    const fields = Object.fromEntries(
+      Object.entries(set).filter(([, value]) => value !== undefined),
+    );
+    if (!Object.keys(fields).length && priceChangePercent === undefined) {
+      throw new BadRequestException(
+        'Укажите изменяемые поля (set) или priceChangePercent',
+      );
+    }
+    if (fields.price !== undefined && priceChangePercent !== undefined) {
+      throw new BadRequestException(
+        'Нельзя одновременно задать цену и изменить её на процент',
+      );
+    }
+    const narrowed =
+      NARROWING_FILTERS.some((key) => filters[key] !== undefined) ||
+      NARROWING_RANGES.some(
+        ([from, to]) =>
+          filters[from] !== undefined && filters[to] !== undefined,
+      );
+    if (!narrowed) {
+      throw new BadRequestException(
+        'Укажите фильтр по значениям (search, category, attributes, brand, color, country) или диапазон с обеими границами: массовое изменение всего каталога не поддерживается',
+      );
+    }
+    if (typeof fields.currency === 'string') {
+      await this.currenciesService.assertKnown(fields.currency);
+    }
+    if (typeof fields.categoryId === 'number') {
+      await this.categoriesService.assertExists(fields.categoryId);
+    }
+    const conversion = await this.resolveConversion(filters.currency);
+
+    if (dryRun) {
+      const matched = await this.createFilteredQuery(
+        filters,
+        conversion,
+      ).getCount();
+      return { dryRun, matched, updated: 0 };
     }
 
-    // Сортировка по любой колонке
-    const validSortColumns = [
-      'article',
-      'name',
-      'brand',
-      'price',
-      'color',
-      'country',
-      'createdAt',
-    ];
-    if (!validSortColumns.includes(sortBy)) sortBy = 'createdAt';
+    return this.productsRepo.manager.transaction(async (manager) => {
+      const repo = manager.getRepository(ProductEntity);
+      const values = {
+        ...fields,
+        ...(actor ? { updatedById: actor.id } : {}),
+        ...(priceChangePercent !== undefined
+          ? { price: () => 'ROUND(price * :priceFactor, 2)' }
+          : {}),
+      };
+      let matched = 0;
+      let updated = 0;
+      let afterId = 0;
 
-    return queryBuilder.orderBy(`product.${sortBy}`, sortOrder).getMany();
+      // Пачки по id: в памяти только текущая пачка. Изменённые товары
+      // могут перестать подходить под фильтр, но id > afterId не даёт
+      // ни пропустить, ни обработать товар дважды
+      while (true) {
+        const batch = await this.createFilteredQuery(filters, conversion, repo)
+          .andWhere('product.id > :afterId', { afterId })
+          .orderBy('product.id', 'ASC')
+          .limit(PATCH_BATCH_SIZE)
+          .getMany();
+        if (!batch.length) break;
+        matched += batch.length;
+        afterId = batch[batch.length - 1].id;
+
+        const before = new Map(batch.map((product) => [product.id, product]));
+        const result = await repo
+          .createQueryBuilder()
+          .update()
+          .set(values)
+          .where('id = ANY(:ids)', { ids: [...before.keys()] })
+          .setParameter('priceFactor', 1 + (priceChangePercent ?? 0) / 100)
+          .returning('*')
+          .execute();
+
+        const entries: AuditEntry[] = [];
+        const prices: PriceEntry[] = [];
+        for (const after of (result.raw ?? []) as ProductEntity[]) {
+          const changes = productChanges(before.get(after.id)!, after);
+          if (!Object.keys(changes).length) continue;
+
+          entries.push({
+            action: 'update',
+            productId: after.id,
+            article: after.article,
+            changes,
+            actorId: actor?.id,
+          });
+          if (changes.price || changes.currency) {
+            prices.push(priceEntry(before.get(after.id)!, after, actor));
+          }
+        }
+        await this.auditService.record(entries, manager);
+        await this.pricesService.record(prices, manager);
+        updated += entries.length;
+        if (batch.length < PATCH_BATCH_SIZE) break;
+      }
+
+      return { dryRun, matched, updated };
+    });
   }
 
-  async create(data: CreateProductDto): Promise<ProductEntity> {
+  // create, update и remove внутри уже открытой транзакции — их же
+  // использует пакетная обработка
+  private async createIn(
+    manager: EntityManager,
+    data: CreateProductDto,
+    actor?: AuthUser,
+    parentId?: number,
+  ): Promise<ProductEntity> {
+    const repo = manager.getRepository(ProductEntity);
     // Проверяем на дубликат артикула
-    const existing = await this.findByArticle(data.article);
+    const existing = await repo.findOne({
+      where: { article: data.article },
+      withDeleted: true,
+    });
+    if (existing?.deletedAt) {
+      throw new ArticleInTrashException(data.article);
+    }
     if (existing) {
-      throw new Error(`Продукт с артикулом ${data.article} уже существует`);
+      throw new DuplicateArticleException(data.article);
+    }
+    if (data.currency) {
+      await this.currenciesService.assertKnown(data.currency);
+    }
+    if (data.categoryId) {
+      await this.categoriesService.assertExists(data.categoryId);
+    }
+    if (data.attributes) {
+      await this.attributesService.validateValues(
+        data.attributes,
+        data.categoryId,
+      );
     }
 
-    const product = this.productsRepo.create(data);
-    return this.productsRepo.save(product);
+    const saved = await repo.save(
+      repo.create({
+        ...data,
+        attributes: mergeAttributes({}, data.attributes ?? {}),
+        parentId,
+        createdById: actor?.id,
+        updatedById: actor?.id,
+      }),
+    );
+    await this.auditService.record(
+      [
+        {
+          action: 'create',
+          productId: saved.id,
+          article: saved.article,
+          changes: productChanges(null, saved),
+          actorId: actor?.id,
+        },
+      ],
+      manager,
+    );
+    await this.pricesService.record(
+      [
+        {
+          productId: saved.id,
+          price: saved.price ?? null,
+          previousPrice: null,
+          currency: saved.currency,
+          previousCurrency: null,
+          actorId: actor?.id,
+        },
+      ],
+      manager,
+    );
+    // Поисковый вектор приходит из RETURNING, в ответе он не нужен
+    delete saved.searchVector;
+    return saved;
   }
 
-  async update(id: number, data: UpdateProductDto): Promise<ProductEntity> {
-    const existingProduct = await this.findOne(id);
-    if (!existingProduct) {
-      throw new NotFoundException(`Продукт с ID ${id} не найден`);
+  private async updateIn(
+    manager: EntityManager,
+    existingProduct: ProductEntity,
+    { version, ...data }: PatchProductDto,
+    actor?: AuthUser,
+    ifMatch?: number[],
+  ): Promise<ProductEntity> {
+    const repo = manager.getRepository(ProductEntity);
+    const { id } = existingProduct;
+    const checked = assertCurrentVersion(existingProduct, version, ifMatch);
+    if (!Object.keys(data).length) {
+      return existingProduct;
     }
 
     // Если обновляется артикул, проверяем на дубликат
     if (data.article && data.article !== existingProduct.article) {
-      const duplicate = await this.findByArticle(data.article);
+      const duplicate = await repo.findOne({
+        where: { article: data.article },
+        withDeleted: true,
+      });
       if (duplicate) {
-        throw new Error(`Продукт с артикулом ${data.article} уже существует`);
+        throw new DuplicateArticleException(data.article);
       }
     }
+    if (data.currency) {
+      await this.currenciesService.assertKnown(data.currency);
+    }
+    if (data.categoryId) {
+      await this.categoriesService.assertExists(data.categoryId);
+    }
+    const { attributes, ...fields } = data;
+    // При смене категории заново проверяются и уже заданные атрибуты:
+    // атрибуты прежней категории новой могут не подходить
+    const currentCategoryId = existingProduct.categoryId ?? null;
+    const categoryId =
+      data.categoryId !== undefined ? data.categoryId : currentCategoryId;
+    if (categoryId !== currentCategoryId) {
+      await this.attributesService.validateValues(
+        mergeAttributes(existingProduct.attributes, attributes ?? {}),
+        categoryId,
+      );
+    } else if (attributes) {
+      await this.attributesService.validateValues(attributes, categoryId);
+    }
+
+    const values = {
+      ...fields,
+      ...(attributes
+        ? {
+            attributes: mergeAttributes(existingProduct.attributes, attributes),
+          }
+        : {}),
+      ...(actor ? { updatedById: actor.id } : {}),
+    };
+    // Версия в условии: правка, успевшая между чтением и записью,
+    // тоже отклоняется
+    if (checked) {
+      const result = await repo.update(
+        { id, version: existingProduct.version },
+        values,
+      );
+      if (!result.affected) {
+        throw new StaleVersionException(id, ifMatch !== undefined);
+      }
+    } else {
+      await repo.update(id, values);
+    }
+    const updatedProduct = (await repo.findOneBy({ id }))!;
+
+    const changes = productChanges(existingProduct, updatedProduct);
+    if (changes.price || changes.currency) {
+      await this.pricesService.record(
+        [priceEntry(existingProduct, updatedProduct, actor)],
+        manager,
+      );
+    }
+    if (Object.keys(changes).length) {
+      await this.auditService.record(
+        [
+          {
+            action: 'update',
+            productId: id,
+            article: updatedProduct.article,
+            changes,
+            actorId: actor?.id,
+          },
+        ],
+        manager,
+      );
+    }
+    return updatedProduct;
+  }
 
-    await this.productsRepo.update(id, data);
-    const updatedProduct = await this.findOne(id);
-    return updatedProduct!;
+  private async removeIn(
+    manager: EntityManager,
+    product: ProductEntity,
+    actor?: AuthUser,
+  ): Promise<void> {
+    const repo = manager.getRepository(ProductEntity);
+    // Варианты в корзине тоже считаются: иначе товар можно окончательно
+    // удалить, а восстановленный вариант ссылался бы на несуществующий
+    const variants = await repo.count({
+      where: { parentId: product.id },
+      withDeleted: true,
+    });
+    if (variants) {
+      throw new ConflictException(
+        `У продукта с ID ${product.id} есть варианты, в том числе в корзине: сначала удалите их окончательно`,
+      );
+    }
+    await repo.softDelete(product.id);
+    await this.auditService.record(
+      [
+        {
+          action: 'delete',
+          productId: product.id,
+          article: product.article,
+          changes: productChanges(product, null),
+          actorId: actor?.id,
+        },
+      ],
+      manager,
+    );
   }
 
-  async remove(id: number): Promise<void> {
-    const product = await this.findOne(id);
-    if (!product) {
-      throw new NotFoundException(`Продукт с ID ${id} не найден`);
+  async findTrash(
+    query: ProductTrashQueryDto,
+  ): Promise<PaginatedResult<ProductEntity>> {
+    const { page, limit } = query;
+    const conversion = await this.resolveConversion(query.currency);
+    const queryBuilder = this.createFilteredQuery(query, conversion)
+      .withDeleted()
+      .andWhere('product.deletedAt IS NOT NULL');
+    if (conversion) {
+      queryBuilder.addSelect(CONVERTED_PRICE, 'converted_price');
     }
 
-    await this.productsRepo.delete(id);
+    const total = await queryBuilder.getCount();
+    const items = await this.loadProducts(
+      queryBuilder
+        .orderBy('product.deletedAt', 'DESC')
+        .addOrderBy('product.id', 'DESC')
+        .offset((page - 1) * limit)
+        .limit(limit),
+      conversion,
+    );
+
+    return {
+      items,
+      total,
+      page,
+      pageCount: Math.ceil(total / limit),
+      nextCursor: null,
+    };
+  }
+
+  async restore(id: number, actor?: AuthUser): Promise<ProductEntity> {
+    const product = await this.findTrashed(id);
+    if (
+      product.parentId &&
+      !(await this.productsRepo.existsBy({ id: product.parentId }))
+    ) {
+      throw new ConflictException(
+        `Основной продукт с ID ${product.parentId} удалён, вариант нельзя восстановить`,
+      );
+    }
+
+    return this.productsRepo.manager.transaction(async (manager) => {
+      const repo = manager.getRepository(ProductEntity);
+      await repo.restore(id);
+      if (actor) {
+        await repo.update(id, { updatedById: actor.id });
+      }
+      await this.auditService.record(
+        [
+          {
+            action: 'restore',
+            productId: id,
+            article: product.article,
+            changes: productChanges(null, product),
+            actorId: actor?.id,
+          },
+        ],
+        manager,
+      );
+      return (await repo.findOneBy({ id }))!;
+    });
+  }
+
+  // Окончательно удаляется только товар из корзины. Файлы изображений
+  // удаляются после фиксации транзакции
+  async purge(id: number, actor?: AuthUser): Promise<void> {
+    const product = await this.findTrashed(id);
+
+    const files = await this.productsRepo.manager.transaction(
+      async (manager) => {
+        await manager.getRepository(ProductEntity).delete(id);
+        await this.stockService.removeForProducts([id], manager);
+        await this.auditService.record(
+          [
+            {
+              action: 'purge',
+              productId: id,
+              article: product.article,
+              actorId: actor?.id,
+            },
+          ],
+          manager,
+        );
+        return this.imagesService.removeForProducts([id], manager);
+      },
+    );
+    await this.imagesService.deleteFiles(files);
+  }
+
+  async emptyTrash(actor?: AuthUser): Promise<number> {
+    const { purged, files } = await this.productsRepo.manager.transaction(
+      async (manager) => {
+        const result = await manager
+          .getRepository(ProductEntity)
+          .createQueryBuilder()
+          .delete()
+          .where('deletedAt IS NOT NULL')
+          .returning(['id', 'article'])
+          .execute();
+        const purged: Pick<ProductEntity, 'id' | 'article'>[] =
+          result.raw ?? [];
+        const ids = purged.map((product) => product.id);
+        await this.stockService.removeForProducts(ids, manager);
+
+        await this.auditService.record(
+          purged.map((product) => ({
+            action: 'purge' as const,
+            productId: product.id,
+            article: product.article,
+            actorId: actor?.id,
+          })),
+          manager,
+        );
+        return {
+          purged,
+          files: await this.imagesService.removeForProducts(ids, manager),
+        };
+      },
+    );
+    await this.imagesService.deleteFiles(files);
+    return purged.length;
+  }
+
+  private async findTrashed(id: number): Promise<ProductEntity> {
+    const product = await this.productsRepo.findOne({
+      where: { id },
+      withDeleted: true,
+    });
+    if (!product) {
+      throw new ProductNotFoundException({ id });
+    }
+    if (!product.deletedAt) {
+      throw new ConflictException(`Продукт с ID ${id} не находится в корзине`);
+    }
+    return product;
   }
 
   async getBrands(): Promise<string[]> {
@@ -119,9 +1293,69 @@ export class ProductsService {
     return result.map((item) => item.brand);
   }
 
-  async clearTable(): Promise<void> {
-    await this.productsRepo.query(
-      `TRUNCATE TABLE "${this.productsRepo.metadata.tableName}" RESTART IDENTITY CASCADE;`,
-    );
+  // Перемещает весь каталог в корзину; вернуть товары можно по одному
+  // через restore, окончательно удалить — через очистку корзины
+  async clearTable(actor?: AuthUser): Promise<number> {
+    return this.productsRepo.manager.transaction(async (manager) => {
+      const result = await manager
+        .getRepository(ProductEntity)
+        .softDelete({ deletedAt: IsNull() });
+      const deleted = result.affected ?? 0;
+      await this.auditService.record(
+        [{ action: 'clear', details: { deleted }, actorId: actor?.id }],
+        manager,
+      );
+      return deleted;
+    });
+  }
+}
+
+// Данные операции create проверяются так же, как тело POST /products
+function toCreateProductDto(data: PatchProductDto = {}): CreateProductDto {
+  const product = plainToInstance(CreateProductDto, {
+    ...data,
+    version: undefined,
+  });
+  const messages = validateSync(product).flatMap((error) =>
+    Object.values(error.constraints ?? {}),
+  );
+  if (messages.length) {
+    throw new BadRequestException(messages.join('; '));
+  }
+  return product;
+}
+
+// Запись истории цен об изменении товара; decimal из базы приходит
+// строкой
+function priceEntry(
+  before: ProductEntity,
+  after: ProductEntity,
+  actor?: AuthUser,
+): PriceEntry {
+  const toPrice = (price?: number | null) =>
+    price == null ? null : Number(price);
+  return {
+    productId: after.id,
+    price: toPrice(after.price),
+    previousPrice: toPrice(before.price),
+    currency: after.currency,
+    previousCurrency: before.currency,
+    actorId: actor?.id,
+  };
+}
+
+// Проверяет версию, которую видел клиент: If-Match — 412, version
+// в теле — 409. true, если проверка была
+function assertCurrentVersion(
+  product: ProductEntity,
+  version?: number,
+  ifMatch?: number[],
+): boolean {
+  if (ifMatch && !ifMatch.includes(product.version)) {
+    throw new StaleVersionException(product.id, true);
+  }
+  if (version !== undefined && version !== product.version) {
+    throw new StaleVersionException(product.id, false);
   }
+  return ifMatch !== undefined || version !== undefined;
 }
@@ -0,0 +1,48 @@
+import {
+  INestApplication,
+  Provider,
+  Type,
+  ValidationPipe,
+} from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { AuthGuard } from '../auth/auth.guard';
+import { AuthService } from '../auth/auth.service';
+import { UserRole } from '../dto/auth.dto';
+
+// Приложение для HTTP-тестов контроллера: глобальный AuthGuard и
+// ValidationPipe как в main.ts. Токен Bearer — роль пользователя
+export async function createControllerApp(
+  controller: Type<unknown>,
+  providers: Provider[],
+): Promise<INestApplication> {
+  const authService = {
+    authenticateToken: async (role: UserRole) => ({
+      id: 1,
+      email: `${role}@example.com`,
+      role,
+    }),
+  };
+  const module = await Test.createTestingModule({
+    controllers: [controller],
+    providers: [
+      ...providers,
+      { provide: AuthService, useValue: authService },
+      { provide: APP_GUARD, useClass: AuthGuard },
+    ],
+  }).compile();
+
+  const app = module.createNestApplication();
+  app.useGlobalPipes(
+    new ValidationPipe({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      transform: true,
+    }),
+  );
+  return app.init();
+}
+
+export function authAs(role: UserRole): Record<string, string> {
+  return { Authorization: `Bearer ${role}` };
+}
@@ -1,19 +1,49 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { INestApplication } from '@nestjs/common';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
 import * as request from 'supertest';
 import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
 import { AppModule } from './../src/app.module';
+import { UsersService } from './../src/auth/users.service';
+import { seedDemoCatalog } from './../src/database/seeds/demo-catalog.seed';
 
 describe('AppController (e2e)', () => {
   let app: INestApplication<App>;
+  let token: string;
 
-  beforeEach(async () => {
+  beforeAll(async () => {
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
     }).compile();
 
     app = moduleFixture.createNestApplication();
+    // Как в main.ts
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
     await app.init();
+    await seedDemoCatalog(app.get(DataSource));
+
+    // Свой пользователь на запуск: от ADMIN_EMAIL и уже созданных
+    // пользователей тест не зависит
+    const credentials = {
+      email: `e2e-${Date.now()}@example.com`,
+      password: 'e2e-password',
+    };
+    await app.get(UsersService).create({ ...credentials, role: 'editor' });
+    const login = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send(credentials)
+      .expect(200);
+    token = login.body.accessToken;
+  });
+
+  afterAll(async () => {
+    await app.close();
   });
 
   it('/ (GET)', () => {
@@ -22,4 +52,35 @@ describe('AppController (e2e)', () => {
       .expect(200)
       .expect('Hello World!');
   });
+
+  it('rejects catalog requests without a token', () => {
+    return request(app.getHttpServer()).get('/products').expect(401);
+  });
+
+  it('lists seeded products of a category with its subcategories', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/products')
+      .query({ category: 'obuv', includeDescendants: true, limit: 100 })
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    const articles = response.body.items.map(
+      (product: { article: string }) => product.article,
+    );
+    expect(articles).toEqual(
+      expect.arrayContaining(['RUN-100', 'TRL-200', 'KED-300']),
+    );
+    expect(articles).not.toContain('JKT-400');
+  });
+
+  it('rejects a shoe size on a jacket', async () => {
+    const response = await request(app.getHttpServer())
+      .patch('/products/by-article/JKT-400')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ attributes: { size: '42' } })
+      .expect(400);
+    expect(response.body.details).toEqual([
+      'Размер: атрибут не относится к категории товара',
+    ]);
+  });
 });
@@ -0,0 +1,5 @@
+// AppModule требует JWT_SECRET; без .env e2e-тесты берут тестовый секрет
+process.env.JWT_SECRET ??= 'e2e-secret';
+// База из .env (DB_*) приводится к последней схеме при старте приложения;
+// демо-каталог загружает сам тест
+process.env.DB_MIGRATIONS_RUN = 'true';